@@ -0,0 +1,74 @@
+// Service worker: keeps the app shell and built assets available offline.
+// Firebase, Mapbox and other API traffic is never cached; offline submissions are queued
+// in IndexedDB by the app itself (src/lib/submissionQueue.ts).
+
+const CACHE_NAME = 'toproof-shell-v1';
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/favicon.ico'];
+// Cross-origin hosts whose responses are safe to keep (web fonts)
+const CACHEABLE_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Pages: network first so deploys show up, falling back to the cached shell for client-side routes
+const handleNavigation = async (request) => {
+  try {
+    return await putInCache('/index.html', await fetch(request));
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+};
+
+// Hashed build assets never change, so the cached copy is always good
+const cacheFirst = async (request) => {
+  return (await caches.match(request)) || putInCache(request, await fetch(request));
+};
+
+// Everything else: answer from cache when possible and refresh it in the background
+const staleWhileRevalidate = async (request) => {
+  const cached = await caches.match(request);
+  const network = fetch(request).then((response) => putInCache(request, response));
+  if (cached) {
+    network.catch(() => undefined);
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  if (!sameOrigin && !CACHEABLE_HOSTS.includes(url.hostname)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (sameOrigin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
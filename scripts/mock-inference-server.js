@@ -0,0 +1,171 @@
+// Local stand-in for the YOLOv8 inference service used by src/lib/inferenceClient.ts
+// Usage: npm run mock:inference  (PORT and MOCK_LATENCY_MS env vars are optional)
+//
+// POST /api/detect  { sample_id, lat, lon, image?, image_url? }  -> InferenceResponse
+// GET  /api/health                                              -> { status: 'ok', model_version }
+//
+// Results are derived from a hash of sample_id/lat/lon so the same request always
+// returns the same detections.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 5000;
+const parsedLatency = process.env.MOCK_LATENCY_MS ? Number(process.env.MOCK_LATENCY_MS) : undefined;
+// An explicit 0 disables the delay; unset or unparseable values fall back to 500 ms
+const LATENCY_MS = (Number.isNaN(parsedLatency) ? undefined : parsedLatency) ?? 500;
+const MODEL_VERSION = 'yolov8-mock-1.0';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const hashString = (value) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createSeededRandom = (seed) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const detect = ({ sample_id, lat, lon }) => {
+  const random = createSeededRandom(hashString(`${sample_id}|${lat.toFixed(6)}|${lon.toFixed(6)}`));
+  const hasSolar = random() > 0.3;
+  const confidence = hasSolar ? 0.75 + random() * 0.24 : 0.1 + random() * 0.3;
+  const panelCount = hasSolar ? Math.floor(4 + random() * 20) : 0;
+
+  // Panels are ~1.7 x 1.0 m, drawn in the 640x640 frame of a zoom-18 Mapbox tile (512px tiles)
+  const metersPerPixel = (40075016.686 * Math.cos((lat * Math.PI) / 180)) / (512 * 2 ** 18);
+  const width = (1.65 + random() * 0.1) / metersPerPixel;
+  const height = (0.98 + random() * 0.06) / metersPerPixel;
+  const gap = 0.2 / metersPerPixel;
+  const cols = Math.ceil(Math.sqrt(panelCount));
+  const originX = 320 - (cols * (width + gap)) / 2;
+  const originY = 320 - (Math.ceil(panelCount / cols) * (height + gap)) / 2;
+
+  const detections = [];
+  for (let i = 0; i < panelCount; i++) {
+    detections.push({
+      type: 'bbox',
+      x: Math.round((originX + (i % cols) * (width + gap)) * 10) / 10,
+      y: Math.round((originY + Math.floor(i / cols) * (height + gap)) * 10) / 10,
+      width: Math.round(width * 10) / 10,
+      height: Math.round(height * 10) / 10,
+      confidence: Math.round((0.82 + random() * 0.17) * 100) / 100,
+    });
+  }
+
+  const pvArea = panelCount * width * height * metersPerPixel ** 2;
+  return {
+    sample_id,
+    has_solar: hasSolar,
+    confidence: Math.round(confidence * 100) / 100,
+    panel_count: panelCount,
+    pv_area_sqm: Math.round(pvArea * 10) / 10,
+    capacity_kw: Math.round(pvArea * 0.19 * 10) / 10,
+    qc_status: confidence > 0.5 ? 'VERIFIABLE' : 'NOT_VERIFIABLE',
+    qc_notes: confidence > 0.5 ? ['mock inference', 'distinct module grid detected'] : ['mock inference', 'insufficient image quality'],
+    detections,
+    image: {
+      source: 'Mock Inference Server',
+      capture_date: new Date().toISOString().split('T')[0],
+    },
+    model_version: MODEL_VERSION,
+    processing_time_ms: LATENCY_MS,
+  };
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+class RequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  const onData = (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      // Stop reading; the caller answers 413 and closes the connection
+      req.off('data', onData);
+      req.pause();
+      reject(new RequestError(413, 'Request body too large'));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new RequestError(400, 'Malformed JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/api/health') {
+    send(res, 200, { status: 'ok', model_version: MODEL_VERSION });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/api/detect') {
+    let body;
+    try {
+      body = await readJson(req);
+    } catch (error) {
+      const status = error instanceof RequestError ? error.status : 400;
+      send(res, status, { error: error.message }, status === 413 ? { Connection: 'close' } : {});
+      return;
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      send(res, 400, { error: 'Request body must be a JSON object' });
+      return;
+    }
+    if (typeof body.sample_id !== 'string' || typeof body.lat !== 'number' || typeof body.lon !== 'number') {
+      send(res, 422, { error: 'sample_id, lat and lon are required' });
+      return;
+    }
+    if (!body.image && !body.image_url) {
+      send(res, 422, { error: 'image or image_url is required' });
+      return;
+    }
+
+    setTimeout(() => send(res, 200, detect(body)), LATENCY_MS);
+    return;
+  }
+
+  send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock inference server listening on http://localhost:${PORT}/api/detect`);
+});
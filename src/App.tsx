@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import RequireRole from "@/components/RequireRole";
 
 import Home from "./pages/Home";
 import About from "./pages/About";
@@ -14,6 +15,10 @@ import UserDashboard from "./pages/UserDashboard";
 import OfficerDashboard from "./pages/OfficerDashboard";
 import ApplicationDetail from "./pages/ApplicationDetail";
 import Analytics from "./pages/Analytics";
+import Admin from "./pages/Admin";
+import InstallerDashboard from "./pages/InstallerDashboard";
+import Consent from "./pages/Consent";
+import Verify from "./pages/Verify";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -31,10 +36,20 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/contact" element={<Contact />} />
             <Route path="/apply" element={<Apply />} />
-            <Route path="/dashboard" element={<UserDashboard />} />
-            <Route path="/officer-dashboard" element={<OfficerDashboard />} />
-            <Route path="/application/:id" element={<ApplicationDetail />} />
-            <Route path="/analytics" element={<Analytics />} />
+            <Route path="/consent/:applicationId" element={<Consent />} />
+            <Route path="/verify/:sampleId?" element={<Verify />} />
+            <Route path="/dashboard" element={<RequireRole><UserDashboard /></RequireRole>} />
+            <Route
+              path="/installer"
+              element={<RequireRole permission="applications:submit_on_behalf"><InstallerDashboard /></RequireRole>}
+            />
+            <Route
+              path="/officer-dashboard"
+              element={<RequireRole permission="applications:view_all"><OfficerDashboard /></RequireRole>}
+            />
+            <Route path="/application/:id" element={<RequireRole><ApplicationDetail /></RequireRole>} />
+            <Route path="/analytics" element={<RequireRole permission="analytics:view"><Analytics /></RequireRole>} />
+            <Route path="/admin" element={<RequireRole permission="users:manage"><Admin /></RequireRole>} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -1,7 +1,9 @@
 import { Application, ApplicationStatus } from '@/lib/applicationService';
+import { CONSENT_STATUS_LABELS, ConsentStatus } from '@/lib/installerPortal';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { MapPin, Calendar, Zap, CheckCircle, XCircle, Clock, Loader2 } from 'lucide-react';
+import CapacityRiskFlag from '@/components/CapacityRiskFlag';
+import { MapPin, Calendar, Zap, CheckCircle, XCircle, Clock, Loader2, Copy, UserCheck, HelpCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ApplicationCardProps {
@@ -34,6 +36,18 @@ const statusConfig: Record<ApplicationStatus, {
     icon: Zap,
     bgColor: 'bg-purple-100'
   },
+  pending_supervisor: { 
+    label: 'Awaiting Sign-off', 
+    color: 'text-indigo-600', 
+    icon: UserCheck,
+    bgColor: 'bg-indigo-100'
+  },
+  needs_info: { 
+    label: 'Needs More Info', 
+    color: 'text-orange-600', 
+    icon: HelpCircle,
+    bgColor: 'bg-orange-100'
+  },
   approved: { 
     label: 'Approved', 
     color: 'text-green-600', 
@@ -48,6 +62,12 @@ const statusConfig: Record<ApplicationStatus, {
   },
 };
 
+const consentBadgeClass: Record<ConsentStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700 border-amber-200',
+  confirmed: 'bg-green-100 text-green-700 border-green-200',
+  declined: 'bg-red-100 text-red-700 border-red-200',
+};
+
 const ApplicationCard = ({ application, onClick, showUserInfo = false }: ApplicationCardProps) => {
   const status = statusConfig[application.status] || statusConfig.pending;
   const StatusIcon = status.icon;
@@ -80,6 +100,25 @@ const ApplicationCard = ({ application, onClick, showUserInfo = false }: Applica
               </p>
             )}
 
+            {showUserInfo && application.assignedToName && (
+              <p className="text-xs text-muted-foreground">
+                Assigned to {application.assignedToName}
+              </p>
+            )}
+
+            {showUserInfo && application.consentStatus && (
+              <Badge variant="outline" className={cn("mr-2", consentBadgeClass[application.consentStatus])}>
+                {CONSENT_STATUS_LABELS[application.consentStatus]}
+              </Badge>
+            )}
+
+            {showUserInfo && application.possibleDuplicates && (
+              <Badge variant="destructive" className="gap-1">
+                <Copy className="h-3 w-3" />
+                Possible Duplicate
+              </Badge>
+            )}
+
             <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
               <span className="flex items-center gap-1">
                 <MapPin className="h-4 w-4" />
@@ -104,6 +143,7 @@ const ApplicationCard = ({ application, onClick, showUserInfo = false }: Applica
                 <span className="text-xs text-muted-foreground">
                   Confidence: {Math.round(application.aiResult.confidence * 100)}%
                 </span>
+                {showUserInfo && <CapacityRiskFlag application={application} compact />}
               </div>
             )}
           </div>
@@ -111,7 +151,8 @@ const ApplicationCard = ({ application, onClick, showUserInfo = false }: Applica
           {application.imageUrl && (
             <div className="w-20 h-20 rounded-lg overflow-hidden bg-muted flex-shrink-0">
               <img 
-                src={application.imageUrl} 
+                src={application.thumbnailUrl || application.imageUrl} 
+                loading="lazy"
                 alt="Rooftop"
                 className="w-full h-full object-cover"
               />
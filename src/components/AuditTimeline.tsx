@@ -0,0 +1,83 @@
+import { AuditEvent, AuditEventType, AUDIT_EVENT_LABELS } from '@/lib/auditTrail';
+import { cn } from '@/lib/utils';
+import { ArrowUpCircle, CheckCircle, FileText, HelpCircle, PenLine, RefreshCw, Undo2, Upload, UserCog, XCircle, Zap } from 'lucide-react';
+
+interface AuditTimelineProps {
+  events: AuditEvent[];
+}
+
+const eventConfig: Record<AuditEventType, { icon: React.ElementType; color: string }> = {
+  created: { icon: FileText, color: 'bg-blue-100 text-blue-600' },
+  ai_run: { icon: Zap, color: 'bg-purple-100 text-purple-600' },
+  ai_rerun: { icon: RefreshCw, color: 'bg-purple-100 text-purple-600' },
+  escalated: { icon: ArrowUpCircle, color: 'bg-indigo-100 text-indigo-600' },
+  approved: { icon: CheckCircle, color: 'bg-green-100 text-green-600' },
+  rejected: { icon: XCircle, color: 'bg-red-100 text-red-600' },
+  sent_back: { icon: Undo2, color: 'bg-orange-100 text-orange-600' },
+  info_requested: { icon: HelpCircle, color: 'bg-orange-100 text-orange-600' },
+  resubmitted: { icon: Upload, color: 'bg-blue-100 text-blue-600' },
+  note_edited: { icon: PenLine, color: 'bg-amber-100 text-amber-600' },
+  reassigned: { icon: UserCog, color: 'bg-slate-100 text-slate-600' },
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditTimeline = ({ events }: AuditTimelineProps) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No recorded history for this application.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-6">
+      {events.map((event) => {
+        const config = eventConfig[event.type] || eventConfig.created;
+        const EventIcon = config.icon;
+        const changes = Object.entries(event.diff);
+        const aiResult = event.details?.aiResult as { capacity_kw_est?: number; confidence?: number } | undefined;
+
+        return (
+          <li key={event.id} className="ml-6">
+            <span className={cn(
+              'absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background',
+              config.color
+            )}>
+              <EventIcon className="h-3 w-3" />
+            </span>
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="font-medium">{AUDIT_EVENT_LABELS[event.type] || event.type}</p>
+              <time className="text-xs text-muted-foreground">
+                {new Date(event.timestamp).toLocaleString()}
+              </time>
+            </div>
+            <p className="text-xs text-muted-foreground">by {event.actorId}</p>
+
+            {changes.length > 0 && (
+              <ul className="mt-2 text-sm space-y-1">
+                {changes.map(([field, change]) => (
+                  <li key={field} className="break-words">
+                    <span className="text-muted-foreground">{field}:</span>{' '}
+                    <span className="line-through text-muted-foreground">{formatValue(change.from)}</span>
+                    {' → '}
+                    <span>{formatValue(change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {aiResult && (
+              <p className="mt-1 text-sm text-muted-foreground">
+                Result: {aiResult.capacity_kw_est} kW at {Math.round((aiResult.confidence || 0) * 100)}% confidence
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default AuditTimeline;
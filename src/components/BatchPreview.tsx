@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { BatchField, BatchRow, BATCH_FIELD_LABELS } from '@/lib/batchImport';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, AlertTriangle, Download, EyeOff, Undo2 } from 'lucide-react';
+
+interface BatchPreviewProps {
+  rows: BatchRow[];
+  unmappedHeaders: string[];
+  onValueChange: (rowNumber: number, field: BatchField, value: string) => void;
+  onSkipChange: (rowNumber: number, skipped: boolean) => void;
+  onDownloadErrors: () => void;
+}
+
+// Columns shown in the preview; errors in other columns are listed under the row
+const PREVIEW_FIELDS: BatchField[] = [
+  'sampleId',
+  'latitude',
+  'longitude',
+  'region',
+  'installationDate',
+  'systemCapacity',
+  'subsidyAmount',
+];
+
+const PAGE_SIZE = 50;
+
+const BatchPreview = ({ rows, unmappedHeaders, onValueChange, onSkipChange, onDownloadErrors }: BatchPreviewProps) => {
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  // Rows stay editable once they have had an error, so fixing a cell does not pull the input away mid-edit
+  const [editedRows, setEditedRows] = useState<Set<number>>(() => new Set());
+
+  const handleValueChange = (rowNumber: number, field: BatchField, value: string) => {
+    if (!editedRows.has(rowNumber)) {
+      setEditedRows(new Set(editedRows).add(rowNumber));
+    }
+    onValueChange(rowNumber, field, value);
+  };
+
+  const validCount = rows.filter((row) => row.data && !row.skipped).length;
+  const invalidCount = rows.filter((row) => !row.data && !row.skipped).length;
+  const skippedCount = rows.filter((row) => row.skipped).length;
+
+  const shownRows = errorsOnly
+    ? rows.filter((row) => !row.data || row.skipped || editedRows.has(row.rowNumber))
+    : rows;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className="bg-green-100 text-green-700 border-green-200">
+            {validCount} ready
+          </Badge>
+          {invalidCount > 0 && (
+            <Badge variant="outline" className="bg-red-100 text-red-700 border-red-200">
+              {invalidCount} with errors
+            </Badge>
+          )}
+          {skippedCount > 0 && <Badge variant="outline">{skippedCount} skipped</Badge>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setErrorsOnly(!errorsOnly)}>
+            {errorsOnly ? 'Show All Rows' : 'Show Problems Only'}
+          </Button>
+          {invalidCount > 0 && (
+            <Button variant="outline" size="sm" className="gap-2" onClick={onDownloadErrors}>
+              <Download className="h-4 w-4" />
+              Error Report
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {unmappedHeaders.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Ignored columns: {unmappedHeaders.join(', ')}
+        </p>
+      )}
+
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-muted">
+            <tr>
+              <th className="p-2 text-left">Row</th>
+              {PREVIEW_FIELDS.map((field) => (
+                <th key={field} className="p-2 text-left whitespace-nowrap">{BATCH_FIELD_LABELS[field]}</th>
+              ))}
+              <th className="p-2 text-right"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownRows.slice(0, visibleCount).map((row) => {
+              const otherErrors = Object.entries(row.errors)
+                .filter(([field]) => !PREVIEW_FIELDS.includes(field as BatchField));
+              return (
+                <tr
+                  key={row.rowNumber}
+                  className={`border-t align-top ${row.skipped ? 'opacity-50' : !row.data ? 'bg-red-50/60' : ''}`}
+                >
+                  <td className="p-2 font-mono text-xs">
+                    <div className="flex items-center gap-1">
+                      {row.data && !row.skipped ? (
+                        <CheckCircle className="h-3.5 w-3.5 text-green-600" />
+                      ) : !row.skipped ? (
+                        <AlertTriangle className="h-3.5 w-3.5 text-red-600" />
+                      ) : null}
+                      {row.rowNumber}
+                    </div>
+                  </td>
+                  {PREVIEW_FIELDS.map((field) => (
+                    <td key={field} className="p-2 min-w-28">
+                      {row.skipped || (row.data && !editedRows.has(row.rowNumber)) ? (
+                        <span>{row.values[field] || '-'}</span>
+                      ) : (
+                        <div className="space-y-1">
+                          <Input
+                            value={row.values[field] ?? ''}
+                            onChange={(e) => handleValueChange(row.rowNumber, field, e.target.value)}
+                            className={`h-8 text-xs ${row.errors[field] ? 'border-destructive' : ''}`}
+                            aria-label={`${BATCH_FIELD_LABELS[field]}, row ${row.rowNumber}`}
+                          />
+                          {row.errors[field] && (
+                            <p className="text-xs text-destructive">{row.errors[field]}</p>
+                          )}
+                        </div>
+                      )}
+                      {field === 'sampleId' && otherErrors.length > 0 && !row.skipped && (
+                        <p className="text-xs text-destructive mt-1">
+                          {otherErrors.map(([, message]) => message).join('; ')}
+                        </p>
+                      )}
+                    </td>
+                  ))}
+                  <td className="p-2 text-right">
+                    {(!row.data || row.skipped) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => onSkipChange(row.rowNumber, !row.skipped)}
+                      >
+                        {row.skipped ? <Undo2 className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                        {row.skipped ? 'Include' : 'Skip'}
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {shownRows.length > visibleCount && (
+        <div className="text-center">
+          <Button variant="ghost" size="sm" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+            Show more ({shownRows.length - visibleCount} remaining)
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPreview;
@@ -0,0 +1,80 @@
+import { Application } from '@/lib/applicationService';
+import { checkCapacityDiscrepancy, RiskLevel } from '@/lib/discrepancyCheck';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface CapacityRiskFlagProps {
+  application: Application;
+  compact?: boolean;
+  className?: string;
+}
+
+const riskConfig: Record<RiskLevel, {
+  label: string;
+  className: string;
+  icon: React.ElementType;
+}> = {
+  low: {
+    label: 'Capacity Consistent',
+    className: 'bg-green-100 text-green-700 border-green-200',
+    icon: ShieldCheck,
+  },
+  medium: {
+    label: 'Capacity Discrepancy',
+    className: 'bg-amber-100 text-amber-700 border-amber-200',
+    icon: AlertTriangle,
+  },
+  high: {
+    label: 'High Risk Discrepancy',
+    className: 'bg-red-100 text-red-700 border-red-200',
+    icon: ShieldAlert,
+  },
+};
+
+const CapacityRiskFlag = ({ application, compact = false, className }: CapacityRiskFlagProps) => {
+  const report = checkCapacityDiscrepancy(application);
+  if (!report) return null;
+
+  const config = riskConfig[report.riskLevel];
+  const RiskIcon = config.icon;
+
+  if (compact) {
+    // Only draw attention in lists when something is off
+    if (report.riskLevel === 'low') return null;
+    return (
+      <Badge className={cn(config.className, 'gap-1', className)}>
+        <RiskIcon className="h-3 w-3" />
+        {config.label}
+      </Badge>
+    );
+  }
+
+  return (
+    <div className={cn('p-4 rounded-lg border', config.className, className)}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="font-semibold flex items-center gap-2">
+          <RiskIcon className="h-4 w-4" />
+          {config.label}
+        </h4>
+        <span className="text-xs">
+          Claimed {report.claimedKw} kW • Detected {report.detectedKw} kW
+        </span>
+      </div>
+      {report.flags.length > 0 ? (
+        <ul className="text-sm list-disc list-inside space-y-1">
+          {report.flags.map((flag) => (
+            <li key={flag.code}>{flag.message}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm">
+          Detected capacity and panel count are within tolerance of the claim
+          ({report.expectedPanelCount} × {report.panelWattage} Wp expected).
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CapacityRiskFlag;
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { discardFailedSubmission, getFailedSubmissions, retryFailedSubmission } from '@/lib/submissionQueue';
+import type { QueuedSubmission } from '@/lib/offlineStore';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+
+interface FailedSubmissionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Called after a submission is put back in line, to send it right away
+  onRetry: () => void;
+}
+
+// Offline submissions the server kept refusing, set aside so they do not block the rest of the queue
+const FailedSubmissionsDialog = ({ open, onClose, onRetry }: FailedSubmissionsDialogProps) => {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const [submissions, setSubmissions] = useState<QueuedSubmission[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !userProfile) return;
+    getFailedSubmissions(userProfile.uid)
+      .then(setSubmissions)
+      .catch((error) => console.warn('Failed submissions could not be loaded:', error));
+  }, [open, userProfile]);
+
+  const runAction = async (submission: QueuedSubmission, action: 'retry' | 'discard') => {
+    setBusyId(submission.id);
+    try {
+      if (action === 'retry') {
+        await retryFailedSubmission(submission);
+      } else {
+        await discardFailedSubmission(submission);
+      }
+      const remaining = submissions.filter((item) => item.id !== submission.id);
+      setSubmissions(remaining);
+      if (action === 'retry') onRetry();
+      if (remaining.length === 0) onClose();
+    } catch (error) {
+      toast({
+        title: action === 'retry' ? 'Retry Failed' : 'Discard Failed',
+        description: error instanceof Error ? error.message : 'Could not update the saved submission.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Submissions Not Sent</DialogTitle>
+          <DialogDescription>
+            These applications were saved on this device but could not be submitted. Check the error,
+            then try again or discard them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {submissions.map((submission) => (
+            <div key={submission.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium">{submission.data.sampleId}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {submission.customer ? `For ${submission.customer.name} · ` : ''}
+                    Saved {new Date(submission.queuedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    disabled={busyId !== null}
+                    onClick={() => runAction(submission, 'retry')}
+                  >
+                    {busyId === submission.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                    Retry
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-destructive"
+                    disabled={busyId !== null}
+                    onClick={() => runAction(submission, 'discard')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Discard
+                  </Button>
+                </div>
+              </div>
+              {submission.lastError && (
+                <p className="text-sm text-destructive">{submission.lastError}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FailedSubmissionsDialog;
@@ -1,6 +1,10 @@
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
+import { getHomePath, hasPermission } from '@/lib/roles';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
+import FailedSubmissionsDialog from '@/components/FailedSubmissionsDialog';
 import { 
   Sun, 
   Menu, 
@@ -12,7 +16,8 @@ import {
   LogOut, 
   User, 
   Shield,
-  BarChart3
+  BarChart3,
+  UserCog
 } from 'lucide-react';
 import { useState } from 'react';
 
@@ -20,6 +25,10 @@ const Navbar = () => {
   const { user, userProfile, logout } = useAuth();
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { status: syncStatus, retry: retrySync } = useSyncStatus();
+  const [failedOpen, setFailedOpen] = useState(false);
+  // Hidden while signed out and online, when there is nothing to sync
+  const showSyncStatus = Boolean(userProfile) || syncStatus?.online === false;
 
   const navLinks = [
     { href: '/', label: 'Home', icon: Home },
@@ -67,17 +76,28 @@ const Navbar = () => {
 
           {/* Auth Section */}
           <div className="hidden md:flex items-center gap-3">
+            {showSyncStatus && <SyncStatusIndicator status={syncStatus} onRetry={retrySync} onShowFailed={() => setFailedOpen(true)} />}
             {user && userProfile ? (
               <>
-                <Link to="/analytics">
-                  <Button variant={isActive('/analytics') ? "default" : "ghost"} size="sm" className="gap-2">
-                    <BarChart3 className="h-4 w-4" />
-                    Analytics
-                  </Button>
-                </Link>
-                <Link to={userProfile.role === 'officer' ? '/officer-dashboard' : '/dashboard'}>
+                {hasPermission(userProfile.role, 'users:manage') && (
+                  <Link to="/admin">
+                    <Button variant={isActive('/admin') ? "default" : "ghost"} size="sm" className="gap-2">
+                      <UserCog className="h-4 w-4" />
+                      Admin
+                    </Button>
+                  </Link>
+                )}
+                {hasPermission(userProfile.role, 'analytics:view') && (
+                  <Link to="/analytics">
+                    <Button variant={isActive('/analytics') ? "default" : "ghost"} size="sm" className="gap-2">
+                      <BarChart3 className="h-4 w-4" />
+                      Analytics
+                    </Button>
+                  </Link>
+                )}
+                <Link to={getHomePath(userProfile.role)}>
                   <Button variant="outline" size="sm" className="gap-2">
-                    {userProfile.role === 'officer' ? (
+                    {hasPermission(userProfile.role, 'applications:view_all') ? (
                       <Shield className="h-4 w-4" />
                     ) : (
                       <User className="h-4 w-4" />
@@ -103,14 +123,16 @@ const Navbar = () => {
           </div>
 
           {/* Mobile Menu Button */}
-          <Button 
-            variant="ghost" 
-            size="icon" 
-            className="md:hidden"
-            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-          >
-            {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
-          </Button>
+          <div className="flex items-center gap-1 md:hidden">
+            {showSyncStatus && <SyncStatusIndicator status={syncStatus} onRetry={retrySync} onShowFailed={() => setFailedOpen(true)} />}
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            >
+              {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
+            </Button>
+          </div>
         </div>
 
         {/* Mobile Menu */}
@@ -137,24 +159,40 @@ const Navbar = () => {
               
               {user && userProfile ? (
                 <>
-                  <Link 
-                    to="/analytics"
-                    onClick={() => setMobileMenuOpen(false)}
-                  >
-                    <Button 
-                      variant={isActive('/analytics') ? "default" : "ghost"} 
-                      className="w-full justify-start gap-2"
+                  {hasPermission(userProfile.role, 'users:manage') && (
+                    <Link 
+                      to="/admin"
+                      onClick={() => setMobileMenuOpen(false)}
                     >
-                      <BarChart3 className="h-4 w-4" />
-                      Analytics
-                    </Button>
-                  </Link>
+                      <Button 
+                        variant={isActive('/admin') ? "default" : "ghost"} 
+                        className="w-full justify-start gap-2"
+                      >
+                        <UserCog className="h-4 w-4" />
+                        Admin
+                      </Button>
+                    </Link>
+                  )}
+                  {hasPermission(userProfile.role, 'analytics:view') && (
+                    <Link 
+                      to="/analytics"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      <Button 
+                        variant={isActive('/analytics') ? "default" : "ghost"} 
+                        className="w-full justify-start gap-2"
+                      >
+                        <BarChart3 className="h-4 w-4" />
+                        Analytics
+                      </Button>
+                    </Link>
+                  )}
                   <Link 
-                    to={userProfile.role === 'officer' ? '/officer-dashboard' : '/dashboard'}
+                    to={getHomePath(userProfile.role)}
                     onClick={() => setMobileMenuOpen(false)}
                   >
                     <Button variant="outline" className="w-full justify-start gap-2">
-                      {userProfile.role === 'officer' ? (
+                      {hasPermission(userProfile.role, 'applications:view_all') ? (
                         <Shield className="h-4 w-4" />
                       ) : (
                         <User className="h-4 w-4" />
@@ -185,6 +223,7 @@ const Navbar = () => {
           </div>
         )}
       </div>
+      <FailedSubmissionsDialog open={failedOpen} onClose={() => setFailedOpen(false)} onRetry={retrySync} />
     </nav>
   );
 };
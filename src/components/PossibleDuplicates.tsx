@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Application, checkApplicationDuplicates } from '@/lib/applicationService';
+import { DuplicateMatch, DUPLICATE_REASON_LABELS } from '@/lib/duplicateDetection';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+
+interface PossibleDuplicatesProps {
+  application: Application;
+  // Hide the re-check action for read-only viewers
+  readOnly?: boolean;
+}
+
+const PossibleDuplicates = ({ application, readOnly = false }: PossibleDuplicatesProps) => {
+  const { toast } = useToast();
+  const [matches, setMatches] = useState<DuplicateMatch[]>(
+    Object.values(application.possibleDuplicates || {})
+  );
+  const [checkedAt, setCheckedAt] = useState(application.duplicatesCheckedAt);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    setMatches(Object.values(application.possibleDuplicates || {}));
+    setCheckedAt(application.duplicatesCheckedAt);
+  }, [application]);
+
+  // Quiet runs (opening an application) only report failures; the Check Now button reports the result
+  const runCheck = useCallback(async (quiet: boolean) => {
+    setChecking(true);
+    try {
+      const result = await checkApplicationDuplicates(application.id);
+      setMatches(result);
+      setCheckedAt(new Date().toISOString());
+      if (quiet) return;
+      toast({
+        title: 'Duplicate Check Complete',
+        description: result.length > 0
+          ? `Found ${result.length} possible duplicate${result.length === 1 ? '' : 's'}.`
+          : 'No possible duplicates found.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Duplicate Check Failed',
+        description: error instanceof Error ? error.message : 'Could not check for duplicates.',
+        variant: 'destructive',
+      });
+    } finally {
+      setChecking(false);
+    }
+  }, [application.id, toast]);
+
+  // Applicants cannot read other applications, so reviewers check new and resubmitted ones on opening
+  const submittedAt = application.resubmittedAt || application.createdAt;
+  const isStale = !application.duplicatesCheckedAt || application.duplicatesCheckedAt < submittedAt;
+  useEffect(() => {
+    if (!readOnly && isStale) runCheck(true);
+  }, [readOnly, isStale, runCheck]);
+
+  return (
+    <div className={`p-4 rounded-lg border ${matches.length > 0 ? 'bg-red-50 border-red-200' : 'bg-muted/50'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold flex items-center gap-2">
+          <Copy className="h-4 w-4" />
+          Possible Duplicates ({matches.length})
+        </h4>
+        {!readOnly && (
+          <Button variant="ghost" size="sm" onClick={() => runCheck(false)} disabled={checking}>
+            {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Check Now
+          </Button>
+        )}
+      </div>
+
+      {matches.length > 0 ? (
+        <ul className="space-y-2 text-sm">
+          {matches.map((match) => (
+            <li key={match.applicationId} className="flex items-start justify-between gap-2">
+              <div className="space-y-1">
+                <Link
+                  to={`/application/${match.applicationId}`}
+                  className="font-medium text-primary hover:underline inline-flex items-center gap-1"
+                >
+                  #{match.sampleId}
+                  <ExternalLink className="h-3 w-3" />
+                </Link>
+                <span className="text-muted-foreground"> • {match.userName}</span>
+                <div className="flex flex-wrap gap-1">
+                  {match.reasons.map((reason) => (
+                    <Badge key={reason} variant="destructive" className="text-xs">
+                      {DUPLICATE_REASON_LABELS[reason]}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {match.distanceM} m apart
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {checkedAt
+            ? `No duplicates found (checked ${new Date(checkedAt).toLocaleString()}).`
+            : 'This application has not been checked for duplicates yet.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PossibleDuplicates;
@@ -0,0 +1,40 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth, UserRole } from '@/contexts/AuthContext';
+import { getHomePath, hasPermission, Permission } from '@/lib/roles';
+import { Loader2 } from 'lucide-react';
+
+interface RequireRoleProps {
+  children: React.ReactNode;
+  // Allowed roles; omit to allow any signed-in user
+  roles?: readonly UserRole[];
+  // Alternatively, any role holding this permission
+  permission?: Permission;
+}
+
+// Route guard: signed-out visitors go to /auth, signed-in users without access to their own home page
+const RequireRole = ({ children, roles, permission }: RequireRoleProps) => {
+  const { user, userProfile, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading || (user && !userProfile)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  const role = userProfile!.role;
+  const allowed = (!roles || roles.includes(role)) && (!permission || hasPermission(role, permission));
+  if (!allowed) {
+    return <Navigate to={getHomePath(role)} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Application, processApplication, resubmitApplication } from '@/lib/applicationService';
+import { getRejectionReasonLabel } from '@/lib/rejectionReasons';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Upload } from 'lucide-react';
+
+interface ResubmitDialogProps {
+  application: Application;
+  userId: string;
+  onClose: () => void;
+}
+
+const ResubmitDialog = ({ application, userId, onClose }: ResubmitDialogProps) => {
+  const { toast } = useToast();
+  // Fields start from the submitted values; mount with a key per application to reset them
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [latitude, setLatitude] = useState(String(application.latitude));
+  const [longitude, setLongitude] = useState(String(application.longitude));
+  const [address, setAddress] = useState(application.address || '');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const lat = parseFloat(latitude);
+  const lon = parseFloat(longitude);
+  const coordinatesValid = !isNaN(lat) && !isNaN(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await resubmitApplication(application.id, userId, {
+        imageFile: imageFile || undefined,
+        latitude: lat,
+        longitude: lon,
+        address,
+        note,
+      });
+    } catch (error) {
+      toast({
+        title: 'Resubmission Failed',
+        description: error instanceof Error
+          ? error.message
+          : 'Could not resubmit your application. Please try again.',
+        variant: 'destructive',
+      });
+      setSubmitting(false);
+      return;
+    }
+
+    // Re-run detection on the corrected submission, as for a new application. The resubmission
+    // is saved either way; a failed run leaves it pending for the review queue to retry.
+    try {
+      await processApplication(application.id, userId);
+      toast({
+        title: 'Application Resubmitted',
+        description: 'Your updated application is being processed again.',
+      });
+    } catch (error) {
+      console.warn('Detection after resubmission failed:', error);
+      toast({
+        title: 'Application Resubmitted',
+        description: 'Your changes were saved. Detection could not start yet and will be retried.',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !submitting && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Resubmit {application.sampleId}</DialogTitle>
+          <DialogDescription>
+            Fix the issues below. Your earlier submission stays on record.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {application.rejectionReasons?.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {application.rejectionReasons.map((code) => (
+                <Badge key={code} variant="outline">{getRejectionReasonLabel(code)}</Badge>
+              ))}
+            </div>
+          )}
+          {application.officerNotes && (
+            <p className="text-sm text-muted-foreground">{application.officerNotes}</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="resubmit-image">New rooftop photo (optional)</Label>
+            <Input
+              id="resubmit-image"
+              type="file"
+              accept="image/*"
+              onChange={(e) => setImageFile(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="resubmit-lat">Latitude</Label>
+              <Input id="resubmit-lat" value={latitude} onChange={(e) => setLatitude(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="resubmit-lon">Longitude</Label>
+              <Input id="resubmit-lon" value={longitude} onChange={(e) => setLongitude(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="resubmit-address">Address</Label>
+            <Input id="resubmit-address" value={address} onChange={(e) => setAddress(e.target.value)} />
+          </div>
+
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Describe what you changed..."
+            rows={2}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button className="gap-2" onClick={handleSubmit} disabled={submitting || !coordinatesValid}>
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            Resubmit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResubmitDialog;
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { Application } from '@/lib/applicationService';
+import {
+  ReviewLock,
+  ReviewOfficer,
+  acquireReviewLock,
+  assignApplication,
+  autoAssignApplication,
+  claimApplication,
+  getOfficers,
+  isLockActive,
+  releaseApplication,
+  subscribeReviewLock,
+} from '@/lib/reviewQueue';
+import { UserProfile } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Lock, Shuffle, UserCheck, UserMinus } from 'lucide-react';
+
+interface ReviewAssignmentProps {
+  application: Application;
+  officer: ReviewOfficer;
+  // Supervisors may move applications held by other officers; officers only unassigned ones or their own
+  canReassignAny: boolean;
+}
+
+const ReviewAssignment = ({ application, officer, canReassignAny }: ReviewAssignmentProps) => {
+  const { toast } = useToast();
+  const [lock, setLock] = useState<ReviewLock | null>(null);
+  const [officers, setOfficers] = useState<UserProfile[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    getOfficers()
+      .then(setOfficers)
+      .catch((error) => console.warn('Officer list could not be loaded:', error));
+  }, []);
+
+  // Hold a soft lock while this application is open, and watch for other reviewers
+  useEffect(() => {
+    let release: (() => Promise<void>) | null = null;
+    let cancelled = false;
+    const logReleaseError = (error: unknown) => console.warn('Review lock could not be released:', error);
+
+    const unsubscribe = subscribeReviewLock(application.id, setLock);
+    acquireReviewLock(application.id, officer)
+      .then((releaseLock) => {
+        if (cancelled) {
+          releaseLock?.().catch(logReleaseError);
+        } else {
+          release = releaseLock;
+        }
+      })
+      .catch((error) => console.warn('Review lock could not be acquired:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      release?.().catch(logReleaseError);
+    };
+  }, [application.id, officer]);
+
+  const runAction = async (action: () => Promise<unknown>, successTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: successTitle });
+    } catch (error) {
+      toast({
+        title: 'Assignment Failed',
+        description: error instanceof Error ? error.message : 'Could not update the assignment. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isMine = application.assignedTo === officer.uid;
+  const lockedByOther = isLockActive(lock) && lock.officerId !== officer.uid;
+  const canReassign = canReassignAny || !application.assignedTo || isMine;
+
+  return (
+    <div className="p-4 rounded-lg border bg-muted/50 space-y-3">
+      {lockedByOther && (
+        <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-100 rounded px-3 py-2">
+          <Lock className="h-4 w-4" />
+          {lock.officerName} is currently reviewing this application
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <div>
+          <p className="text-muted-foreground">Assigned To</p>
+          <p className="font-semibold">
+            {application.assignedTo ? (isMine ? 'You' : application.assignedToName) : 'Unassigned'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {!application.assignedTo && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              disabled={busy}
+              onClick={() => runAction(() => claimApplication(application.id, officer), 'Application Claimed')}
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserCheck className="h-4 w-4" />}
+              Claim
+            </Button>
+          )}
+          {isMine && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              disabled={busy}
+              onClick={() => runAction(() => releaseApplication(application.id, officer.uid), 'Application Released')}
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserMinus className="h-4 w-4" />}
+              Release
+            </Button>
+          )}
+          {!application.assignedTo && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="gap-1"
+              disabled={busy}
+              onClick={() => runAction(() => autoAssignApplication(application.id, officer.uid), 'Application Assigned')}
+            >
+              <Shuffle className="h-4 w-4" />
+              Auto-assign
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {canReassign && officers.length > 1 && (
+        <select
+          className="h-9 w-full rounded-lg border-2 border-input bg-card px-3 text-sm"
+          value=""
+          disabled={busy}
+          onChange={(e) => {
+            const target = officers.find(o => o.uid === e.target.value);
+            if (target) {
+              runAction(
+                () => assignApplication(application.id, { uid: target.uid, name: target.name }, officer.uid),
+                `Reassigned to ${target.name}`
+              );
+            }
+          }}
+        >
+          <option value="" disabled>Reassign to...</option>
+          {officers
+            .filter(o => o.uid !== application.assignedTo)
+            .map(o => (
+              <option key={o.uid} value={o.uid}>
+                {o.name}{o.region ? ` (${o.region})` : ''}
+              </option>
+            ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ReviewAssignment;
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { REJECTION_REASONS, RejectionReasonCode } from '@/lib/rejectionReasons';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { HelpCircle, Loader2, ThumbsDown } from 'lucide-react';
+
+export type ReasonedDecision = 'rejected' | 'needs_info';
+
+interface ReviewDialogProps {
+  decision: ReasonedDecision | null;
+  initialNotes: string;
+  submitting: boolean;
+  onClose: () => void;
+  onConfirm: (decision: ReasonedDecision, reasons: RejectionReasonCode[], notes: string) => void;
+}
+
+const decisionCopy: Record<ReasonedDecision, { title: string; description: string; confirm: string }> = {
+  rejected: {
+    title: 'Reject Application',
+    description: 'Rejection is final. Select every reason that applies.',
+    confirm: 'Reject',
+  },
+  needs_info: {
+    title: 'Request More Information',
+    description: 'The applicant will be asked to fix these issues and resubmit.',
+    confirm: 'Send Request',
+  },
+};
+
+const ReviewDialog = ({ decision, initialNotes, submitting, onClose, onConfirm }: ReviewDialogProps) => {
+  const [reasons, setReasons] = useState<RejectionReasonCode[]>([]);
+  const [notes, setNotes] = useState(initialNotes);
+
+  useEffect(() => {
+    if (decision) {
+      setReasons([]);
+      setNotes(initialNotes);
+    }
+  }, [decision, initialNotes]);
+
+  if (!decision) return null;
+
+  const copy = decisionCopy[decision];
+  // Information requests only offer reasons the applicant can act on
+  const options = decision === 'needs_info'
+    ? REJECTION_REASONS.filter((reason) => reason.fixable)
+    : REJECTION_REASONS;
+
+  const toggleReason = (code: RejectionReasonCode, checked: boolean) => {
+    setReasons((prev) => (checked ? [...prev, code] : prev.filter((c) => c !== code)));
+  };
+
+  const needsNotes = reasons.includes('OTHER') && !notes.trim();
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {decision === 'rejected' ? <ThumbsDown className="h-5 w-5" /> : <HelpCircle className="h-5 w-5" />}
+            {copy.title}
+          </DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {options.map((reason) => (
+            <div key={reason.code} className="flex items-start gap-3">
+              <Checkbox
+                id={`reason-${reason.code}`}
+                checked={reasons.includes(reason.code)}
+                onCheckedChange={(checked) => toggleReason(reason.code, checked === true)}
+              />
+              <Label htmlFor={`reason-${reason.code}`} className="font-normal leading-snug">
+                <span className="font-medium">{reason.label}</span>
+                <span className="block text-xs text-muted-foreground">{reason.description}</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder={reasons.includes('OTHER') ? 'Explain the reason (required for Other)...' : 'Notes for the applicant...'}
+          rows={3}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant={decision === 'rejected' ? 'destructive' : 'default'}
+            className="gap-2"
+            onClick={() => onConfirm(decision, reasons, notes)}
+            disabled={submitting || reasons.length === 0 || needsNotes}
+          >
+            {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {copy.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -1,18 +1,18 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { DetectionResult } from '@/lib/aiDetection';
+import {
+  DETECTION_FRAME_SIZE,
+  forEachMaskPixel,
+  getDetectionBounds,
+  getDetectionPolygon,
+  getPanelDetections,
+  GeometryBounds,
+  MaskDetection,
+} from '@/lib/detectionGeometry';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Zap, Target, Cpu, CheckCircle, AlertTriangle } from 'lucide-react';
 
-interface DetectionBox {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  confidence: number;
-  panelId: number;
-}
-
 interface SolarDetectionOverlayProps {
   imageUrl: string;
   aiResult?: DetectionResult;
@@ -21,27 +21,35 @@ interface SolarDetectionOverlayProps {
   isProcessing?: boolean;
 }
 
-const parseDetectionBoxes = (bboxString: string): DetectionBox[] => {
-  if (!bboxString) return [];
-  
-  const boxes: DetectionBox[] = [];
-  const boxStrings = bboxString.split(';');
-  
-  boxStrings.forEach((boxStr, index) => {
-    const match = boxStr.match(/\[(\d+),(\d+),(\d+),(\d+)(?:,(\d+(?:\.\d+)?))?\]/);
-    if (match) {
-      boxes.push({
-        x: parseInt(match[1]),
-        y: parseInt(match[2]),
-        width: parseInt(match[3]),
-        height: parseInt(match[4]),
-        confidence: match[5] ? parseFloat(match[5]) : 0.85 + Math.random() * 0.14,
-        panelId: index + 1,
-      });
-    }
-  });
-  
-  return boxes;
+const MIN_LABEL_WIDTH = 24;
+
+// Draws RLE mask detections onto a canvas in the reference frame
+const MaskLayer = ({ masks, color }: { masks: MaskDetection[]; color: string }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = color;
+    masks.forEach((mask) => {
+      const [height, width] = mask.size;
+      const scaleX = DETECTION_FRAME_SIZE / width;
+      const scaleY = DETECTION_FRAME_SIZE / height;
+      forEachMaskPixel(mask, (x, y) => context.fillRect(x * scaleX, y * scaleY, scaleX, scaleY));
+    });
+  }, [masks, color]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={DETECTION_FRAME_SIZE}
+      height={DETECTION_FRAME_SIZE}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
 };
 
 const SolarDetectionOverlay = ({ 
@@ -57,9 +65,13 @@ const SolarDetectionOverlay = ({
   const [hoveredBox, setHoveredBox] = useState<number | null>(null);
   const [animationComplete, setAnimationComplete] = useState(false);
 
-  const boxes = aiResult?.bbox_or_mask ? parseDetectionBoxes(aiResult.bbox_or_mask) : [];
-  const imageWidth = 640; // Reference image width for box coordinates
-  const imageHeight = 640; // Reference image height for box coordinates
+  const detections = useMemo(() => getPanelDetections(aiResult), [aiResult]);
+  const masks = useMemo(
+    () => detections.filter((d): d is MaskDetection => d.type === 'rle_mask'),
+    [detections]
+  );
+  const imageWidth = DETECTION_FRAME_SIZE; // Reference image width for detection coordinates
+  const imageHeight = DETECTION_FRAME_SIZE; // Reference image height for detection coordinates
 
   useEffect(() => {
     if (containerRef.current) {
@@ -78,17 +90,17 @@ const SolarDetectionOverlay = ({
   }, [imageLoaded]);
 
   useEffect(() => {
-    if (aiResult && boxes.length > 0) {
+    if (aiResult && detections.length > 0) {
       setAnimationComplete(false);
       const timer = setTimeout(() => setAnimationComplete(true), 1500);
       return () => clearTimeout(timer);
     }
-  }, [aiResult, boxes.length]);
+  }, [aiResult, detections.length]);
 
   const scaleX = containerSize.width / imageWidth;
   const scaleY = containerSize.height / imageHeight;
 
-  const getScaledBox = (box: DetectionBox) => ({
+  const getScaledBox = (box: GeometryBounds) => ({
     left: box.x * scaleX,
     top: box.y * scaleY,
     width: box.width * scaleX,
@@ -132,10 +144,38 @@ const SolarDetectionOverlay = ({
         </div>
       )}
 
+      {/* Rotated Boxes, Polygons and Masks */}
+      {imageLoaded && aiResult?.has_solar && (
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+          preserveAspectRatio="none"
+        >
+          {detections.map((detection, index) => {
+            if (detection.type === 'bbox' || detection.type === 'rle_mask') return null;
+            const colors = getBoxColor(detection.confidence);
+            return (
+              <polygon
+                key={index}
+                points={getDetectionPolygon(detection).map(([x, y]) => `${x},${y}`).join(' ')}
+                fill={hoveredBox === index ? colors.bg : 'transparent'}
+                stroke={colors.border}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+        </svg>
+      )}
+      {imageLoaded && aiResult?.has_solar && masks.length > 0 && (
+        <MaskLayer masks={masks} color="rgba(34, 197, 94, 0.35)" />
+      )}
+
       {/* Detection Boxes */}
-      {imageLoaded && aiResult?.has_solar && boxes.map((box, index) => {
-        const scaled = getScaledBox(box);
-        const colors = getBoxColor(box.confidence);
+      {imageLoaded && aiResult?.has_solar && detections.map((detection, index) => {
+        const scaled = getScaledBox(getDetectionBounds(detection));
+        const colors = getBoxColor(detection.confidence);
+        const isBox = detection.type === 'bbox';
         
         return (
           <div
@@ -155,23 +195,29 @@ const SolarDetectionOverlay = ({
             onMouseLeave={() => setHoveredBox(null)}
           >
             {/* Bounding Box */}
-            <div
-              className="absolute inset-0 transition-all duration-200"
-              style={{
-                border: `2px solid ${colors.border}`,
-                backgroundColor: hoveredBox === index ? colors.bg : 'transparent',
-                boxShadow: hoveredBox === index ? `0 0 20px ${colors.border}40` : 'none',
-              }}
-            />
+            {isBox && (
+              <div
+                className="absolute inset-0 transition-all duration-200"
+                style={{
+                  border: `2px solid ${colors.border}`,
+                  backgroundColor: hoveredBox === index ? colors.bg : 'transparent',
+                  boxShadow: hoveredBox === index ? `0 0 20px ${colors.border}40` : 'none',
+                }}
+              />
+            )}
 
             {/* Corner Markers */}
-            <div className="absolute -top-0.5 -left-0.5 w-3 h-3 border-t-2 border-l-2" style={{ borderColor: colors.border }} />
-            <div className="absolute -top-0.5 -right-0.5 w-3 h-3 border-t-2 border-r-2" style={{ borderColor: colors.border }} />
-            <div className="absolute -bottom-0.5 -left-0.5 w-3 h-3 border-b-2 border-l-2" style={{ borderColor: colors.border }} />
-            <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 border-b-2 border-r-2" style={{ borderColor: colors.border }} />
+            {isBox && (
+              <>
+                <div className="absolute -top-0.5 -left-0.5 w-3 h-3 border-t-2 border-l-2" style={{ borderColor: colors.border }} />
+                <div className="absolute -top-0.5 -right-0.5 w-3 h-3 border-t-2 border-r-2" style={{ borderColor: colors.border }} />
+                <div className="absolute -bottom-0.5 -left-0.5 w-3 h-3 border-b-2 border-l-2" style={{ borderColor: colors.border }} />
+                <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 border-b-2 border-r-2" style={{ borderColor: colors.border }} />
+              </>
+            )}
 
-            {/* Label */}
-            {showLabels && (
+            {/* Label (small panels at low zoom only label on hover) */}
+            {showLabels && (scaled.width >= MIN_LABEL_WIDTH || hoveredBox === index) && (
               <div
                 className={cn(
                   "absolute -top-6 left-0 px-1.5 py-0.5 rounded text-[10px] font-bold text-white whitespace-nowrap transition-opacity",
@@ -179,7 +225,7 @@ const SolarDetectionOverlay = ({
                 )}
                 style={{ backgroundColor: colors.border }}
               >
-                Panel #{box.panelId} • {Math.round(box.confidence * 100)}%
+                Panel #{index + 1} • {Math.round(detection.confidence * 100)}%
               </div>
             )}
 
@@ -252,7 +298,7 @@ const SolarDetectionOverlay = ({
         <div className="absolute top-3 left-3">
           <Badge variant="outline" className="border-white/30 text-white/90 backdrop-blur-sm gap-1 text-[10px]">
             <Cpu className="h-3 w-3" />
-            YOLOv8 Detection
+            {aiResult.model_version ? `${aiResult.provider} • ${aiResult.model_version}` : 'YOLOv8 Detection'}
           </Badge>
         </div>
       )}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Application, supervisorReview } from '@/lib/applicationService';
+import { getApprovalPolicy } from '@/lib/approvalPolicy';
+import { hasPermission } from '@/lib/roles';
+import { ApplicationTransitionError, hasCustomerConsent } from '@/lib/applicationStateMachine';
+import { UserRole } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ThumbsDown, ThumbsUp, Undo2, UserCheck } from 'lucide-react';
+
+interface SupervisorSignOffProps {
+  application: Application;
+  userId: string;
+  userRole?: UserRole;
+}
+
+type SupervisorDecision = 'approved' | 'rejected' | 'sent_back';
+
+const decisionMessages: Record<SupervisorDecision, { title: string; description: string }> = {
+  approved: { title: 'Application Approved', description: 'Supervisor sign-off recorded.' },
+  rejected: { title: 'Application Rejected', description: 'The escalated application has been rejected.' },
+  sent_back: { title: 'Sent Back', description: 'The application was returned to the field officer.' },
+};
+
+const SupervisorSignOff = ({ application, userId, userRole }: SupervisorSignOffProps) => {
+  const { toast } = useToast();
+  const [comments, setComments] = useState('');
+  const [submitting, setSubmitting] = useState<SupervisorDecision | null>(null);
+
+  // A send-back is the latest supervisor action when it happened after the last field review
+  const wasSentBack = application.status === 'ai_completed' &&
+    !!application.supervisorReviewedAt &&
+    application.supervisorReviewedAt > (application.reviewedAt || '');
+
+  if (wasSentBack) {
+    return (
+      <div className="p-4 rounded-lg border bg-orange-50 border-orange-200 text-sm">
+        <p className="font-semibold flex items-center gap-2 text-orange-700 mb-1">
+          <Undo2 className="h-4 w-4" />
+          Sent back by supervisor
+        </p>
+        <p>{application.supervisorNotes}</p>
+      </div>
+    );
+  }
+
+  if (application.status !== 'pending_supervisor') return null;
+
+  const handleDecision = async (decision: SupervisorDecision) => {
+    setSubmitting(decision);
+    try {
+      await supervisorReview(application.id, decision, userId, comments);
+      toast(decisionMessages[decision]);
+      setComments('');
+    } catch (error) {
+      toast({
+        title: 'Sign-off Failed',
+        description: error instanceof ApplicationTransitionError
+          ? error.message
+          : 'Could not record the decision. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const threshold = getApprovalPolicy().supervisorThreshold.toLocaleString('en-IN');
+
+  return (
+    <div className="p-4 rounded-lg border bg-indigo-50 border-indigo-200 space-y-3">
+      <p className="font-semibold flex items-center gap-2 text-indigo-700">
+        <UserCheck className="h-4 w-4" />
+        Awaiting supervisor sign-off
+      </p>
+      <p className="text-sm text-muted-foreground">
+        Recommended for approval by the field officer. Subsidies of ₹{threshold} or more need a second sign-off.
+      </p>
+
+      {!hasCustomerConsent(application) && (
+        <p className="text-sm text-amber-700">
+          The customer has not confirmed this installer submission, so it cannot be approved yet.
+        </p>
+      )}
+
+      {hasPermission(userRole, 'applications:sign_off') && (
+        <>
+          <Textarea
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            placeholder="Supervisor comments (required to send back)..."
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="success"
+              className="flex-1 gap-2"
+              onClick={() => handleDecision('approved')}
+              disabled={submitting !== null || !hasCustomerConsent(application)}
+            >
+              {submitting === 'approved' ? <Loader2 className="h-4 w-4 animate-spin" /> : <ThumbsUp className="h-4 w-4" />}
+              Approve
+            </Button>
+            <Button
+              variant="outline"
+              className="flex-1 gap-2"
+              onClick={() => handleDecision('sent_back')}
+              disabled={submitting !== null || !comments.trim()}
+            >
+              {submitting === 'sent_back' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+              Send Back
+            </Button>
+            <Button
+              variant="destructive"
+              className="flex-1 gap-2"
+              onClick={() => handleDecision('rejected')}
+              disabled={submitting !== null}
+            >
+              {submitting === 'rejected' ? <Loader2 className="h-4 w-4 animate-spin" /> : <ThumbsDown className="h-4 w-4" />}
+              Reject
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SupervisorSignOff;
@@ -0,0 +1,81 @@
+import { SyncStatus } from '@/lib/submissionQueue';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Cloud, CloudAlert, CloudOff, CloudUpload, Loader2 } from 'lucide-react';
+
+interface SyncStatusIndicatorProps {
+  status?: SyncStatus;
+  onRetry: () => void;
+  onShowFailed: () => void;
+}
+
+// Connection state and offline submissions still to be sent, shown in the Navbar
+const SyncStatusIndicator = ({ status, onRetry, onShowFailed }: SyncStatusIndicatorProps) => {
+  if (!status) return null;
+
+  const queued = status.pending === 1 ? '1 application' : `${status.pending} applications`;
+  const failed = status.failed === 1 ? '1 application' : `${status.failed} applications`;
+
+  const view = !status.online
+    ? {
+        icon: CloudOff,
+        label: status.pending > 0 ? `Offline · ${status.pending}` : 'Offline',
+        detail: status.pending > 0
+          ? `${queued} saved on this device will be submitted when you are back online.`
+          : 'You are offline. Applications you submit are saved on this device until you reconnect.',
+        className: 'text-amber-600',
+      }
+    : status.syncing
+    ? {
+        icon: Loader2,
+        label: 'Syncing',
+        detail: `Submitting ${queued} saved offline.`,
+        className: 'text-blue-600 [&_svg]:animate-spin',
+      }
+    : status.failed > 0
+    ? {
+        icon: CloudAlert,
+        label: `${status.failed} not sent`,
+        detail: `${failed} could not be submitted after several attempts. Click to review.`,
+        className: 'text-destructive',
+      }
+    : status.pending > 0
+    ? {
+        icon: status.lastError ? CloudAlert : CloudUpload,
+        label: `${status.pending} waiting`,
+        detail: status.lastError
+          ? `${queued} could not be submitted: ${status.lastError}. Click to try again.`
+          : `${queued} waiting to be submitted. Click to send now.`,
+        className: status.lastError ? 'text-destructive' : 'text-blue-600',
+      }
+    : {
+        icon: Cloud,
+        label: '',
+        detail: 'Online. Everything is submitted.',
+        className: 'text-green-600',
+      };
+
+  const Icon = view.icon;
+  const canRetry = status.online && !status.syncing && status.pending > 0;
+  const canShowFailed = !status.syncing && status.failed > 0;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`gap-1.5 px-2 ${view.className}`}
+          onClick={canShowFailed ? onShowFailed : canRetry ? onRetry : undefined}
+          aria-label={view.detail}
+        >
+          <Icon className="h-4 w-4" />
+          {view.label && <span className="text-xs font-medium">{view.label}</span>}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">{view.detail}</TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -8,15 +8,28 @@ import {
 } from 'firebase/auth';
 import { ref, set, get } from 'firebase/database';
 import { auth, database } from '@/lib/firebase';
+import { requiresRoleApproval } from '@/lib/roles';
+import { deleteCachedProfile, getCachedProfile, saveCachedProfile } from '@/lib/offlineStore';
 
-export type UserRole = 'user' | 'officer';
+export type UserRole = 'user' | 'installer' | 'officer' | 'supervisor' | 'auditor' | 'admin';
 
-interface UserProfile {
+export interface UserProfile {
   uid: string;
   email: string;
   name: string;
   role: UserRole;
   region?: string;
+  // Installer company the account submits for
+  organization?: string;
+  // Elevated role asked for at sign-up, held until an admin approves or declines it
+  requestedRole?: UserRole;
+  roleRequestedAt?: string;
+  roleReviewedBy?: string;
+  roleReviewedAt?: string;
+  // Disabled accounts are signed out and can no longer submit or review
+  disabled?: boolean;
+  disabledAt?: string | null;
+  disabledBy?: string | null;
   createdAt: string;
 }
 
@@ -25,7 +38,14 @@ interface AuthContextType {
   userProfile: UserProfile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, name: string, role: UserRole, region?: string) => Promise<void>;
+  signUp: (
+    email: string,
+    password: string,
+    name: string,
+    role: UserRole,
+    region?: string,
+    organization?: string
+  ) => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -51,9 +71,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (firebaseUser) {
         // Fetch user profile from database
         const profileRef = ref(database, `users/${firebaseUser.uid}`);
-        const snapshot = await get(profileRef);
+        let snapshot;
+        try {
+          snapshot = await get(profileRef);
+        } catch (error) {
+          // Offline: carry on with the profile from the last online visit, so drafts and queued submissions work
+          console.warn('Profile could not be loaded, using the cached copy:', error);
+          setUserProfile((await getCachedProfile(firebaseUser.uid).catch(() => undefined)) ?? null);
+          setLoading(false);
+          return;
+        }
         if (snapshot.exists()) {
+          if (snapshot.val().disabled) {
+            await deleteCachedProfile(firebaseUser.uid).catch(() => undefined);
+            await signOut(auth);
+            return;
+          }
           setUserProfile(snapshot.val());
+          saveCachedProfile(snapshot.val()).catch(() => undefined);
         } else {
           // Create a default profile if one doesn't exist
           const defaultProfile: UserProfile = {
@@ -66,6 +101,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           };
           await set(profileRef, defaultProfile);
           setUserProfile(defaultProfile);
+          saveCachedProfile(defaultProfile).catch(() => undefined);
         }
       } else {
         setUserProfile(null);
@@ -78,27 +114,54 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, []);
 
   const signIn = async (email: string, password: string) => {
-    await signInWithEmailAndPassword(auth, email, password);
+    const result = await signInWithEmailAndPassword(auth, email, password);
+
+    // Accounts are disabled in the profile, so Firebase Auth still lets them sign in
+    const snapshot = await get(ref(database, `users/${result.user.uid}/disabled`));
+    if (snapshot.val() === true) {
+      await signOut(auth);
+      throw Object.assign(new Error('This account has been disabled by an administrator'), {
+        code: 'auth/user-disabled',
+      });
+    }
   };
 
-  const signUp = async (email: string, password: string, name: string, role: UserRole, region?: string) => {
+  const signUp = async (
+    email: string,
+    password: string,
+    name: string,
+    role: UserRole,
+    region?: string,
+    organization?: string
+  ) => {
     const result = await createUserWithEmailAndPassword(auth, email, password);
     
-    // Create user profile in database
+    // Create user profile in database. Elevated roles start as applicants until an admin approves them.
+    const now = new Date().toISOString();
+    const needsApproval = requiresRoleApproval(role);
     const profile: UserProfile = {
       uid: result.user.uid,
       email,
       name,
-      role,
+      role: needsApproval ? 'user' : role,
       region: region || '',
-      createdAt: new Date().toISOString()
+      createdAt: now
     };
+    if (organization) {
+      profile.organization = organization;
+    }
+    if (needsApproval) {
+      profile.requestedRole = role;
+      profile.roleRequestedAt = now;
+    }
     
     await set(ref(database, `users/${result.user.uid}`), profile);
     setUserProfile(profile);
   };
 
   const logout = async () => {
+    // Queued submissions stay on the device and are sent at the next sign-in; the profile copy does not
+    if (user) await deleteCachedProfile(user.uid).catch(() => undefined);
     await signOut(auth);
     setUserProfile(null);
   };
@@ -0,0 +1,80 @@
+import * as React from "react";
+import {
+  Application,
+  ApplicationFilter,
+  APPLICATION_PAGE_SIZE,
+  subscribeApplications,
+} from "@/lib/applicationService";
+
+const byNewest = (a: Application, b: Application) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+// Live, newest-first list of applications matching a filter; loadMore widens the window by a page
+export function useApplicationFeed(filter: ApplicationFilter, pageSize = APPLICATION_PAGE_SIZE) {
+  const { status, region, assignedTo } = filter;
+  const [limit, setLimit] = React.useState(pageSize);
+  const [applications, setApplications] = React.useState<Application[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    setLimit(pageSize);
+    setLoading(true);
+  }, [status, region, assignedTo, pageSize]);
+
+  React.useEffect(() => {
+    const apps = new Map<string, Application>();
+    let active = true;
+    let ready = false;
+    let flushScheduled = false;
+
+    // Initial child events arrive one by one; render them in a single batch
+    const flush = () => {
+      if (flushScheduled) return;
+      flushScheduled = true;
+      queueMicrotask(() => {
+        flushScheduled = false;
+        if (active && ready) setApplications([...apps.values()].sort(byNewest));
+      });
+    };
+
+    const unsubscribe = subscribeApplications(
+      { status, region, assignedTo },
+      {
+        onAdded: (app) => {
+          apps.set(app.id, app);
+          flush();
+        },
+        onChanged: (app) => {
+          apps.set(app.id, app);
+          flush();
+        },
+        onRemoved: (id) => {
+          apps.delete(id);
+          flush();
+        },
+        onReady: () => {
+          if (!active) return;
+          ready = true;
+          setApplications([...apps.values()].sort(byNewest));
+          setLoading(false);
+        },
+      },
+      limit
+    );
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [status, region, assignedTo, limit]);
+
+  const loadMore = React.useCallback(() => setLimit((current) => current + pageSize), [pageSize]);
+
+  return {
+    applications,
+    loading,
+    // A full window suggests older applications exist
+    hasMore: applications.length >= limit,
+    loadMore,
+  };
+}
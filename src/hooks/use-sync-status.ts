@@ -0,0 +1,46 @@
+import * as React from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { SyncStatus, setOnline, subscribeSyncStatus, syncSubmissions } from "@/lib/submissionQueue";
+
+// Connection and offline-queue status; sends queued submissions on sign-in and whenever the connection returns
+export function useSyncStatus() {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = React.useState<SyncStatus>();
+
+  React.useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  React.useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  const sync = React.useCallback(() => {
+    if (!userProfile) return;
+    syncSubmissions(userProfile)
+      .then((sent) => {
+        if (sent > 0) {
+          toast({
+            title: "Offline Submissions Sent",
+            description: `${sent} queued application${sent === 1 ? "" : "s"} submitted.`,
+          });
+        }
+      })
+      .catch((error) => console.error("Offline queue sync failed:", error));
+  }, [userProfile, toast]);
+
+  React.useEffect(() => {
+    window.addEventListener("online", sync);
+    sync();
+    return () => window.removeEventListener("online", sync);
+  }, [sync]);
+
+  return { status, retry: sync };
+}
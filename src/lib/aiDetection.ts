@@ -1,5 +1,11 @@
-// AI Solar Panel Detection Simulation
-// In production, this would connect to a Python/Flask backend running YOLOv8
+// AI Solar Panel Detection
+// Detection runs through a pluggable provider (simulator, YOLOv8 inference server,
+// in-browser model) selected by configuration.
+
+import { httpInferenceProvider } from './inferenceClient';
+import { onnxBrowserProvider, OnnxDetectorError } from './onnxDetector';
+import { DETECTION_FRAME_SIZE, toLegacyBboxString, type PanelDetection, type RotatedBoxDetection } from './detectionGeometry';
+import { applyGeoreferencedEstimates, getFramePixelSize, getImageGeoreference, type ImageGeoreference } from './geoMeasurement';
 
 export interface DetectionResult {
   sample_id: string;
@@ -12,31 +18,181 @@ export interface DetectionResult {
   capacity_kw_est: number;
   qc_status: 'VERIFIABLE' | 'NOT_VERIFIABLE';
   qc_notes: string[];
+  // Legacy `[x,y,w,h,conf];...` string, kept in sync with `detections` for older readers
   bbox_or_mask: string;
+  // Structured per-panel geometry (boxes, rotated boxes, polygons or RLE masks)
+  detections?: PanelDetection[];
   image_metadata: {
     source: string;
     capture_date: string;
+    // Ground meters per reference-frame pixel used for the area estimate
+    meters_per_pixel?: number;
   };
   processing_time_ms: number;
+  // Which provider and model version produced this result
+  provider?: string;
+  model_version?: string;
 }
 
-// Simulate AI detection with realistic results
+export interface DetectionRequest {
+  sampleId: string;
+  lat: number;
+  lon: number;
+  imageFile?: File;
+  // Base64 data URL or remote URL of the rooftop image
+  imageUrl?: string;
+  // Ground footprint of the image; defaults to the standard satellite tile at `lat`
+  georeference?: ImageGeoreference;
+}
+
+export interface DetectionProvider {
+  id: string;
+  label: string;
+  modelVersion: string;
+  detect: (request: DetectionRequest) => Promise<DetectionResult>;
+}
+
+const DETECTION_PROVIDER_KEY = 'detection_provider';
+const DEFAULT_PROVIDER_ID = 'simulator';
+
+const providers = new Map<string, DetectionProvider>();
+
+export const registerDetectionProvider = (provider: DetectionProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getDetectionProviders = (): DetectionProvider[] => {
+  return Array.from(providers.values());
+};
+
+// Configured provider id: localStorage override, then VITE_DETECTION_PROVIDER, then the simulator
+export const getDetectionProviderId = (): string => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(DETECTION_PROVIDER_KEY) : null;
+  return stored || import.meta.env.VITE_DETECTION_PROVIDER || DEFAULT_PROVIDER_ID;
+};
+
+export const setDetectionProviderId = (id: string): void => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown detection provider: ${id}`);
+  }
+  localStorage.setItem(DETECTION_PROVIDER_KEY, id);
+};
+
+export const getDetectionProvider = (id: string = getDetectionProviderId()): DetectionProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    console.warn(`Detection provider "${id}" is not registered, falling back to ${DEFAULT_PROVIDER_ID}`);
+    return providers.get(DEFAULT_PROVIDER_ID)!;
+  }
+  return provider;
+};
+
+// Run detection with the configured provider and stamp the result with its origin
+export const runDetection = async (
+  request: DetectionRequest,
+  provider: DetectionProvider = getDetectionProvider()
+): Promise<DetectionResult> => {
+  let result: DetectionResult;
+  try {
+    result = await provider.detect(request);
+  } catch (error) {
+    if (!(error instanceof OnnxDetectorError && error.code === 'MODEL_UNAVAILABLE')) throw error;
+    // No model ships with the app; keep detection usable and label the result as simulated
+    console.warn(`${error.message}; falling back to the simulator`);
+    const simulated = await runDetection(request, simulatorProvider);
+    return { ...simulated, qc_notes: [`simulated result: ${error.message}`, ...simulated.qc_notes] };
+  }
+  const georef = request.georeference ?? getImageGeoreference(request.lat, request.imageUrl);
+  return {
+    ...applyGeoreferencedEstimates(result, georef),
+    provider: provider.id,
+    model_version: result.model_version || provider.modelVersion,
+  };
+};
+
 export const runSolarDetection = async (
   sampleId: string,
   lat: number,
   lon: number,
   imageFile?: File
 ): Promise<DetectionResult> => {
+  return runDetection({ sampleId, lat, lon, imageFile });
+};
+
+export interface SimulatorOptions {
+  // Derive results from sample_id/lat/lon so re-runs on the same application match
+  deterministic: boolean;
+  // Extra seed mixed into the hash, e.g. to produce a different but stable demo set
+  seed: string;
+  // Simulated processing delay range; set both to 0 for tests
+  minDelayMs: number;
+  maxDelayMs: number;
+  // Source of the reported capture date; pin it alongside deterministic for repeatable output
+  now: () => Date;
+}
+
+const simulatorOptions: SimulatorOptions = {
+  deterministic: true,
+  seed: '',
+  minDelayMs: 2000,
+  maxDelayMs: 5000,
+  now: () => new Date(),
+};
+
+export const configureSimulator = (options: Partial<SimulatorOptions>): void => {
+  Object.assign(simulatorOptions, options);
+};
+
+export const getSimulatorOptions = (): SimulatorOptions => ({ ...simulatorOptions });
+
+// FNV-1a string hash used to seed the simulator
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG returning floats in [0, 1)
+const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createDetectionRandom = (sampleId: string, lat: number, lon: number, seed = simulatorOptions.seed) => {
+  return createSeededRandom(hashString(`${seed}|${sampleId}|${lat.toFixed(6)}|${lon.toFixed(6)}`));
+};
+
+const getSimulatorRandom = (sampleId: string, lat: number, lon: number): (() => number) => {
+  return simulatorOptions.deterministic ? createDetectionRandom(sampleId, lat, lon) : Math.random;
+};
+
+// Simulate AI detection with realistic results
+const simulateSolarDetection = async ({ sampleId, lat, lon, imageUrl, georeference }: DetectionRequest): Promise<DetectionResult> => {
+  const random = getSimulatorRandom(sampleId, lat, lon);
+  const processingTime = Math.floor(2000 + random() * 3000);
+
   // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 2000 + Math.random() * 3000));
+  const { minDelayMs, maxDelayMs } = simulatorOptions;
+  const delay = minDelayMs + Math.random() * Math.max(0, maxDelayMs - minDelayMs);
+  if (delay > 0) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
 
   // Generate realistic detection results
-  const hasSolar = Math.random() > 0.3; // 70% chance of detecting solar
+  const hasSolar = random() > 0.3; // 70% chance of detecting solar
   const confidence = hasSolar 
-    ? 0.75 + Math.random() * 0.24 
-    : 0.1 + Math.random() * 0.3;
+    ? 0.75 + random() * 0.24 
+    : 0.1 + random() * 0.3;
   
-  const panelCount = hasSolar ? Math.floor(4 + Math.random() * 20) : 0;
+  const panelCount = hasSolar ? Math.floor(4 + random() * 20) : 0;
   const avgPanelArea = 1.7; // m² per panel
   const pvArea = panelCount * avgPanelArea;
   const wattPerSqm = 180; // W/m²
@@ -55,13 +211,16 @@ export const runSolarDetection = async (
   } else if (confidence > 0.5) {
     qcNotes.push('low resolution imagery');
     qcNotes.push('partial occlusion detected');
-    qcStatus = Math.random() > 0.5 ? 'VERIFIABLE' : 'NOT_VERIFIABLE';
+    qcStatus = random() > 0.5 ? 'VERIFIABLE' : 'NOT_VERIFIABLE';
   } else {
     qcNotes.push('insufficient image quality');
     qcNotes.push('heavy shadow/cloud cover');
     qcStatus = 'NOT_VERIFIABLE';
   }
 
+  const pixelSize = getFramePixelSize(georeference ?? getImageGeoreference(lat, imageUrl));
+  const detections = hasSolar ? generateMockDetections(panelCount, random, pixelSize) : [];
+
   if (hasSolar && panelCount > 10) {
     qcNotes.push('large installation detected');
   }
@@ -77,43 +236,74 @@ export const runSolarDetection = async (
     capacity_kw_est: Math.round(capacity * 10) / 10,
     qc_status: qcStatus,
     qc_notes: qcNotes,
-    bbox_or_mask: hasSolar ? generateMockBboxString(panelCount) : '',
+    bbox_or_mask: toLegacyBboxString(detections),
+    detections,
     image_metadata: {
       source: 'Satellite/Manual Upload',
-      capture_date: new Date().toISOString().split('T')[0]
+      capture_date: simulatorOptions.now().toISOString().split('T')[0]
     },
-    processing_time_ms: Math.floor(2000 + Math.random() * 3000)
+    processing_time_ms: processingTime
   };
 };
 
-const generateMockBboxString = (panelCount: number): string => {
-  const boxes: string[] = [];
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Grid-like panel layout near the frame centre, rotated as a whole to mimic arrays that follow
+// the roof line. Panels are sized in meters and converted with the frame's ground pixel size.
+export const generateMockDetections = (
+  panelCount: number,
+  random: () => number = Math.random,
+  pixelSize: { x: number; y: number } = getFramePixelSize(getImageGeoreference(0))
+): RotatedBoxDetection[] => {
+  const detections: RotatedBoxDetection[] = [];
   const gridCols = Math.ceil(Math.sqrt(panelCount));
   const gridRows = Math.ceil(panelCount / gridCols);
   
-  // Create realistic grid-like panel layout
-  const startX = 80 + Math.random() * 100;
-  const startY = 80 + Math.random() * 100;
-  const panelWidth = 60 + Math.random() * 40;
-  const panelHeight = 35 + Math.random() * 25;
-  const gapX = 8 + Math.random() * 12;
-  const gapY = 6 + Math.random() * 10;
+  const panelWidth = (1.65 + random() * 0.1) / pixelSize.x;
+  const panelHeight = (0.98 + random() * 0.06) / pixelSize.y;
+  const gapX = (0.05 + random() * 0.25) / pixelSize.x;
+  const gapY = (0.05 + random() * 0.25) / pixelSize.y;
+  const angle = Math.round((random() - 0.5) * 40);
+
+  const arrayWidth = gridCols * (panelWidth + gapX);
+  const arrayHeight = gridRows * (panelHeight + gapY);
+  const arrayCenterX = DETECTION_FRAME_SIZE / 2 + (random() - 0.5) * 0.2 * DETECTION_FRAME_SIZE;
+  const arrayCenterY = DETECTION_FRAME_SIZE / 2 + (random() - 0.5) * 0.2 * DETECTION_FRAME_SIZE;
+  const radians = (angle * Math.PI) / 180;
   
   let count = 0;
   for (let row = 0; row < gridRows && count < panelCount; row++) {
     for (let col = 0; col < gridCols && count < panelCount; col++) {
-      const x = Math.floor(startX + col * (panelWidth + gapX) + (Math.random() - 0.5) * 8);
-      const y = Math.floor(startY + row * (panelHeight + gapY) + (Math.random() - 0.5) * 6);
-      const w = Math.floor(panelWidth + (Math.random() - 0.5) * 10);
-      const h = Math.floor(panelHeight + (Math.random() - 0.5) * 8);
-      const conf = (0.82 + Math.random() * 0.17).toFixed(2);
-      boxes.push(`[${x},${y},${w},${h},${conf}]`);
+      const width = panelWidth * (1 + (random() - 0.5) * 0.04);
+      const height = panelHeight * (1 + (random() - 0.5) * 0.04);
+      const x = col * (panelWidth + gapX) + width / 2 - arrayWidth / 2 + (random() - 0.5) * gapX;
+      const y = row * (panelHeight + gapY) + height / 2 - arrayHeight / 2 + (random() - 0.5) * gapY;
+      detections.push({
+        type: 'rotated_box',
+        cx: round1(arrayCenterX + x * Math.cos(radians) - y * Math.sin(radians)),
+        cy: round1(arrayCenterY + x * Math.sin(radians) + y * Math.cos(radians)),
+        width: round1(width),
+        height: round1(height),
+        angle,
+        confidence: Math.round((0.82 + random() * 0.17) * 100) / 100,
+      });
       count++;
     }
   }
-  return boxes.join(';');
+  return detections;
 };
 
+export const simulatorProvider: DetectionProvider = {
+  id: 'simulator',
+  label: 'Simulator',
+  modelVersion: 'sim-1.0',
+  detect: simulateSolarDetection,
+};
+
+registerDetectionProvider(simulatorProvider);
+registerDetectionProvider(httpInferenceProvider);
+registerDetectionProvider(onnxBrowserProvider);
+
 export const generateAuditOverlay = (result: DetectionResult): string => {
   // In production, this would generate actual image overlay
   // For now, return a placeholder
@@ -1,8 +1,45 @@
-import { ref, push, set, get, update, onValue, off, query, orderByChild, equalTo } from 'firebase/database';
-import { database } from './firebase';
-import { runSolarDetection, DetectionResult } from './aiDetection';
+import {
+  ref,
+  push,
+  get,
+  update,
+  onValue,
+  off,
+  query,
+  orderByChild,
+  equalTo,
+  startAt,
+  endAt,
+  endBefore,
+  limitToLast,
+  increment,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
+  DataSnapshot,
+  QueryConstraint,
+} from 'firebase/database';
+import { database, auth } from './firebase';
+import { runDetection, getDetectionProvider, DetectionResult } from './aiDetection';
+import {
+  computeImageHash,
+  findDuplicates,
+  getDuplicateIndexKeys,
+  getGeohashNeighborhood,
+  getImageHashSegmentKeys,
+  DuplicateMatch,
+} from './duplicateDetection';
+import { uploadApplicationImage, StoredImage } from './imageStorage';
+import { buildAuditEventUpdate, buildAuditDiff } from './auditTrail';
+import { loadApprovalPolicy, requiresSupervisorApproval } from './approvalPolicy';
+import type { RejectionReasonCode } from './rejectionReasons';
+import type { ConsentStatus } from './installerPortal';
+import type { UserRole } from '@/contexts/AuthContext';
+import { getAssigneeIndexKey } from './reviewQueue';
+import { assertTransition, ApplicationStatus, INITIAL_APPLICATION_STATUS } from './applicationStateMachine';
+import { buildPublicCertificate } from './certificateRegistry';
 
-export type ApplicationStatus = 'pending' | 'processing' | 'ai_completed' | 'approved' | 'rejected';
+export type { ApplicationStatus } from './applicationStateMachine';
 
 export interface Application {
   id: string;
@@ -14,12 +51,23 @@ export interface Application {
   longitude: number;
   address: string;
   region: string;
+  // Storage download URLs (older records may still hold a base64 data URL until migrated)
   imageUrl: string;
+  imagePath?: string;
+  thumbnailUrl?: string;
+  thumbnailPath?: string;
+  // Perceptual hash of imageUrl ('' when there is no image or it could not be read)
+  imageHash?: string;
   // Enhanced fields
   installationType: string;
   installationDate: string;
   systemCapacity: number;
   installerCompany: string;
+  // Set when an installer account submitted for the customer named in userName/userEmail
+  installerId?: string;
+  // The customer's answer to the consent email, given after signing in with the link it carries
+  consentStatus?: ConsentStatus;
+  consentRespondedAt?: string;
   panelBrand: string;
   inverterBrand: string;
   subsidyAmount: number;
@@ -27,21 +75,85 @@ export interface Application {
   // Status fields
   status: ApplicationStatus;
   aiResult?: DetectionResult;
+  // Message from the last failed detection run, cleared on success
+  aiError?: string;
+  // Other applications sharing a duplicate signal, keyed by application id
+  possibleDuplicates?: Record<string, DuplicateMatch>;
+  duplicatesCheckedAt?: string;
+  // Duplicate check index keys (see getDuplicateIndexKeys): lowercased sample ID and geohash of the coordinates
+  sampleIdKey?: string;
+  geohash?: string;
+  // Review queue assignment ('' when unassigned)
+  assignedTo?: string;
+  assignedToName?: string;
+  assignedAt?: string;
+  // First-level (field officer) review
   officerNotes: string;
   reviewedBy: string;
   reviewedAt: string;
+  // Reason codes behind the latest rejection or information request
+  rejectionReasons?: RejectionReasonCode[];
+  // Applicant resubmissions after an information request
+  resubmissionCount?: number;
+  resubmittedAt?: string;
+  resubmissionNote?: string;
+  // Second-level sign-off for subsidies above the approval threshold, or a send-back
+  supervisorNotes?: string;
+  supervisorReviewedBy?: string;
+  supervisorReviewedAt?: string;
   createdAt: string;
   updatedAt: string;
+  // Composite index keys for server-side filtering ordered by createdAt (see getApplicationIndexKeys)
+  statusCreatedAt?: string;
+  regionCreatedAt?: string;
+  regionStatusCreatedAt?: string;
+  assigneeCreatedAt?: string;
 }
 
-// Convert File to base64 data URL
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
+type IndexedFields = Pick<Application, 'status' | 'region' | 'createdAt' | 'assignedTo'>;
+
+// RTDB orders by one child per query, so status/region filters use keys prefixed onto createdAt
+const INDEX_SEPARATOR = '|';
+
+export const getApplicationIndexKeys = (app: IndexedFields) => ({
+  statusCreatedAt: [app.status, app.createdAt].join(INDEX_SEPARATOR),
+  regionCreatedAt: [app.region || '', app.createdAt].join(INDEX_SEPARATOR),
+  regionStatusCreatedAt: [app.region || '', app.status, app.createdAt].join(INDEX_SEPARATOR),
+  assigneeCreatedAt: getAssigneeIndexKey(app.assignedTo, app.createdAt),
+});
+
+const toApplicationPaths = (applicationId: string, fields: Record<string, unknown>): Record<string, unknown> => {
+  return Object.fromEntries(
+    Object.entries(fields).map(([field, value]) => [`applications/${applicationId}/${field}`, value])
+  );
+};
+
+// Entries under imageHashSegments/{segment}_{byte}/{applicationId} for each segment of the image hash.
+// A replaced photo leaves its old entries behind; the check compares the stored hashes, so they only
+// add a candidate that does not match.
+const buildImageHashIndexUpdate = (applicationId: string, imageHash: string | undefined) => {
+  return Object.fromEntries(
+    getImageHashSegmentKeys(imageHash).map((key) => [`imageHashSegments/${key}/${applicationId}`, true])
+  );
+};
+
+// Names the application whose status change moves the counters; the rules accept a counter update
+// only as +1/-1 for that application's new and previous status
+const buildStatsUpdate = (applicationId: string, from: ApplicationStatus | null, to: ApplicationStatus) => ({
+  ...(from ? { [`applicationStats/${from}`]: increment(-1) } : {}),
+  [`applicationStats/${to}`]: increment(1),
+  lastStatusChange: { applicationId },
+});
+
+// Multi-path update entries for a status change: the status, its index keys and the status counters
+const buildStatusUpdate = (
+  applicationId: string,
+  app: IndexedFields,
+  status: ApplicationStatus
+): Record<string, unknown> => {
+  const { statusCreatedAt, regionStatusCreatedAt } = getApplicationIndexKeys({ ...app, status });
+  const updates = toApplicationPaths(applicationId, { status, statusCreatedAt, regionStatusCreatedAt });
+  return app.status !== status ? { ...updates, ...buildStatsUpdate(applicationId, app.status, status) } : updates;
 };
 
 export interface ApplicationData {
@@ -55,31 +167,41 @@ export interface ApplicationData {
   installationDate?: string;
   systemCapacity?: number;
   installerCompany?: string;
+  installerId?: string;
   panelBrand?: string;
   inverterBrand?: string;
   subsidyAmount?: number;
   electricityProvider?: string;
 }
 
+// Application keys are generated on the device, so one can be reserved before going online
+export const reserveApplicationId = (): string => push(ref(database, 'applications')).key!;
+
+export const applicationExists = async (applicationId: string): Promise<boolean> => {
+  return (await get(ref(database, `applications/${applicationId}`))).exists();
+};
+
 export const createApplication = async (
   userId: string,
   userName: string,
   userEmail: string,
-  data: ApplicationData
+  data: ApplicationData,
+  applicationId: string = reserveApplicationId()
 ): Promise<string> => {
-  let imageUrl = '';
-
-  // Convert image to base64 if provided
+  // Upload the image to Storage if provided; the record only keeps references. A failed upload
+  // throws before anything is written, so no application reaches review without its photo.
+  let storedImage: StoredImage | null = null;
+  let imageHash: string | null = null;
   if (data.imageFile) {
+    storedImage = await uploadApplicationImage(applicationId, data.imageFile);
+
+    const objectUrl = URL.createObjectURL(data.imageFile);
     try {
-      imageUrl = await fileToBase64(data.imageFile);
-    } catch (error) {
-      console.warn('Image conversion failed:', error);
+      imageHash = await computeImageHash(objectUrl);
+    } finally {
+      URL.revokeObjectURL(objectUrl);
     }
   }
-
-  const applicationsRef = ref(database, 'applications');
-  const newAppRef = push(applicationsRef);
   
   const now = new Date().toISOString();
   
@@ -93,7 +215,11 @@ export const createApplication = async (
     longitude: data.longitude,
     address: data.address || '',
     region: data.region,
-    imageUrl,
+    imageUrl: storedImage?.imageUrl || '',
+    imagePath: storedImage?.imagePath || '',
+    thumbnailUrl: storedImage?.thumbnailUrl || '',
+    thumbnailPath: storedImage?.thumbnailPath || '',
+    imageHash: imageHash || '',
     // Enhanced fields
     installationType: data.installationType || '',
     installationDate: data.installationDate || '',
@@ -103,8 +229,12 @@ export const createApplication = async (
     inverterBrand: data.inverterBrand || '',
     subsidyAmount: data.subsidyAmount || 0,
     electricityProvider: data.electricityProvider || '',
+    ...(data.installerId ? { installerId: data.installerId, consentStatus: 'pending' as const } : {}),
     // Status fields
-    status: 'pending' as ApplicationStatus,
+    status: INITIAL_APPLICATION_STATUS,
+    assignedTo: '',
+    assignedToName: '',
+    assignedAt: '',
     officerNotes: '',
     reviewedBy: '',
     reviewedAt: '',
@@ -112,8 +242,27 @@ export const createApplication = async (
     updatedAt: now
   };
 
-  await set(newAppRef, application);
-  return newAppRef.key!;
+  // The record and its 'created' event are written together, so a retry never finds one without the other
+  await update(ref(database), {
+    [`applications/${applicationId}`]: {
+      ...application,
+      ...getApplicationIndexKeys(application),
+      ...getDuplicateIndexKeys(application),
+    },
+    ...buildImageHashIndexUpdate(applicationId, application.imageHash),
+    ...buildStatsUpdate(applicationId, null, application.status),
+    ...buildAuditEventUpdate(
+      applicationId,
+      'created',
+      userId,
+      now,
+      buildAuditDiff(null, application, ['status', 'sampleId', 'latitude', 'longitude', 'systemCapacity', 'subsidyAmount'])
+    ),
+  });
+
+  // New applications wait unassigned until an officer claims or auto-assigns them, since applicants
+  // cannot see the officer roster. Reviewers run the duplicate check when they open the application.
+  return applicationId;
 };
 
 // Create batch applications from CSV
@@ -133,7 +282,13 @@ export const createBatchApplications = async (
   return applicationIds;
 };
 
-export const processApplication = async (applicationId: string): Promise<void> => {
+export const processApplication = async (
+  applicationId: string,
+  actorId: string | undefined = auth.currentUser?.uid
+): Promise<void> => {
+  if (!actorId) {
+    throw new Error('Sign in to run detection');
+  }
   const appRef = ref(database, `applications/${applicationId}`);
   const snapshot = await get(appRef);
   
@@ -142,19 +297,36 @@ export const processApplication = async (applicationId: string): Promise<void> =
   }
 
   const app = snapshot.val() as Application;
+  assertTransition(app, 'processing');
   
   // Update status to processing
-  await update(appRef, { 
-    status: 'processing',
-    updatedAt: new Date().toISOString()
+  await update(ref(database), {
+    ...buildStatusUpdate(applicationId, app, 'processing'),
+    ...toApplicationPaths(applicationId, { updatedAt: new Date().toISOString() }),
   });
 
-  // Run AI detection
-  const result = await runSolarDetection(
-    app.sampleId,
-    app.latitude,
-    app.longitude
-  );
+  // Run AI detection with the configured provider
+  const provider = getDetectionProvider();
+  let result: DetectionResult;
+  try {
+    result = await runDetection({
+      sampleId: app.sampleId,
+      lat: app.latitude,
+      lon: app.longitude,
+      imageUrl: app.imageUrl || undefined,
+    }, provider);
+  } catch (error) {
+    // Return to the previous status so the run can be retried, and record why it failed
+    assertTransition({ status: 'processing' }, app.status);
+    await update(ref(database), {
+      ...buildStatusUpdate(applicationId, { ...app, status: 'processing' }, app.status),
+      ...toApplicationPaths(applicationId, {
+        aiError: error instanceof Error ? error.message : 'Detection failed',
+        updatedAt: new Date().toISOString()
+      }),
+    });
+    throw error;
+  }
 
   // Ensure AI result has no undefined values
   const cleanAiResult = {
@@ -169,36 +341,348 @@ export const processApplication = async (applicationId: string): Promise<void> =
     qc_status: result.qc_status,
     qc_notes: result.qc_notes || [],
     bbox_or_mask: result.bbox_or_mask || '',
+    detections: result.detections || [],
     image_metadata: {
       source: result.image_metadata?.source || 'Unknown',
-      capture_date: result.image_metadata?.capture_date || new Date().toISOString().split('T')[0]
+      capture_date: result.image_metadata?.capture_date || new Date().toISOString().split('T')[0],
+      meters_per_pixel: result.image_metadata?.meters_per_pixel ?? null
     },
-    processing_time_ms: result.processing_time_ms
+    processing_time_ms: result.processing_time_ms,
+    provider: result.provider || provider.id,
+    model_version: result.model_version || provider.modelVersion
   };
 
   // Update with AI results
-  await update(appRef, {
-    status: 'ai_completed',
-    aiResult: cleanAiResult,
-    updatedAt: new Date().toISOString()
+  assertTransition({ status: 'processing', aiResult: cleanAiResult }, 'ai_completed');
+  const completedAt = new Date().toISOString();
+  await update(ref(database), {
+    ...buildStatusUpdate(applicationId, { ...app, status: 'processing' }, 'ai_completed'),
+    ...toApplicationPaths(applicationId, {
+      aiResult: cleanAiResult,
+      aiError: null,
+      updatedAt: completedAt
+    }),
+    ...buildAuditEventUpdate(
+      applicationId,
+      app.aiResult ? 'ai_rerun' : 'ai_run',
+      actorId,
+      completedAt,
+      buildAuditDiff<Application>(app, { status: 'ai_completed' }, ['status']),
+      { aiResult: cleanAiResult }
+    ),
   });
 };
 
+// Applications sharing the sample ID, lying in a geohash cell near the coordinates, or sharing a
+// segment of the image hash. Each is an indexed lookup, so a check reads only applications it could match.
+const getDuplicateCandidates = async (target: Application): Promise<Application[]> => {
+  const appsRef = ref(database, 'applications');
+  const queries = [
+    query(appsRef, orderByChild('sampleIdKey'), equalTo(getDuplicateIndexKeys(target).sampleIdKey)),
+    ...getGeohashNeighborhood(target.latitude, target.longitude).map((prefix) =>
+      query(appsRef, orderByChild('geohash'), startAt(prefix), endAt(`${prefix}\uf8ff`))
+    ),
+  ];
+
+  const candidates = new Map<string, Application>();
+  for (const snapshot of await Promise.all(queries.map((candidateQuery) => get(candidateQuery)))) {
+    snapshot.forEach((child) => {
+      candidates.set(child.key!, { id: child.key!, ...child.val() });
+    });
+  }
+
+  // Photos within the distance threshold share at least one hash segment
+  const similarImageIds = new Set<string>();
+  const segments = await Promise.all(
+    getImageHashSegmentKeys(target.imageHash).map((key) => get(ref(database, `imageHashSegments/${key}`)))
+  );
+  for (const segment of segments) {
+    segment.forEach((child) => {
+      if (child.key !== target.id && !candidates.has(child.key!)) similarImageIds.add(child.key!);
+    });
+  }
+  const similarImageApps = await Promise.all(
+    [...similarImageIds].map((id) => get(ref(database, `applications/${id}`)))
+  );
+  for (const snapshot of similarImageApps) {
+    if (snapshot.exists()) candidates.set(snapshot.key!, { id: snapshot.key!, ...snapshot.val() });
+  }
+  return [...candidates.values()];
+};
+
+/**
+ * Compare an application against likely matches and store the matches on both sides.
+ * Run by reviewers, who may read every application: automatically when they open one that changed
+ * since its last check, and on demand from the review screen.
+ */
+export const checkApplicationDuplicates = async (applicationId: string): Promise<DuplicateMatch[]> => {
+  const snapshot = await get(ref(database, `applications/${applicationId}`));
+  if (!snapshot.exists()) {
+    throw new Error('Application not found');
+  }
+  const target: Application = { id: applicationId, ...snapshot.val() };
+
+  // Records submitted before hashing existed get their hash on the first check
+  if (!target.imageHash && target.imageUrl) {
+    target.imageHash = (await computeImageHash(target.imageUrl)) || '';
+  }
+
+  const matches = findDuplicates(target, await getDuplicateCandidates(target));
+  const now = new Date().toISOString();
+  const updates: Record<string, unknown> = {
+    [`applications/${applicationId}/possibleDuplicates`]: matches.length > 0
+      ? Object.fromEntries(matches.map((match) => [match.applicationId, match]))
+      : null,
+    [`applications/${applicationId}/duplicatesCheckedAt`]: now,
+    [`applications/${applicationId}/imageHash`]: target.imageHash || '',
+    ...buildImageHashIndexUpdate(applicationId, target.imageHash),
+  };
+
+  // Link back from each match, and drop links that no longer hold
+  for (const match of matches) {
+    updates[`applications/${match.applicationId}/possibleDuplicates/${applicationId}`] = {
+      ...match,
+      applicationId,
+      sampleId: target.sampleId,
+      userName: target.userName,
+    };
+  }
+  for (const previousId of Object.keys(target.possibleDuplicates || {})) {
+    if (!matches.some((match) => match.applicationId === previousId)) {
+      updates[`applications/${previousId}/possibleDuplicates/${applicationId}`] = null;
+    }
+  }
+
+  await update(ref(database), updates);
+  return matches;
+};
+
+// Roles are read from the stored profile, never taken from the caller
+const getActorRole = async (userId: string): Promise<UserRole | undefined> => {
+  const snapshot = await get(ref(database, `users/${userId}`));
+  return snapshot.val()?.role;
+};
+
+/**
+ * First-level (field officer) decision. Approvals at or above the supervisor threshold are escalated
+ * to pending_supervisor instead. Rejections and information requests need reason codes.
+ * Returns the resulting status.
+ */
 export const reviewApplication = async (
   applicationId: string,
-  status: 'approved' | 'rejected',
+  decision: 'approved' | 'rejected' | 'needs_info',
   officerId: string,
-  notes?: string
-): Promise<void> => {
+  notes?: string,
+  reasons: RejectionReasonCode[] = []
+): Promise<ApplicationStatus> => {
   const appRef = ref(database, `applications/${applicationId}`);
-  
-  await update(appRef, {
+  const [appSnapshot, actorRole, policy] = await Promise.all([
+    get(appRef),
+    getActorRole(officerId),
+    loadApprovalPolicy(),
+  ]);
+
+  if (!appSnapshot.exists()) {
+    throw new Error('Application not found');
+  }
+
+  const app = appSnapshot.val() as Application;
+  const status: ApplicationStatus = decision === 'approved' && requiresSupervisorApproval(app.subsidyAmount, policy)
+    ? 'pending_supervisor'
+    : decision;
+  assertTransition(app, status, { actorRole, actorId: officerId, reasons });
+
+  const now = new Date().toISOString();
+  const changes = {
     status,
     officerNotes: notes || '',
     reviewedBy: officerId,
-    reviewedAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
+    reviewedAt: now,
+    rejectionReasons: decision === 'approved' ? null : reasons,
+  };
+  const eventType = status === 'pending_supervisor'
+    ? 'escalated'
+    : decision === 'needs_info' ? 'info_requested' : decision;
+
+  await update(ref(database), {
+    ...buildStatusUpdate(applicationId, app, status),
+    ...toApplicationPaths(applicationId, {
+      officerNotes: changes.officerNotes,
+      reviewedBy: changes.reviewedBy,
+      reviewedAt: changes.reviewedAt,
+      rejectionReasons: changes.rejectionReasons,
+      updatedAt: now
+    }),
+    ...(status === 'approved'
+      ? { [`certificates/${applicationId}`]: buildPublicCertificate(applicationId, { ...app, ...changes }) }
+      : {}),
+    ...buildAuditEventUpdate(
+      applicationId,
+      eventType,
+      officerId,
+      now,
+      buildAuditDiff<Application>(app, changes, ['status', 'officerNotes', 'reviewedBy', 'reviewedAt', 'rejectionReasons'])
+    ),
+  });
+  return status;
+};
+
+/**
+ * Second sign-off on an escalated application: approve, reject, or send back to the field officer
+ */
+export const supervisorReview = async (
+  applicationId: string,
+  decision: 'approved' | 'rejected' | 'sent_back',
+  supervisorId: string,
+  comments?: string
+): Promise<void> => {
+  const appRef = ref(database, `applications/${applicationId}`);
+  const [appSnapshot, actorRole] = await Promise.all([get(appRef), getActorRole(supervisorId)]);
+
+  if (!appSnapshot.exists()) {
+    throw new Error('Application not found');
+  }
+
+  const app = appSnapshot.val() as Application;
+  const status: ApplicationStatus = decision === 'sent_back' ? 'ai_completed' : decision;
+  assertTransition(app, status, { actorRole, actorId: supervisorId, comment: comments });
+
+  const now = new Date().toISOString();
+  const changes = {
+    status,
+    supervisorNotes: comments || '',
+    supervisorReviewedBy: supervisorId,
+    supervisorReviewedAt: now,
+  };
+
+  await update(ref(database), {
+    ...buildStatusUpdate(applicationId, app, status),
+    ...toApplicationPaths(applicationId, {
+      supervisorNotes: changes.supervisorNotes,
+      supervisorReviewedBy: changes.supervisorReviewedBy,
+      supervisorReviewedAt: changes.supervisorReviewedAt,
+      updatedAt: now
+    }),
+    ...(status === 'approved'
+      ? { [`certificates/${applicationId}`]: buildPublicCertificate(applicationId, { ...app, ...changes }) }
+      : {}),
+    ...buildAuditEventUpdate(
+      applicationId,
+      decision,
+      supervisorId,
+      now,
+      buildAuditDiff<Application>(app, changes, [
+        'status',
+        'supervisorNotes',
+        'supervisorReviewedBy',
+        'supervisorReviewedAt',
+      ])
+    ),
+  });
+};
+
+export const updateOfficerNotes = async (
+  applicationId: string,
+  notes: string,
+  officerId: string
+): Promise<void> => {
+  const appRef = ref(database, `applications/${applicationId}`);
+  const snapshot = await get(appRef);
+
+  if (!snapshot.exists()) {
+    throw new Error('Application not found');
+  }
+
+  const app = snapshot.val() as Application;
+  if ((app.officerNotes || '') === notes) return;
+
+  const now = new Date().toISOString();
+  await update(ref(database), {
+    ...toApplicationPaths(applicationId, { officerNotes: notes, updatedAt: now }),
+    ...buildAuditEventUpdate(
+      applicationId,
+      'note_edited',
+      officerId,
+      now,
+      buildAuditDiff<Application>(app, { officerNotes: notes }, ['officerNotes'])
+    ),
+  });
+};
+
+export interface ResubmissionData {
+  imageFile?: File;
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  note?: string;
+}
+
+/**
+ * Applicant's answer to an information request. Corrected fields and a new photo are written over
+ * the record and the application goes back to pending; earlier photos and values stay in
+ * Storage and the audit trail.
+ */
+export const resubmitApplication = async (
+  applicationId: string,
+  userId: string,
+  data: ResubmissionData
+): Promise<void> => {
+  const appRef = ref(database, `applications/${applicationId}`);
+  const snapshot = await get(appRef);
+
+  if (!snapshot.exists()) {
+    throw new Error('Application not found');
+  }
+
+  const app = snapshot.val() as Application;
+  assertTransition(app, 'pending', { actorId: userId });
+
+  const revision = (app.resubmissionCount || 0) + 1;
+  const now = new Date().toISOString();
+  const latitude = data.latitude ?? app.latitude;
+  const longitude = data.longitude ?? app.longitude;
+  const fields: Partial<Application> = {
+    latitude,
+    longitude,
+    geohash: getDuplicateIndexKeys({ ...app, latitude, longitude }).geohash,
+    address: data.address ?? app.address ?? '',
+    resubmissionCount: revision,
+    resubmittedAt: now,
+    resubmissionNote: data.note || '',
+  };
+
+  if (data.imageFile) {
+    const storedImage = await uploadApplicationImage(applicationId, data.imageFile, revision);
+    const objectUrl = URL.createObjectURL(data.imageFile);
+    try {
+      fields.imageHash = (await computeImageHash(objectUrl)) || '';
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+    Object.assign(fields, storedImage);
+  }
+
+  await update(ref(database), {
+    ...buildStatusUpdate(applicationId, app, 'pending'),
+    ...toApplicationPaths(applicationId, { ...fields, updatedAt: now }),
+    ...buildImageHashIndexUpdate(applicationId, fields.imageHash),
+    ...buildAuditEventUpdate(
+      applicationId,
+      'resubmitted',
+      userId,
+      now,
+      buildAuditDiff<Application>(app, { ...fields, status: 'pending' }, [
+        'status',
+        'latitude',
+        'longitude',
+        'address',
+        'imagePath',
+        'resubmissionCount',
+        'resubmissionNote',
+      ])
+    ),
   });
+
 };
 
 export const getUserApplications = (
@@ -221,22 +705,188 @@ export const getUserApplications = (
   return () => off(userAppsQuery);
 };
 
-export const getAllApplications = (
-  callback: (apps: Application[]) => void
+export const APPLICATION_PAGE_SIZE = 25;
+
+// Omitted fields match everything
+export interface ApplicationFilter {
+  status?: ApplicationStatus;
+  region?: string;
+  // Officer uid, for a personal review queue
+  assignedTo?: string;
+}
+
+// Position of the last application on a page; the next page starts just before it
+export interface ApplicationCursor {
+  indexValue: string;
+  key: string;
+}
+
+export interface ApplicationPage {
+  applications: Application[];
+  nextCursor: ApplicationCursor | null;
+}
+
+export type ApplicationStats = Record<ApplicationStatus, number> & { total: number };
+
+// Pick the index for a filter and the key prefix that selects it
+const getFilterIndex = (filter: ApplicationFilter): { index: keyof Application; prefix: string } => {
+  if (filter.assignedTo) {
+    return { index: 'assigneeCreatedAt', prefix: [filter.assignedTo, ''].join(INDEX_SEPARATOR) };
+  }
+  if (filter.status && filter.region) {
+    return { index: 'regionStatusCreatedAt', prefix: [filter.region, filter.status, ''].join(INDEX_SEPARATOR) };
+  }
+  if (filter.status) {
+    return { index: 'statusCreatedAt', prefix: [filter.status, ''].join(INDEX_SEPARATOR) };
+  }
+  if (filter.region) {
+    return { index: 'regionCreatedAt', prefix: [filter.region, ''].join(INDEX_SEPARATOR) };
+  }
+  return { index: 'createdAt', prefix: '' };
+};
+
+const buildFilterQuery = (filter: ApplicationFilter, ...constraints: QueryConstraint[]) => {
+  const { index, prefix } = getFilterIndex(filter);
+  const range = prefix ? [startAt(prefix), endAt(`${prefix}\uf8ff`)] : [];
+  return query(ref(database, 'applications'), orderByChild(index), ...range, ...constraints);
+};
+
+const toApplication = (snapshot: DataSnapshot): Application => ({ id: snapshot.key!, ...snapshot.val() });
+
+// The assignee index does not cover status/region, so those are checked on the client for queue views
+const matchesFilter = (app: Application, filter: ApplicationFilter): boolean => {
+  return (!filter.status || app.status === filter.status) &&
+    (!filter.region || app.region === filter.region) &&
+    (!filter.assignedTo || app.assignedTo === filter.assignedTo);
+};
+
+/**
+ * One page of applications matching a filter, newest first
+ */
+export const fetchApplicationsPage = async (
+  filter: ApplicationFilter = {},
+  cursor: ApplicationCursor | null = null,
+  pageSize = APPLICATION_PAGE_SIZE
+): Promise<ApplicationPage> => {
+  const { index, prefix } = getFilterIndex(filter);
+  // Ask for one extra item to know whether another page exists
+  const constraints: QueryConstraint[] = [orderByChild(index)];
+  if (prefix) constraints.push(startAt(prefix));
+  if (cursor) {
+    constraints.push(endBefore(cursor.indexValue, cursor.key));
+  } else if (prefix) {
+    constraints.push(endAt(`${prefix}\uf8ff`));
+  }
+  constraints.push(limitToLast(pageSize + 1));
+
+  const snapshot = await get(query(ref(database, 'applications'), ...constraints));
+  const apps: Application[] = [];
+  snapshot.forEach((child) => {
+    apps.push(toApplication(child));
+  });
+  apps.reverse();
+
+  const hasMore = apps.length > pageSize;
+  const page = apps.slice(0, pageSize);
+  const last = page[page.length - 1];
+  return {
+    applications: page.filter((app) => matchesFilter(app, filter)),
+    nextCursor: hasMore && last ? { indexValue: String(last[index]), key: last.id } : null,
+  };
+};
+
+// Every application matching a filter, fetched page by page (for exports)
+export const fetchAllApplications = async (filter: ApplicationFilter = {}): Promise<Application[]> => {
+  const apps: Application[] = [];
+  let cursor: ApplicationCursor | null = null;
+  do {
+    const page = await fetchApplicationsPage(filter, cursor, 200);
+    apps.push(...page.applications);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return apps;
+};
+
+export interface ApplicationListeners {
+  onAdded: (app: Application) => void;
+  onChanged: (app: Application) => void;
+  onRemoved: (applicationId: string) => void;
+  // Called once the initial matching applications have all been delivered through onAdded
+  onReady?: () => void;
+}
+
+/**
+ * Live view of the newest `limit` applications matching a filter (all of them when limit is omitted).
+ * Only the changed children are delivered; an application whose status or region stops matching the
+ * filter is reported through onRemoved.
+ */
+export const subscribeApplications = (
+  filter: ApplicationFilter,
+  listeners: ApplicationListeners,
+  limit?: number
 ): () => void => {
-  const appsRef = ref(database, 'applications');
-  
-  onValue(appsRef, (snapshot) => {
-    const apps: Application[] = [];
-    snapshot.forEach((child) => {
-      apps.push({ id: child.key!, ...child.val() });
-    });
-    // Sort by createdAt descending
-    apps.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    callback(apps);
+  const appsQuery = buildFilterQuery(filter, ...(limit ? [limitToLast(limit)] : []));
+
+  const unsubscribers = [
+    onChildAdded(appsQuery, (child) => {
+      const app = toApplication(child);
+      if (matchesFilter(app, filter)) listeners.onAdded(app);
+    }),
+    onChildChanged(appsQuery, (child) => {
+      const app = toApplication(child);
+      if (matchesFilter(app, filter)) {
+        listeners.onChanged(app);
+      } else {
+        listeners.onRemoved(app.id);
+      }
+    }),
+    onChildRemoved(appsQuery, (child) => listeners.onRemoved(child.key!)),
+    // Value events fire after the child events for the same data, so this marks the initial load done
+    onValue(appsQuery, () => listeners.onReady?.(), { onlyOnce: true }),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+};
+
+export const subscribeApplicationStats = (
+  callback: (stats: ApplicationStats) => void
+): () => void => {
+  return onValue(ref(database, 'applicationStats'), (snapshot) => {
+    const counts = snapshot.val() || {};
+    const stats = {
+      pending: counts.pending || 0,
+      processing: counts.processing || 0,
+      ai_completed: counts.ai_completed || 0,
+      pending_supervisor: counts.pending_supervisor || 0,
+      needs_info: counts.needs_info || 0,
+      approved: counts.approved || 0,
+      rejected: counts.rejected || 0,
+    };
+    callback({ ...stats, total: Object.values(stats).reduce((sum, count) => sum + count, 0) });
+  });
+};
+
+/**
+ * Backfill index keys and recount status totals, for records created before indexing existed
+ */
+export const rebuildApplicationIndexes = async (): Promise<number> => {
+  const snapshot = await get(ref(database, 'applications'));
+  const counts: Record<string, number> = {};
+  const updates: Record<string, unknown> = {};
+
+  snapshot.forEach((child) => {
+    const app = child.val() as Application;
+    Object.assign(
+      updates,
+      toApplicationPaths(child.key!, { ...getApplicationIndexKeys(app), ...getDuplicateIndexKeys(app) }),
+      buildImageHashIndexUpdate(child.key!, app.imageHash)
+    );
+    counts[app.status] = (counts[app.status] || 0) + 1;
   });
+  updates.applicationStats = counts;
 
-  return () => off(appsRef);
+  await update(ref(database), updates);
+  return snapshot.size;
 };
 
 export const getApplication = async (applicationId: string): Promise<Application | null> => {
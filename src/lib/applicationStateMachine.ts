@@ -0,0 +1,201 @@
+// Application lifecycle: which status changes are allowed, and who may make them
+
+import type { UserRole } from '@/contexts/AuthContext';
+import type { DetectionResult } from './aiDetection';
+import type { ConsentStatus } from './installerPortal';
+import { requiresSupervisorApproval } from './approvalPolicy';
+import { hasPermission } from './roles';
+
+export type ApplicationStatus =
+  | 'pending'
+  | 'processing'
+  | 'ai_completed'
+  | 'pending_supervisor'
+  | 'needs_info'
+  | 'approved'
+  | 'rejected';
+
+export const INITIAL_APPLICATION_STATUS: ApplicationStatus = 'pending';
+
+// processing -> pending / ai_completed is the rollback when a detection run fails.
+// pending_supervisor awaits a second sign-off; the supervisor can send it back to ai_completed.
+// needs_info waits for the applicant to resubmit, which starts again from pending.
+// approved and rejected are final.
+export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  pending: ['processing'],
+  processing: ['ai_completed', 'pending'],
+  ai_completed: ['processing', 'pending_supervisor', 'needs_info', 'approved', 'rejected'],
+  pending_supervisor: ['approved', 'rejected', 'ai_completed'],
+  needs_info: ['pending'],
+  approved: [],
+  rejected: [],
+};
+
+export type TransitionErrorCode =
+  | 'INVALID_TRANSITION'
+  | 'NOT_AUTHORIZED'
+  | 'AI_NOT_COMPLETED'
+  | 'SUPERVISOR_REQUIRED'
+  | 'SAME_REVIEWER'
+  | 'COMMENT_REQUIRED'
+  | 'REASON_REQUIRED'
+  | 'CONSENT_REQUIRED';
+
+export class ApplicationTransitionError extends Error {
+  readonly code: TransitionErrorCode;
+  readonly from: ApplicationStatus;
+  readonly to: ApplicationStatus;
+
+  constructor(code: TransitionErrorCode, from: ApplicationStatus, to: ApplicationStatus, message: string) {
+    super(message);
+    this.name = 'ApplicationTransitionError';
+    this.code = code;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export interface TransitionSubject {
+  status: ApplicationStatus;
+  // Applicant who owns the application
+  userId?: string;
+  aiResult?: DetectionResult;
+  subsidyAmount?: number;
+  // First-level (field officer) reviewer
+  reviewedBy?: string;
+  // Installer submissions need the customer's confirmation before approval
+  installerId?: string;
+  consentStatus?: ConsentStatus;
+}
+
+export interface TransitionContext {
+  // Role and id of the user making the change, when the target status requires one
+  actorRole?: UserRole;
+  actorId?: string;
+  // Reviewer comments, required when a supervisor sends an application back
+  comment?: string;
+  // Structured reason codes, required for officer rejections and information requests
+  reasons?: string[];
+}
+
+export const hasCustomerConsent = (subject: Pick<TransitionSubject, 'installerId' | 'consentStatus'>): boolean => {
+  return !subject.installerId || subject.consentStatus === 'confirmed';
+};
+
+type TransitionGuard = (
+  subject: TransitionSubject,
+  context: TransitionContext
+) => { code: TransitionErrorCode; message: string } | null;
+
+// First-level decisions need a reviewer and a completed AI analysis to decide on
+const reviewGuard: TransitionGuard = (subject, context) => {
+  if (!hasPermission(context.actorRole, 'applications:review')) {
+    return { code: 'NOT_AUTHORIZED', message: 'Only officers can review applications' };
+  }
+  if (!subject.aiResult) {
+    return { code: 'AI_NOT_COMPLETED', message: 'AI detection must complete before review' };
+  }
+  return null;
+};
+
+// Second sign-off must come from a supervisor other than the first reviewer
+const supervisorGuard: TransitionGuard = (subject, context) => {
+  if (!hasPermission(context.actorRole, 'applications:sign_off')) {
+    return { code: 'NOT_AUTHORIZED', message: 'Only supervisors can sign off escalated applications' };
+  }
+  if (context.actorId && context.actorId === subject.reviewedBy) {
+    return { code: 'SAME_REVIEWER', message: 'The second sign-off must come from a different reviewer' };
+  }
+  return null;
+};
+
+// Officer rejections and information requests must say why
+const reasonedReviewGuard: TransitionGuard = (subject, context) => {
+  const failure = reviewGuard(subject, context);
+  if (failure) return failure;
+  if (!context.reasons || context.reasons.length === 0) {
+    return { code: 'REASON_REQUIRED', message: 'Select at least one reason' };
+  }
+  return null;
+};
+
+const transitionGuards: Partial<Record<ApplicationStatus, TransitionGuard>> = {
+  pending_supervisor: reviewGuard,
+  needs_info: reasonedReviewGuard,
+  approved: (subject, context) => {
+    if (!hasCustomerConsent(subject)) {
+      return { code: 'CONSENT_REQUIRED', message: 'The customer has not confirmed this application yet' };
+    }
+    if (subject.status === 'pending_supervisor') return supervisorGuard(subject, context);
+    if (requiresSupervisorApproval(subject.subsidyAmount)) {
+      return { code: 'SUPERVISOR_REQUIRED', message: 'Subsidies at or above the threshold need supervisor sign-off' };
+    }
+    return reviewGuard(subject, context);
+  },
+  rejected: (subject, context) => {
+    return subject.status === 'pending_supervisor'
+      ? supervisorGuard(subject, context)
+      : reasonedReviewGuard(subject, context);
+  },
+  // Resubmission after an information request is the applicant's to make
+  pending: (subject, context) => {
+    if (subject.status !== 'needs_info') return null;
+    if (!context.actorId || context.actorId !== subject.userId) {
+      return { code: 'NOT_AUTHORIZED', message: 'Only the applicant can resubmit this application' };
+    }
+    return null;
+  },
+  // Only the supervisor send-back needs checks; processing -> ai_completed is the detection run itself
+  ai_completed: (subject, context) => {
+    if (subject.status !== 'pending_supervisor') return null;
+    if (!context.comment?.trim()) {
+      return { code: 'COMMENT_REQUIRED', message: 'Add comments explaining why the application is sent back' };
+    }
+    return supervisorGuard(subject, context);
+  },
+};
+
+export const getAllowedTransitions = (from: ApplicationStatus): readonly ApplicationStatus[] => {
+  return APPLICATION_TRANSITIONS[from] || [];
+};
+
+export const isFinalStatus = (status: ApplicationStatus): boolean => {
+  return getAllowedTransitions(status).length === 0;
+};
+
+/**
+ * Throw an ApplicationTransitionError unless `subject` may move to `to`
+ */
+export const assertTransition = (
+  subject: TransitionSubject,
+  to: ApplicationStatus,
+  context: TransitionContext = {}
+): void => {
+  const from = subject.status;
+  if (!getAllowedTransitions(from).includes(to)) {
+    throw new ApplicationTransitionError(
+      'INVALID_TRANSITION',
+      from,
+      to,
+      `Cannot move an application from ${from} to ${to}`
+    );
+  }
+
+  const failure = transitionGuards[to]?.(subject, context);
+  if (failure) {
+    throw new ApplicationTransitionError(failure.code, from, to, failure.message);
+  }
+};
+
+export const canTransition = (
+  subject: TransitionSubject,
+  to: ApplicationStatus,
+  context: TransitionContext = {}
+): boolean => {
+  try {
+    assertTransition(subject, to, context);
+    return true;
+  } catch {
+    return false;
+  }
+};
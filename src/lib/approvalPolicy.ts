@@ -0,0 +1,45 @@
+// Which applications need a second (supervisor) sign-off before approval.
+// The threshold is stored at config/supervisorApprovalThreshold, where the database rules check it too.
+// Until it is loaded, or while it is not set, every officer approval goes to a supervisor.
+
+import { ref, get, onValue } from 'firebase/database';
+import { database } from './firebase';
+
+const THRESHOLD_PATH = 'config/supervisorApprovalThreshold';
+
+export interface ApprovalPolicy {
+  // Officer approvals at or above this subsidy amount (₹) go to a supervisor
+  supervisorThreshold: number;
+}
+
+const approvalPolicy: ApprovalPolicy = {
+  supervisorThreshold: 0,
+};
+
+export const configureApprovalPolicy = (policy: Partial<ApprovalPolicy>): void => {
+  Object.assign(approvalPolicy, policy);
+};
+
+export const getApprovalPolicy = (): ApprovalPolicy => ({ ...approvalPolicy });
+
+const applyStoredThreshold = (value: unknown): ApprovalPolicy => {
+  configureApprovalPolicy({ supervisorThreshold: typeof value === 'number' ? value : 0 });
+  return getApprovalPolicy();
+};
+
+// Fresh read before a decision, so the client agrees with the rules on the current threshold
+export const loadApprovalPolicy = async (): Promise<ApprovalPolicy> => {
+  const snapshot = await get(ref(database, THRESHOLD_PATH));
+  return applyStoredThreshold(snapshot.val());
+};
+
+export const subscribeApprovalPolicy = (callback: (policy: ApprovalPolicy) => void): () => void => {
+  return onValue(ref(database, THRESHOLD_PATH), (snapshot) => callback(applyStoredThreshold(snapshot.val())));
+};
+
+export const requiresSupervisorApproval = (
+  subsidyAmount: number | undefined,
+  policy: ApprovalPolicy = approvalPolicy
+): boolean => {
+  return (subsidyAmount || 0) >= policy.supervisorThreshold;
+};
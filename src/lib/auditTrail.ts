@@ -0,0 +1,121 @@
+// Append-only audit log of application changes, stored at auditLog/{applicationId}/{eventId}
+// Events are only ever pushed, never updated or removed, so earlier decisions stay on record.
+
+import { ref, push, get } from 'firebase/database';
+import { database } from './firebase';
+
+export type AuditEventType =
+  | 'created'
+  | 'ai_run'
+  | 'ai_rerun'
+  | 'escalated'
+  | 'approved'
+  | 'rejected'
+  | 'sent_back'
+  | 'info_requested'
+  | 'resubmitted'
+  | 'note_edited'
+  | 'reassigned';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  created: 'Application submitted',
+  ai_run: 'AI detection run',
+  ai_rerun: 'AI detection re-run',
+  escalated: 'Escalated for supervisor sign-off',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  sent_back: 'Sent back by supervisor',
+  info_requested: 'More information requested',
+  resubmitted: 'Resubmitted by applicant',
+  note_edited: 'Officer notes edited',
+  reassigned: 'Reassigned',
+};
+
+// Previous and new value of a changed field (null when absent)
+export interface AuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  applicationId: string;
+  type: AuditEventType;
+  actorId: string;
+  timestamp: string;
+  diff: Record<string, AuditFieldChange>;
+  // Extra payload for the event, e.g. the full AI result of a detection run
+  details?: Record<string, unknown>;
+}
+
+// Actor shown on events written before every change required a signed-in user
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * Field-by-field diff between two snapshots, limited to the given fields
+ */
+export const buildAuditDiff = <T extends object>(
+  before: Partial<T> | null,
+  after: Partial<T>,
+  fields: (keyof T & string)[]
+): Record<string, AuditFieldChange> => {
+  const diff: Record<string, AuditFieldChange> = {};
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[field] = { from, to };
+    }
+  }
+  return diff;
+};
+
+/**
+ * Multi-path update entries appending one event. Spread them into the update that makes the change:
+ * the rules only accept an event recorded under the signed-in user, written together with the
+ * application change it describes and stamped with the application's new updatedAt.
+ */
+export const buildAuditEventUpdate = (
+  applicationId: string,
+  type: AuditEventType,
+  actorId: string,
+  timestamp: string,
+  diff: Record<string, AuditFieldChange> = {},
+  details?: Record<string, unknown>
+): Record<string, unknown> => {
+  const eventId = push(ref(database, `auditLog/${applicationId}`)).key!;
+
+  // Firebase rejects undefined values
+  return {
+    [`auditLog/${applicationId}/${eventId}`]: {
+      applicationId,
+      type,
+      actorId,
+      timestamp,
+      diff,
+      details: details ?? null,
+    },
+  };
+};
+
+const toAuditEvents = (applicationId: string, value: Record<string, Omit<AuditEvent, 'id'>> | null): AuditEvent[] => {
+  return Object.entries(value || {})
+    .map(([id, event]) => ({ ...event, id, applicationId, diff: event.diff || {} }))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+// Events for one application, oldest first
+export const getAuditTrail = async (applicationId: string): Promise<AuditEvent[]> => {
+  const snapshot = await get(ref(database, `auditLog/${applicationId}`));
+  return toAuditEvents(applicationId, snapshot.val());
+};
+
+// Events for every application, keyed by application id
+export const getAllAuditTrails = async (): Promise<Record<string, AuditEvent[]>> => {
+  const snapshot = await get(ref(database, 'auditLog'));
+  const trails: Record<string, AuditEvent[]> = {};
+  snapshot.forEach((child) => {
+    trails[child.key!] = toAuditEvents(child.key!, child.val());
+  });
+  return trails;
+};
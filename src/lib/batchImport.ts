@@ -0,0 +1,289 @@
+// Batch upload rows: header mapping and per-row validation, independent of the file format.
+// Rows keep their raw text so invalid cells can be corrected in the preview and checked again.
+
+import { z } from 'zod';
+import { INDIA_BOUNDS, normalizeRegion } from './regions';
+import { APPLICATION_FIELD_MAX_LENGTHS, type LimitedApplicationField } from './fieldLimits';
+
+export interface CSVRow {
+  sampleId: string;
+  latitude: number;
+  longitude: number;
+  address?: string;
+  region: string;
+  installationType?: string;
+  installationDate?: string;
+  systemCapacity?: number;
+  installerCompany?: string;
+  panelBrand?: string;
+  inverterBrand?: string;
+  subsidyAmount?: number;
+  electricityProvider?: string;
+}
+
+export type BatchField = keyof CSVRow;
+
+export type BatchImportErrorCode = 'EMPTY_FILE' | 'MISSING_COLUMNS';
+
+export class BatchImportError extends Error {
+  readonly code: BatchImportErrorCode;
+
+  constructor(code: BatchImportErrorCode, message: string) {
+    super(message);
+    this.name = 'BatchImportError';
+    this.code = code;
+  }
+}
+
+interface BatchFieldSpec {
+  field: BatchField;
+  label: string;
+  // Normalised header names accepted for this field, preferred name first
+  aliases: string[];
+  required?: boolean;
+}
+
+export const BATCH_FIELDS: BatchFieldSpec[] = [
+  { field: 'sampleId', label: 'Sample ID', aliases: ['sample_id', 'sampleid', 'id'], required: true },
+  { field: 'latitude', label: 'Latitude', aliases: ['latitude', 'lat'], required: true },
+  { field: 'longitude', label: 'Longitude', aliases: ['longitude', 'lon', 'lng', 'long'], required: true },
+  { field: 'address', label: 'Address', aliases: ['address'] },
+  { field: 'region', label: 'Region', aliases: ['region', 'state'], required: true },
+  { field: 'installationType', label: 'Installation Type', aliases: ['installation_type', 'installationtype', 'type'] },
+  { field: 'installationDate', label: 'Installation Date', aliases: ['installation_date', 'installationdate', 'date'] },
+  { field: 'systemCapacity', label: 'System Capacity (kW)', aliases: ['system_capacity', 'capacity_kw', 'capacity'] },
+  { field: 'installerCompany', label: 'Installer Company', aliases: ['installer_company', 'installer', 'company'] },
+  { field: 'panelBrand', label: 'Panel Brand', aliases: ['panel_brand', 'panelbrand', 'panel'] },
+  { field: 'inverterBrand', label: 'Inverter Brand', aliases: ['inverter_brand', 'inverterbrand', 'inverter'] },
+  { field: 'subsidyAmount', label: 'Subsidy Amount', aliases: ['subsidy_amount', 'subsidy'] },
+  { field: 'electricityProvider', label: 'Electricity Provider', aliases: ['electricity_provider', 'provider', 'discom'] },
+];
+
+export const BATCH_FIELD_LABELS = Object.fromEntries(
+  BATCH_FIELDS.map(({ field, label }) => [field, label])
+) as Record<BatchField, string>;
+
+// Upper bounds for numeric columns; anything above is almost certainly a unit or typing mistake
+export const BATCH_LIMITS = {
+  maxSystemCapacityKw: 1000,
+  maxSubsidyAmount: 1_000_000,
+  earliestInstallationYear: 2000,
+};
+
+export const normalizeHeader = (header: string): string => {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]/g, '_');
+};
+
+export interface HeaderMapping {
+  // Field for each column, or null when the column is ignored
+  columns: (BatchField | null)[];
+  unmappedHeaders: string[];
+  missingFields: BatchField[];
+}
+
+export const mapHeaders = (headers: string[]): HeaderMapping => {
+  const columns: (BatchField | null)[] = [];
+  const unmappedHeaders: string[] = [];
+  const seen = new Set<BatchField>();
+
+  headers.forEach((header) => {
+    const normalized = normalizeHeader(header);
+    const spec = BATCH_FIELDS.find(({ field, aliases }) => !seen.has(field) && aliases.includes(normalized));
+    if (spec) {
+      seen.add(spec.field);
+      columns.push(spec.field);
+    } else {
+      columns.push(null);
+      if (header.trim()) unmappedHeaders.push(header.trim());
+    }
+  });
+
+  const missingFields = BATCH_FIELDS.filter(({ field, required }) => required && !seen.has(field)).map(({ field }) => field);
+  return { columns, unmappedHeaders, missingFields };
+};
+
+// Accepts grouping commas and a rupee sign, as spreadsheets often export them
+const parseNumber = (value: string): number => {
+  const cleaned = value.replace(/[₹,\s]/g, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+// YYYY-MM-DD, DD/MM/YYYY or DD-MM-YYYY, returned as YYYY-MM-DD; null when not a real date
+const parseDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dmy = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : dmy ? [dmy[3], dmy[2], dmy[1]] : null;
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+};
+
+// Limits match the database rules, so a row that passes the preview is not refused mid-batch
+const text = (label: string, field: LimitedApplicationField) => {
+  const max = APPLICATION_FIELD_MAX_LENGTHS[field];
+  return z.string().trim().max(max, `${label} must be ${max} characters or fewer`);
+};
+
+const coordinate = (label: string, limit: number, min: number, max: number) =>
+  z.string().trim()
+    .min(1, `${label} is required`)
+    .transform(parseNumber)
+    .pipe(
+      z.number({ invalid_type_error: `${label} must be a number` })
+        .min(-limit, `${label} must be between -${limit} and ${limit}`)
+        .max(limit, `${label} must be between -${limit} and ${limit}`)
+        .refine((n) => n >= min && n <= max, `${label} is outside India (${min} to ${max}); check for swapped coordinates`)
+    );
+
+const optionalNumber = (label: string, min: number, max: number, minMessage: string) =>
+  z.string().trim()
+    .transform((value) => (value === '' ? undefined : parseNumber(value)))
+    .pipe(
+      z.number({ invalid_type_error: `${label} must be a number` })
+        .min(min, minMessage)
+        .max(max, `${label} must be at most ${max.toLocaleString('en-IN')}`)
+        .optional()
+    );
+
+const batchRowSchema = z.object({
+  sampleId: text('Sample ID', 'sampleId').min(1, 'Sample ID is required'),
+  latitude: coordinate('Latitude', 90, INDIA_BOUNDS.minLatitude, INDIA_BOUNDS.maxLatitude),
+  longitude: coordinate('Longitude', 180, INDIA_BOUNDS.minLongitude, INDIA_BOUNDS.maxLongitude),
+  address: text('Address', 'address'),
+  region: z.string().trim()
+    .min(1, 'Region is required')
+    .transform((value, ctx) => {
+      const region = normalizeRegion(value);
+      if (!region) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown region "${value}"` });
+        return z.NEVER;
+      }
+      return region;
+    }),
+  installationType: text('Installation type', 'installationType'),
+  installationDate: z.string().trim()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      const date = parseDate(value);
+      if (!date) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Use YYYY-MM-DD or DD/MM/YYYY for the installation date' });
+        return z.NEVER;
+      }
+      const year = Number(date.slice(0, 4));
+      if (year < BATCH_LIMITS.earliestInstallationYear || date > new Date().toISOString().split('T')[0]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Installation date must be in the past' });
+        return z.NEVER;
+      }
+      return date;
+    }),
+  systemCapacity: optionalNumber(
+    'System capacity', Number.MIN_VALUE, BATCH_LIMITS.maxSystemCapacityKw, 'System capacity must be greater than 0'
+  ),
+  installerCompany: text('Installer company', 'installerCompany'),
+  panelBrand: text('Panel brand', 'panelBrand'),
+  inverterBrand: text('Inverter brand', 'inverterBrand'),
+  subsidyAmount: optionalNumber('Subsidy amount', 0, BATCH_LIMITS.maxSubsidyAmount, 'Subsidy amount cannot be negative'),
+  electricityProvider: text('Electricity provider', 'electricityProvider'),
+});
+
+export type BatchValues = Partial<Record<BatchField, string>>;
+
+export interface BatchRow {
+  // Line in the source file (header is row 1), for the error report
+  rowNumber: number;
+  values: BatchValues;
+  data: CSVRow | null;
+  errors: Partial<Record<BatchField, string>>;
+  skipped: boolean;
+}
+
+export interface BatchImport {
+  rows: BatchRow[];
+  mapping: HeaderMapping;
+}
+
+const validateValues = (values: BatchValues): Pick<BatchRow, 'data' | 'errors'> => {
+  const input = Object.fromEntries(BATCH_FIELDS.map(({ field }) => [field, values[field] ?? '']));
+  const result = batchRowSchema.safeParse(input);
+  if (result.success) {
+    return { data: result.data as CSVRow, errors: {} };
+  }
+
+  const errors: Partial<Record<BatchField, string>> = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as BatchField;
+    errors[field] ??= issue.message;
+  }
+  return { data: null, errors };
+};
+
+/**
+ * Validate every row, then flag sample IDs used more than once among the rows being submitted
+ */
+export const validateBatchRows = (rows: BatchRow[]): BatchRow[] => {
+  const validated = rows.map((row) => ({ ...row, ...validateValues(row.values) }));
+
+  const firstRowBySampleId = new Map<string, number>();
+  return validated.map((row) => {
+    if (row.skipped || !row.data) return row;
+    const key = row.data.sampleId.toLowerCase();
+    const firstRow = firstRowBySampleId.get(key);
+    if (firstRow === undefined) {
+      firstRowBySampleId.set(key, row.rowNumber);
+      return row;
+    }
+    return { ...row, data: null, errors: { sampleId: `Sample ID already used on row ${firstRow}` } };
+  });
+};
+
+/**
+ * Turn parsed records (header first) into validated batch rows. Blank lines are dropped.
+ */
+export const buildBatchImport = (records: string[][]): BatchImport => {
+  const [headers, ...body] = records.filter((record) => record.some((cell) => cell.trim() !== ''));
+  if (!headers || body.length === 0) {
+    throw new BatchImportError('EMPTY_FILE', 'The file needs a header row and at least one record');
+  }
+
+  const mapping = mapHeaders(headers);
+  if (mapping.missingFields.length > 0) {
+    const missing = mapping.missingFields.map((field) => BATCH_FIELD_LABELS[field]).join(', ');
+    throw new BatchImportError('MISSING_COLUMNS', `Missing required columns: ${missing}`);
+  }
+
+  // Row numbers follow the original file, so count blank lines back in
+  const rowNumbers = records
+    .map((record, index) => (record.some((cell) => cell.trim() !== '') ? index + 1 : null))
+    .filter((n): n is number => n !== null)
+    .slice(1);
+
+  const rows = body.map((record, index) => {
+    const values: BatchValues = {};
+    mapping.columns.forEach((field, column) => {
+      if (field) values[field] = record[column] ?? '';
+    });
+    return { rowNumber: rowNumbers[index], values, data: null, errors: {}, skipped: false };
+  });
+
+  return { rows: validateBatchRows(rows), mapping };
+};
+
+export const updateBatchValue = (rows: BatchRow[], rowNumber: number, field: BatchField, value: string): BatchRow[] => {
+  return validateBatchRows(
+    rows.map((row) => (row.rowNumber === rowNumber ? { ...row, values: { ...row.values, [field]: value } } : row))
+  );
+};
+
+export const setBatchRowSkipped = (rows: BatchRow[], rowNumber: number, skipped: boolean): BatchRow[] => {
+  return validateBatchRows(rows.map((row) => (row.rowNumber === rowNumber ? { ...row, skipped } : row)));
+};
+
+// Rows ready to submit: valid and not skipped
+export const getSubmittableRows = (rows: BatchRow[]): CSVRow[] => {
+  return rows.filter((row) => !row.skipped && row.data).map((row) => row.data!);
+};
@@ -0,0 +1,265 @@
+// Approval certificate for an application, generated as a PDF in the browser.
+// The QR code opens the public verification page with the certificate fingerprint filled in, so anyone
+// holding a printed copy can check it against the register without signing in.
+
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import type { Application } from './applicationService';
+import {
+  DETECTION_FRAME_SIZE,
+  forEachMaskPixel,
+  getDetectionPolygon,
+  getPanelDetections,
+} from './detectionGeometry';
+import { getStaffName } from './userManagement';
+import { ensurePublicCertificate, formatFingerprint, getVerificationLink } from './certificateRegistry';
+
+export type CertificateErrorCode = 'NOT_APPROVED';
+
+export class CertificateError extends Error {
+  readonly code: CertificateErrorCode;
+
+  constructor(code: CertificateErrorCode, message: string) {
+    super(message);
+    this.name = 'CertificateError';
+    this.code = code;
+  }
+}
+
+// Same confidence colours as SolarDetectionOverlay
+const getOverlayColor = (confidence: number): string => {
+  if (confidence >= 0.9) return '#22c55e';
+  if (confidence >= 0.75) return '#eab308';
+  return '#f97316';
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image could not be loaded for the certificate'));
+    img.src = src;
+  });
+};
+
+/**
+ * Rooftop image with the detected panels drawn on, as a JPEG data URL. The image is stretched
+ * onto the detection frame, as it was for inference. Returns null when the image cannot be read
+ * (missing, or a cross-origin image without CORS).
+ */
+export const renderDetectionOverlay = async (application: Application): Promise<string | null> => {
+  if (!application.imageUrl) return null;
+
+  try {
+    const img = await loadImage(application.imageUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = DETECTION_FRAME_SIZE;
+    canvas.height = DETECTION_FRAME_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(img, 0, 0, DETECTION_FRAME_SIZE, DETECTION_FRAME_SIZE);
+
+    if (application.aiResult?.has_solar) {
+      for (const detection of getPanelDetections(application.aiResult)) {
+        const color = getOverlayColor(detection.confidence);
+        if (detection.type === 'rle_mask') {
+          const [height, width] = detection.size;
+          const scaleX = DETECTION_FRAME_SIZE / width;
+          const scaleY = DETECTION_FRAME_SIZE / height;
+          ctx.fillStyle = 'rgba(34, 197, 94, 0.35)';
+          forEachMaskPixel(detection, (x, y) => ctx.fillRect(x * scaleX, y * scaleY, scaleX, scaleY));
+          continue;
+        }
+
+        const polygon = getDetectionPolygon(detection);
+        ctx.beginPath();
+        polygon.forEach(([x, y], index) => (index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.closePath();
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+      }
+    }
+
+    // Throws on a tainted canvas, which lands in the catch below
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } catch (error) {
+    console.warn('Detection overlay could not be rendered:', error);
+    return null;
+  }
+};
+
+const getReviewerName = async (uid?: string): Promise<string> => {
+  if (!uid) return '';
+  const name = await getStaffName(uid).catch(() => null);
+  return name || uid;
+};
+
+const formatDateTime = (iso?: string): string => {
+  if (!iso) return '-';
+  return new Date(iso).toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' });
+};
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LABEL_WIDTH = 48;
+const MAX_VALUE_LINES = 3;
+const ACCENT: [number, number, number] = [245, 158, 11];
+
+type Field = [label: string, value: string | number | undefined | null];
+
+/**
+ * Certificate PDF for an approved application: applicant, location and installation details,
+ * the AI detection summary with the annotated image, the officer decision, and the fingerprint
+ * of its public register entry, printed and as a QR code linking to the verification page.
+ */
+export const buildCertificatePDF = async (application: Application): Promise<Blob> => {
+  if (application.status !== 'approved') {
+    throw new CertificateError('NOT_APPROVED', 'Certificates are only issued for approved applications');
+  }
+
+  const [{ fingerprint }, overlay, officerName, supervisorName] = await Promise.all([
+    ensurePublicCertificate(application),
+    renderDetectionOverlay(application),
+    getReviewerName(application.reviewedBy),
+    getReviewerName(application.supervisorReviewedBy),
+  ]);
+  const verificationLink = getVerificationLink(application.sampleId, fingerprint);
+  const qrCode = await QRCode.toDataURL(verificationLink, { errorCorrectionLevel: 'M', margin: 1, width: 256 });
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = 0;
+
+  // Header band
+  doc.setFillColor(...ACCENT);
+  doc.rect(0, 0, PAGE_WIDTH, 30, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text('TopRoof Solar', MARGIN, 14);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text('Rooftop Solar Verification Certificate', MARGIN, 22);
+  doc.setFontSize(9);
+  doc.text(`Certificate for sample ${application.sampleId}`, PAGE_WIDTH - MARGIN, 14, { align: 'right' });
+  doc.text(`Issued ${formatDateTime(new Date().toISOString())}`, PAGE_WIDTH - MARGIN, 22, { align: 'right' });
+  y = 42;
+
+  const section = (title: string) => {
+    doc.setTextColor(...ACCENT);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(title, MARGIN, y);
+    doc.setDrawColor(...ACCENT);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, y + 1.5, PAGE_WIDTH - MARGIN, y + 1.5);
+    y += 7;
+  };
+
+  // Label/value rows; empty values are left out. Values wrap within maxWidth, up to
+  // MAX_VALUE_LINES so long notes cannot push the page into the footer.
+  const fields = (rows: Field[], maxWidth = CONTENT_WIDTH - LABEL_WIDTH) => {
+    doc.setFontSize(10);
+    for (const [label, value] of rows) {
+      if (value === undefined || value === null || value === '') continue;
+      const wrapped = doc.splitTextToSize(String(value), maxWidth) as string[];
+      const lines = wrapped.slice(0, MAX_VALUE_LINES);
+      if (wrapped.length > MAX_VALUE_LINES) lines[MAX_VALUE_LINES - 1] += '...';
+      doc.setTextColor(100, 116, 139);
+      doc.setFont('helvetica', 'normal');
+      doc.text(label, MARGIN, y);
+      doc.setTextColor(15, 23, 42);
+      doc.setFont('helvetica', 'bold');
+      doc.text(lines, MARGIN + LABEL_WIDTH, y);
+      y += lines.length * 4.5 + 1;
+    }
+    y += 4;
+  };
+
+  section('Applicant & Location');
+  fields([
+    ['Applicant', application.userName],
+    ['Email', application.userEmail],
+    ['Address', application.address],
+    ['Region', application.region],
+    ['Coordinates', `${application.latitude}, ${application.longitude}`],
+  ]);
+
+  section('Installation');
+  fields([
+    ['Type', application.installationType],
+    ['Installation date', application.installationDate],
+    ['System capacity', application.systemCapacity > 0 ? `${application.systemCapacity} kW` : null],
+    ['Installer', application.installerCompany],
+    ['Panel brand', application.panelBrand],
+    ['Inverter brand', application.inverterBrand],
+    ['Electricity provider', application.electricityProvider],
+    // The standard PDF fonts have no rupee sign
+    ['Subsidy amount', application.subsidyAmount > 0 ? `INR ${application.subsidyAmount.toLocaleString('en-IN')}` : null],
+  ]);
+
+  section('AI Detection Summary');
+  const imageSize = 56;
+  const summaryTop = y;
+  const aiResult = application.aiResult;
+  if (aiResult) {
+    fields([
+      ['Solar detected', aiResult.has_solar ? 'Yes' : 'No'],
+      ['Confidence', `${Math.round(aiResult.confidence * 100)}%`],
+      ['Panel count', aiResult.panel_count_est],
+      ['PV area', `${aiResult.pv_area_sqm_est} m²`],
+      ['Estimated capacity', `${aiResult.capacity_kw_est} kW`],
+      ['QC status', aiResult.qc_status],
+    ], CONTENT_WIDTH - LABEL_WIDTH - imageSize - 6);
+  } else {
+    fields([['Result', 'No AI detection on record']]);
+  }
+  if (overlay) {
+    doc.addImage(overlay, 'JPEG', PAGE_WIDTH - MARGIN - imageSize, summaryTop - 3, imageSize, imageSize);
+    doc.setFontSize(8);
+    doc.setTextColor(100, 116, 139);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Detected panels outlined', PAGE_WIDTH - MARGIN - imageSize / 2, summaryTop + imageSize + 1, { align: 'center' });
+    y = Math.max(y, summaryTop + imageSize + 8);
+  }
+
+  section('Officer Decision');
+  const decisionTop = y;
+  fields([
+    ['Decision', 'Approved'],
+    ['Reviewed by', officerName],
+    ['Decided on', formatDateTime(application.reviewedAt)],
+    ['Officer notes', application.officerNotes],
+    ['Supervisor sign-off', supervisorName],
+    ['Signed off on', application.supervisorReviewedAt ? formatDateTime(application.supervisorReviewedAt) : null],
+  ], CONTENT_WIDTH - LABEL_WIDTH - 44);
+
+  // QR code beside the decision
+  const qrSize = 36;
+  doc.addImage(qrCode, 'PNG', PAGE_WIDTH - MARGIN - qrSize, decisionTop - 3, qrSize, qrSize);
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Scan to verify', PAGE_WIDTH - MARGIN - qrSize / 2, decisionTop + qrSize + 1, { align: 'center' });
+
+  // Verification footer
+  doc.setDrawColor(226, 232, 240);
+  doc.line(MARGIN, 266, PAGE_WIDTH - MARGIN, 266);
+  doc.setFontSize(9);
+  doc.setTextColor(15, 23, 42);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Verification fingerprint (SHA-256)', MARGIN, 272);
+  doc.setFont('courier', 'normal');
+  doc.text(formatFingerprint(fingerprint), MARGIN, 277);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139);
+  doc.text(`Check this certificate without signing in at ${getVerificationLink(application.sampleId)}`, MARGIN, 284);
+  doc.text(`Application ${application.id}`, PAGE_WIDTH - MARGIN, 284, { align: 'right' });
+
+  return doc.output('blob');
+};
@@ -0,0 +1,101 @@
+// Public register of approval certificates at certificates/{applicationId}, readable without signing in.
+// Each entry holds only what a bank or DISCOM needs to check a certificate; the applicant's name,
+// address and coordinates stay behind sign-in on the application itself.
+//
+// The certificate prints a SHA-256 fingerprint of the entry. It is a checksum, not a signature
+// (signing would need a key held on a server): it shows that the printed certificate refers to this
+// exact approval, while the database rules ensure entries can only be written from approved applications.
+
+import { ref, get, set, query, orderByChild, equalTo } from 'firebase/database';
+import { database } from './firebase';
+import type { Application } from './applicationService';
+
+export interface PublicCertificate {
+  applicationId: string;
+  sampleId: string;
+  status: 'approved';
+  region: string;
+  systemCapacity: number;
+  approvedAt: string;
+}
+
+// Final approval time: the supervisor's sign-off when there was one, otherwise the officer's review
+export const getApprovedAt = (app: Pick<Application, 'reviewedAt' | 'supervisorReviewedAt'>): string => {
+  return app.supervisorReviewedAt || app.reviewedAt;
+};
+
+export const buildPublicCertificate = (
+  applicationId: string,
+  app: Pick<Application, 'sampleId' | 'region' | 'systemCapacity' | 'reviewedAt' | 'supervisorReviewedAt'>
+): PublicCertificate => ({
+  applicationId,
+  sampleId: app.sampleId,
+  status: 'approved',
+  // Older records may lack region or capacity; the rules accept '' and 0 for those
+  region: app.region || '',
+  systemCapacity: app.systemCapacity || 0,
+  approvedAt: getApprovedAt(app),
+});
+
+/**
+ * SHA-256 of the entry's fields in a fixed order, as 64 hex characters
+ */
+export const getCertificateFingerprint = async (certificate: PublicCertificate): Promise<string> => {
+  const canonical = JSON.stringify([
+    certificate.applicationId,
+    certificate.sampleId,
+    certificate.status,
+    certificate.region,
+    certificate.systemCapacity,
+    certificate.approvedAt,
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Groups of eight for printing, e.g. "3f2a9c1e 07b4…"
+export const formatFingerprint = (fingerprint: string): string => {
+  return fingerprint.match(/.{1,8}/g)?.join(' ') ?? fingerprint;
+};
+
+// Typed or scanned fingerprints may carry spaces, dashes or capitals
+export const normalizeFingerprint = (input: string): string => {
+  return input.toLowerCase().replace(/[^0-9a-f]/g, '');
+};
+
+export const getVerificationLink = (sampleId: string, fingerprint?: string): string => {
+  const link = `${window.location.origin}/verify/${encodeURIComponent(sampleId)}`;
+  return fingerprint ? `${link}?hash=${fingerprint}` : link;
+};
+
+/**
+ * Certificates issued under a sample ID. Sample IDs are not unique across applicants,
+ * so there can be more than one; the fingerprint tells them apart.
+ */
+export const getCertificatesBySampleId = async (sampleId: string): Promise<PublicCertificate[]> => {
+  const snapshot = await get(query(ref(database, 'certificates'), orderByChild('sampleId'), equalTo(sampleId)));
+  const certificates: PublicCertificate[] = [];
+  snapshot.forEach((child) => {
+    certificates.push({ ...child.val(), applicationId: child.key! });
+  });
+  return certificates;
+};
+
+/**
+ * Register entry for an approved application, written if it is missing (applications approved
+ * before the register existed). Returns the entry and its fingerprint.
+ */
+export const ensurePublicCertificate = async (
+  app: Application
+): Promise<{ certificate: PublicCertificate; fingerprint: string }> => {
+  const certificateRef = ref(database, `certificates/${app.id}`);
+  const snapshot = await get(certificateRef);
+  const certificate: PublicCertificate = snapshot.exists()
+    ? { ...snapshot.val(), applicationId: app.id }
+    : buildPublicCertificate(app.id, app);
+
+  if (!snapshot.exists()) {
+    await set(certificateRef, certificate);
+  }
+  return { certificate, fingerprint: await getCertificateFingerprint(certificate) };
+};
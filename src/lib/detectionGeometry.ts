@@ -0,0 +1,192 @@
+// Structured detection geometry for solar panel detections
+// Coordinates are pixels in a 640x640 reference frame (the overlay and satellite tile frame).
+// Older records only carry the legacy `[x,y,w,h,conf];...` bbox string, which is still read.
+
+import type { DetectionResult } from './aiDetection';
+
+export const DETECTION_FRAME_SIZE = 640;
+
+export type Point = [number, number];
+
+export interface BoxDetection {
+  type: 'bbox';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+}
+
+// Box rotated clockwise by `angle` degrees around its centre
+export interface RotatedBoxDetection {
+  type: 'rotated_box';
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  angle: number;
+  confidence: number;
+}
+
+export interface PolygonDetection {
+  type: 'polygon';
+  points: Point[];
+  confidence: number;
+}
+
+// COCO-style uncompressed RLE: alternating background/foreground run lengths, column-major
+export interface MaskDetection {
+  type: 'rle_mask';
+  size: [number, number]; // [height, width]
+  counts: number[];
+  confidence: number;
+}
+
+export type PanelDetection = BoxDetection | RotatedBoxDetection | PolygonDetection | MaskDetection;
+
+export interface GeometryBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const parseLegacyBboxString = (bboxString: string, fallbackConfidence = 0.85): BoxDetection[] => {
+  if (!bboxString) return [];
+
+  const boxes: BoxDetection[] = [];
+  bboxString.split(';').forEach((boxStr) => {
+    const match = boxStr.match(/\[(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?\]/);
+    if (match) {
+      boxes.push({
+        type: 'bbox',
+        x: parseFloat(match[1]),
+        y: parseFloat(match[2]),
+        width: parseFloat(match[3]),
+        height: parseFloat(match[4]),
+        confidence: match[5] ? parseFloat(match[5]) : fallbackConfidence,
+      });
+    }
+  });
+
+  return boxes;
+};
+
+// Axis-aligned bounds of any detection, used for labels and legacy strings
+export const getDetectionBounds = (detection: PanelDetection): GeometryBounds => {
+  if (detection.type === 'bbox') {
+    return { x: detection.x, y: detection.y, width: detection.width, height: detection.height };
+  }
+
+  if (detection.type === 'rle_mask') {
+    const [height, width] = detection.size;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    forEachMaskPixel(detection, (x, y) => {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    });
+    if (maxX < 0) return { x: 0, y: 0, width: 0, height: 0 };
+    const scaleX = DETECTION_FRAME_SIZE / width;
+    const scaleY = DETECTION_FRAME_SIZE / height;
+    return {
+      x: minX * scaleX,
+      y: minY * scaleY,
+      width: (maxX - minX + 1) * scaleX,
+      height: (maxY - minY + 1) * scaleY,
+    };
+  }
+
+  const points = getDetectionPolygon(detection);
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Outline of a detection; masks fall back to their bounding rectangle
+export const getDetectionPolygon = (detection: PanelDetection): Point[] => {
+  switch (detection.type) {
+    case 'bbox': {
+      const { x, y, width, height } = detection;
+      return [[x, y], [x + width, y], [x + width, y + height], [x, y + height]];
+    }
+    case 'rotated_box': {
+      const { cx, cy, width, height, angle } = detection;
+      const radians = (angle * Math.PI) / 180;
+      const cos = Math.cos(radians);
+      const sin = Math.sin(radians);
+      const corners: Point[] = [[-width / 2, -height / 2], [width / 2, -height / 2], [width / 2, height / 2], [-width / 2, height / 2]];
+      return corners.map(([dx, dy]) => [cx + dx * cos - dy * sin, cy + dx * sin + dy * cos]);
+    }
+    case 'polygon':
+      return detection.points;
+    case 'rle_mask': {
+      const { x, y, width, height } = getDetectionBounds(detection);
+      return [[x, y], [x + width, y], [x + width, y + height], [x, y + height]];
+    }
+  }
+};
+
+// Area in square reference pixels
+export const getDetectionPixelArea = (detection: PanelDetection): number => {
+  switch (detection.type) {
+    case 'bbox':
+    case 'rotated_box':
+      return detection.width * detection.height;
+    case 'polygon': {
+      // Shoelace formula
+      const points = detection.points;
+      let sum = 0;
+      for (let i = 0; i < points.length; i++) {
+        const [x1, y1] = points[i];
+        const [x2, y2] = points[(i + 1) % points.length];
+        sum += x1 * y2 - x2 * y1;
+      }
+      return Math.abs(sum) / 2;
+    }
+    case 'rle_mask': {
+      const [height, width] = detection.size;
+      let pixels = 0;
+      detection.counts.forEach((count, i) => {
+        if (i % 2 === 1) pixels += count;
+      });
+      return pixels * (DETECTION_FRAME_SIZE / width) * (DETECTION_FRAME_SIZE / height);
+    }
+  }
+};
+
+export const forEachMaskPixel = (mask: MaskDetection, callback: (x: number, y: number) => void): void => {
+  const [height] = mask.size;
+  let index = 0;
+  mask.counts.forEach((count, i) => {
+    if (i % 2 === 1) {
+      for (let j = index; j < index + count; j++) {
+        callback(Math.floor(j / height), j % height);
+      }
+    }
+    index += count;
+  });
+};
+
+export const toLegacyBboxString = (detections: PanelDetection[]): string => {
+  return detections
+    .map((detection) => {
+      const { x, y, width, height } = getDetectionBounds(detection);
+      return `[${Math.round(x)},${Math.round(y)},${Math.round(width)},${Math.round(height)},${detection.confidence.toFixed(2)}]`;
+    })
+    .join(';');
+};
+
+// Structured detections of a result, reading legacy bbox strings for older records
+export const getPanelDetections = (
+  result?: Pick<DetectionResult, 'detections' | 'bbox_or_mask' | 'confidence'> | null
+): PanelDetection[] => {
+  if (!result) return [];
+  if (result.detections && result.detections.length > 0) {
+    return result.detections;
+  }
+  return parseLegacyBboxString(result.bbox_or_mask, result.confidence);
+};
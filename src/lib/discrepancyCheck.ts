@@ -0,0 +1,142 @@
+// Capacity discrepancy checks between what the applicant claims and what AI detection found
+
+import type { Application } from './applicationService';
+
+export interface DiscrepancyTolerances {
+  // Relative capacity gap (detected vs claimed) that raises a warning / high risk flag
+  capacityWarningPct: number;
+  capacityHighPct: number;
+  // Absolute gaps below this many kW are ignored (small systems, rounding)
+  minCapacityGapKw: number;
+  // Relative panel count gap against the count implied by claimed kW and brand wattage
+  panelCountWarningPct: number;
+  panelCountHighPct: number;
+}
+
+const discrepancyTolerances: DiscrepancyTolerances = {
+  capacityWarningPct: 0.15,
+  capacityHighPct: 0.35,
+  minCapacityGapKw: 0.5,
+  panelCountWarningPct: 0.2,
+  panelCountHighPct: 0.4,
+};
+
+export const configureDiscrepancyTolerances = (tolerances: Partial<DiscrepancyTolerances>): void => {
+  Object.assign(discrepancyTolerances, tolerances);
+};
+
+export const getDiscrepancyTolerances = (): DiscrepancyTolerances => ({ ...discrepancyTolerances });
+
+// Typical module wattage (Wp) for the panel brands offered on the application form
+export const PANEL_BRAND_WATTAGE: Record<string, number> = {
+  'Tata Power Solar': 540,
+  'Adani Solar': 540,
+  'Waaree': 545,
+  'Vikram Solar': 540,
+  'Luminous': 440,
+  'Havells': 450,
+  'Jakson': 540,
+  'Goldi Solar': 545,
+  'Premier Energies': 540,
+};
+
+export const DEFAULT_PANEL_WATTAGE = 450;
+
+export const getPanelWattage = (panelBrand?: string): number => {
+  return (panelBrand && PANEL_BRAND_WATTAGE[panelBrand]) || DEFAULT_PANEL_WATTAGE;
+};
+
+export type DiscrepancyCode =
+  | 'NO_SOLAR_DETECTED'
+  | 'CAPACITY_OVER_CLAIMED'
+  | 'CAPACITY_UNDER_CLAIMED'
+  | 'PANEL_COUNT_MISMATCH';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface DiscrepancyFlag {
+  code: DiscrepancyCode;
+  severity: Exclude<RiskLevel, 'low'>;
+  message: string;
+}
+
+export interface DiscrepancyReport {
+  riskLevel: RiskLevel;
+  flags: DiscrepancyFlag[];
+  claimedKw: number;
+  detectedKw: number;
+  // (detected - claimed) / claimed
+  capacityGapPct: number;
+  panelWattage: number;
+  expectedPanelCount: number;
+  detectedPanelCount: number;
+}
+
+const formatPct = (value: number) => `${Math.round(Math.abs(value) * 100)}%`;
+
+/**
+ * Compare claimed capacity with the AI estimate. Returns null when there is nothing to compare
+ * (no AI result yet, or no capacity claimed).
+ */
+export const checkCapacityDiscrepancy = (
+  application: Pick<Application, 'systemCapacity' | 'panelBrand' | 'aiResult'>,
+  tolerances: DiscrepancyTolerances = discrepancyTolerances
+): DiscrepancyReport | null => {
+  const { aiResult } = application;
+  const claimedKw = application.systemCapacity || 0;
+  if (!aiResult || claimedKw <= 0) return null;
+
+  const detectedKw = aiResult.capacity_kw_est || 0;
+  const detectedPanelCount = aiResult.panel_count_est || 0;
+  const panelWattage = getPanelWattage(application.panelBrand);
+  const expectedPanelCount = Math.round((claimedKw * 1000) / panelWattage);
+  const capacityGapPct = (detectedKw - claimedKw) / claimedKw;
+  const flags: DiscrepancyFlag[] = [];
+
+  if (!aiResult.has_solar) {
+    flags.push({
+      code: 'NO_SOLAR_DETECTED',
+      severity: 'high',
+      message: `${claimedKw} kW claimed but no solar panels were detected`,
+    });
+  } else {
+    const gapKw = Math.abs(detectedKw - claimedKw);
+    const gapPct = Math.abs(capacityGapPct);
+    if (gapKw >= tolerances.minCapacityGapKw && gapPct > tolerances.capacityWarningPct) {
+      const overClaimed = detectedKw < claimedKw;
+      flags.push({
+        code: overClaimed ? 'CAPACITY_OVER_CLAIMED' : 'CAPACITY_UNDER_CLAIMED',
+        severity: gapPct > tolerances.capacityHighPct ? 'high' : 'medium',
+        message: overClaimed
+          ? `Detected ${detectedKw} kW is ${formatPct(capacityGapPct)} below the claimed ${claimedKw} kW`
+          : `Detected ${detectedKw} kW is ${formatPct(capacityGapPct)} above the claimed ${claimedKw} kW`,
+      });
+    }
+
+    if (expectedPanelCount > 0) {
+      const panelGapPct = Math.abs(detectedPanelCount - expectedPanelCount) / expectedPanelCount;
+      if (detectedPanelCount !== expectedPanelCount && panelGapPct > tolerances.panelCountWarningPct) {
+        flags.push({
+          code: 'PANEL_COUNT_MISMATCH',
+          severity: panelGapPct > tolerances.panelCountHighPct ? 'high' : 'medium',
+          message: `${detectedPanelCount} panels detected; ${claimedKw} kW of ${panelWattage} Wp modules needs about ${expectedPanelCount}`,
+        });
+      }
+    }
+  }
+
+  const riskLevel: RiskLevel = flags.some(f => f.severity === 'high')
+    ? 'high'
+    : flags.length > 0 ? 'medium' : 'low';
+
+  return {
+    riskLevel,
+    flags,
+    claimedKw,
+    detectedKw,
+    capacityGapPct,
+    panelWattage,
+    expectedPanelCount,
+    detectedPanelCount,
+  };
+};
@@ -0,0 +1,262 @@
+// Duplicate / fraud signals across applications: shared rooftops, reused photos and repeated sample IDs
+
+import type { Application } from './applicationService';
+
+export interface DuplicateDetectionOptions {
+  // Applications whose coordinates are closer than this are treated as the same rooftop
+  coordinateRadiusM: number;
+  // Maximum Hamming distance (of 64 bits) for two image hashes to count as the same photo.
+  // Keep it below IMAGE_HASH_SEGMENTS, or the segment index can miss matches.
+  imageHashMaxDistance: number;
+}
+
+const duplicateDetectionOptions: DuplicateDetectionOptions = {
+  coordinateRadiusM: 25,
+  imageHashMaxDistance: 6,
+};
+
+export const configureDuplicateDetection = (options: Partial<DuplicateDetectionOptions>): void => {
+  Object.assign(duplicateDetectionOptions, options);
+};
+
+export const getDuplicateDetectionOptions = (): DuplicateDetectionOptions => ({ ...duplicateDetectionOptions });
+
+export type DuplicateReason = 'sample_id' | 'coordinates' | 'identical_image' | 'similar_image';
+
+export interface DuplicateMatch {
+  applicationId: string;
+  sampleId: string;
+  userName: string;
+  reasons: DuplicateReason[];
+  // Ground distance between the two coordinates, in meters
+  distanceM: number;
+  // Hamming distance between image hashes, -1 when either image could not be hashed
+  imageHashDistance: number;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  sample_id: 'Same sample ID',
+  coordinates: 'Nearby coordinates',
+  identical_image: 'Identical image',
+  similar_image: 'Similar image',
+};
+
+const EARTH_RADIUS_M = 6371008.8;
+
+export const getDistanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Geohashes of nearby points share a prefix, so a coordinate search is a few indexed range queries
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+export const GEOHASH_PRECISION = 9;
+const METERS_PER_DEGREE = (Math.PI * EARTH_RADIUS_M) / 180;
+
+export const encodeGeohash = (latitude: number, longitude: number, precision = GEOHASH_PRECISION): string => {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let hash = '';
+  let value = 0;
+  let bits = 0;
+  let isLongitude = true;
+
+  while (hash.length < precision) {
+    const range = isLongitude ? lonRange : latRange;
+    const coordinate = isLongitude ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    isLongitude = !isLongitude;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      value = 0;
+      bits = 0;
+    }
+  }
+  return hash;
+};
+
+// Cell size in degrees for a geohash length; bits alternate starting with longitude
+const getGeohashCellSize = (precision: number) => ({
+  latitude: 180 / 2 ** Math.floor((5 * precision) / 2),
+  longitude: 360 / 2 ** Math.ceil((5 * precision) / 2),
+});
+
+/**
+ * Geohash prefixes that together cover every point within radiusM of the coordinates.
+ * The prefix is shortened until one cell is at least as large as the search box, so the
+ * box spans at most 2x2 cells and the cells of its four corners cover it.
+ */
+export const getGeohashNeighborhood = (
+  latitude: number,
+  longitude: number,
+  radiusM: number = duplicateDetectionOptions.coordinateRadiusM
+): string[] => {
+  const dLat = radiusM / METERS_PER_DEGREE;
+  const dLon = radiusM / (METERS_PER_DEGREE * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+
+  let precision = GEOHASH_PRECISION;
+  for (; precision > 1; precision--) {
+    const cell = getGeohashCellSize(precision);
+    if (cell.latitude >= 2 * dLat && cell.longitude >= 2 * dLon) break;
+  }
+
+  const prefixes = new Set<string>();
+  for (const lat of [latitude - dLat, latitude + dLat]) {
+    for (const lon of [longitude - dLon, longitude + dLon]) {
+      prefixes.add(encodeGeohash(Math.max(-90, Math.min(90, lat)), Math.max(-180, Math.min(180, lon)), precision));
+    }
+  }
+  return [...prefixes];
+};
+
+// Difference hash grid: 9x8 grayscale samples give 8x8 = 64 horizontal gradient bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image could not be loaded for hashing'));
+    img.src = src;
+  });
+};
+
+/**
+ * 64-bit difference hash (dHash) of an image as 16 hex characters. Robust to re-encoding,
+ * resizing and small brightness changes, so re-uploads of the same photo hash close together.
+ * Returns null when the image cannot be read (missing, or a cross-origin image without CORS).
+ */
+export const computeImageHash = async (imageUrl: string): Promise<string | null> => {
+  if (!imageUrl) return null;
+
+  try {
+    const img = await loadImage(imageUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const gray: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      gray.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const left = gray[y * HASH_WIDTH + x];
+        const right = gray[y * HASH_WIDTH + x + 1];
+        byte = (byte << 1) | (left > right ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  } catch (error) {
+    console.warn('Image hashing failed:', error);
+    return null;
+  }
+};
+
+export const getHashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Index keys ({segment}_{byte}) for the eight 8-bit segments of an image hash. Two hashes within
+ * fewer than eight bits of each other differ in at most that many segments, so they share at least
+ * one key; looking up each key finds every similar photo without reading all applications.
+ */
+export const IMAGE_HASH_SEGMENTS = 8;
+
+export const getImageHashSegmentKeys = (imageHash: string | undefined): string[] => {
+  if (!imageHash || imageHash.length !== IMAGE_HASH_SEGMENTS * 2) return [];
+  return Array.from({ length: IMAGE_HASH_SEGMENTS }, (_, i) => `${i}_${imageHash.slice(i * 2, i * 2 + 2)}`);
+};
+
+type DuplicateCandidate = Pick<
+  Application,
+  'id' | 'sampleId' | 'userName' | 'latitude' | 'longitude' | 'imageUrl' | 'imageHash'
+>;
+
+// Fields stored on each application for the duplicate check's indexed queries
+export const getDuplicateIndexKeys = (app: Pick<Application, 'sampleId' | 'latitude' | 'longitude'>) => ({
+  sampleIdKey: app.sampleId.toLowerCase(),
+  geohash: encodeGeohash(app.latitude, app.longitude),
+});
+
+/**
+ * Compare one application against the rest and return every application sharing a duplicate signal
+ */
+export const findDuplicates = (
+  target: DuplicateCandidate,
+  others: DuplicateCandidate[],
+  options: DuplicateDetectionOptions = duplicateDetectionOptions
+): DuplicateMatch[] => {
+  const matches: DuplicateMatch[] = [];
+  const sampleId = target.sampleId.trim().toLowerCase();
+
+  for (const other of others) {
+    if (other.id === target.id) continue;
+
+    const reasons: DuplicateReason[] = [];
+    if (sampleId && other.sampleId.trim().toLowerCase() === sampleId) {
+      reasons.push('sample_id');
+    }
+
+    const distanceM = getDistanceMeters(target.latitude, target.longitude, other.latitude, other.longitude);
+    if (distanceM <= options.coordinateRadiusM) {
+      reasons.push('coordinates');
+    }
+
+    let imageHashDistance = -1;
+    if (target.imageUrl && target.imageUrl === other.imageUrl) {
+      imageHashDistance = 0;
+      reasons.push('identical_image');
+    } else if (target.imageHash && other.imageHash) {
+      imageHashDistance = getHashDistance(target.imageHash, other.imageHash);
+      if (imageHashDistance === 0) {
+        reasons.push('identical_image');
+      } else if (imageHashDistance <= options.imageHashMaxDistance) {
+        reasons.push('similar_image');
+      }
+    }
+
+    if (reasons.length > 0) {
+      matches.push({
+        applicationId: other.id,
+        sampleId: other.sampleId,
+        userName: other.userName,
+        reasons,
+        distanceM: Math.round(distanceM * 10) / 10,
+        imageHashDistance,
+      });
+    }
+  }
+
+  return matches;
+};
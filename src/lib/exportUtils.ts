@@ -1,7 +1,22 @@
+import { Workbook, type CellValue, type Worksheet } from 'exceljs';
 import { Application } from './applicationService';
+import { getPanelDetections } from './detectionGeometry';
+import { toGeoJSON, toKML } from './geoExport';
+import { buildCertificatePDF } from './certificate';
+import type { AuditEvent } from './auditTrail';
+import {
+  buildBatchImport,
+  BatchImport,
+  BatchRow,
+  BatchField,
+  BATCH_FIELDS,
+  BATCH_FIELD_LABELS,
+} from './batchImport';
 
-// Export single application as JSON
-export const exportApplicationJSON = (application: Application) => {
+export type { CSVRow } from './batchImport';
+
+// Export single application as JSON, with its audit trail when provided
+export const exportApplicationJSON = (application: Application, auditTrail: AuditEvent[] = []) => {
   const exportData = {
     sample_id: application.sampleId,
     user: {
@@ -26,15 +41,23 @@ export const exportApplicationJSON = (application: Application) => {
     },
     verification: {
       status: application.status,
-      ai_result: application.aiResult || null,
+      ai_result: application.aiResult
+        ? { ...application.aiResult, detections: getPanelDetections(application.aiResult) }
+        : null,
       officer_notes: application.officerNotes || '',
+      rejection_reasons: application.rejectionReasons || [],
+      resubmission_count: application.resubmissionCount || 0,
       reviewed_by: application.reviewedBy || '',
       reviewed_at: application.reviewedAt || '',
+      supervisor_notes: application.supervisorNotes || '',
+      supervisor_reviewed_by: application.supervisorReviewedBy || '',
+      supervisor_reviewed_at: application.supervisorReviewedAt || '',
     },
     timestamps: {
       created_at: application.createdAt,
       updated_at: application.updatedAt,
     },
+    audit_trail: auditTrail,
   };
 
   const dataStr = JSON.stringify(exportData, null, 2);
@@ -47,8 +70,11 @@ export const exportApplicationJSON = (application: Application) => {
   URL.revokeObjectURL(url);
 };
 
-// Export multiple applications as JSON
-export const exportAllApplicationsJSON = (applications: Application[]) => {
+// Export multiple applications as JSON, with audit trails keyed by application id
+export const exportAllApplicationsJSON = (
+  applications: Application[],
+  auditTrails: Record<string, AuditEvent[]> = {}
+) => {
   const exportData = applications.map(app => ({
     sample_id: app.sampleId,
     user_name: app.userName,
@@ -73,9 +99,13 @@ export const exportAllApplicationsJSON = (applications: Application[]) => {
     capacity_kw_est: app.aiResult?.capacity_kw_est ?? null,
     qc_status: app.aiResult?.qc_status ?? null,
     qc_notes: app.aiResult?.qc_notes?.join('; ') ?? '',
+    detections: getPanelDetections(app.aiResult),
     officer_notes: app.officerNotes || '',
+    rejection_reasons: app.rejectionReasons || [],
+    resubmission_count: app.resubmissionCount || 0,
     reviewed_at: app.reviewedAt || '',
     created_at: app.createdAt,
+    audit_trail: auditTrails[app.id] || [],
   }));
 
   const dataStr = JSON.stringify(exportData, null, 2);
@@ -114,7 +144,9 @@ export const exportApplicationsCSV = (applications: Application[]) => {
     'Est. Capacity (kW)',
     'QC Status',
     'QC Notes',
+    'Detection Geometry',
     'Officer Notes',
+    'Rejection Reasons',
     'Reviewed At',
     'Created At',
   ];
@@ -143,7 +175,9 @@ export const exportApplicationsCSV = (applications: Application[]) => {
     app.aiResult?.capacity_kw_est ?? '',
     app.aiResult?.qc_status ?? '',
     `"${(app.aiResult?.qc_notes?.join('; ') || '').replace(/"/g, '""')}"`,
+    `"${(app.aiResult ? JSON.stringify(getPanelDetections(app.aiResult)) : '').replace(/"/g, '""')}"`,
     `"${(app.officerNotes || '').replace(/"/g, '""')}"`,
+    (app.rejectionReasons || []).join('; '),
     app.reviewedAt || '',
     app.createdAt,
   ]);
@@ -158,55 +192,302 @@ export const exportApplicationsCSV = (applications: Application[]) => {
   URL.revokeObjectURL(url);
 };
 
-// Parse CSV for batch upload
-export interface CSVRow {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  address?: string;
+// Export applications and detected panel outlines as a GeoJSON FeatureCollection
+export const exportApplicationsGeoJSON = (applications: Application[]) => {
+  const dataStr = JSON.stringify(toGeoJSON(applications));
+  const blob = new Blob([dataStr], { type: 'application/geo+json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `solar-verifications-${new Date().toISOString().split('T')[0]}.geojson`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Export applications and detected panel outlines as KML for Google Earth
+export const exportApplicationsKML = (applications: Application[]) => {
+  const blob = new Blob([toKML(applications)], { type: 'application/vnd.google-earth.kml+xml' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `solar-verifications-${new Date().toISOString().split('T')[0]}.kml`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Download the approval certificate PDF for one application
+export const exportApplicationCertificate = async (application: Application) => {
+  const blob = await buildCertificatePDF(application);
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `certificate-${application.sampleId}.pdf`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Quote a value for CSV output (RFC 4180)
+const toCSVField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Split CSV text into records per RFC 4180: quoted fields may contain commas, line breaks
+ * and doubled quotes. Accepts CRLF or LF line endings and a leading byte-order mark.
+ */
+export const parseCSVRecords = (csvText: string): string[][] => {
+  const text = csvText.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last record when the file does not end with a line break
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+// Parse CSV for batch upload; throws BatchImportError when the file is empty or lacks required columns
+export const parseCSV = (csvText: string): BatchImport => {
+  return buildBatchImport(parseCSVRecords(csvText));
+};
+
+// Download the rows that failed validation, with the original values and one message per bad field
+export const exportBatchErrorReport = (rows: BatchRow[], sourceName = 'batch') => {
+  const failed = rows.filter((row) => !row.data && !row.skipped);
+  const headers = ['Row', ...BATCH_FIELDS.map(({ label }) => label), 'Errors'];
+  const lines = failed.map((row) => [
+    row.rowNumber,
+    ...BATCH_FIELDS.map(({ field }) => row.values[field] ?? ''),
+    Object.entries(row.errors).map(([field, message]) => `${BATCH_FIELD_LABELS[field as BatchField]}: ${message}`).join('; '),
+  ]);
+
+  const csvContent = [headers, ...lines].map((line) => line.map(toCSVField).join(',')).join('\r\n');
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${sourceName.replace(/\.[^.]+$/, '')}-errors.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Plain text for a spreadsheet cell, so XLSX rows go through the same validation as CSV
+const cellToText = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('');
+  if ('result' in value) return cellToText(value.result as CellValue);
+  if ('text' in value) return String(value.text);
+  if ('error' in value) return '';
+  return '';
+};
+
+const worksheetToRecords = (worksheet: Worksheet): string[][] => {
+  const records: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const record: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      record.push(cellToText(row.getCell(column).value).trim());
+    }
+    records[rowNumber - 1] = record;
+  });
+  // Rows before the first used row come back as holes
+  return Array.from(records, (record) => record ?? []);
+};
+
+/**
+ * Read every worksheet of an .xlsx file as text records, keyed by sheet name in workbook order
+ */
+export const readXLSXSheets = async (data: ArrayBuffer): Promise<Record<string, string[][]>> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+  const sheets: Record<string, string[][]> = {};
+  workbook.eachSheet((worksheet) => {
+    sheets[worksheet.name] = worksheetToRecords(worksheet);
+  });
+  return sheets;
+};
+
+// Parse one sheet for batch upload, with the same header mapping and checks as parseCSV
+export const parseXLSXSheet = (records: string[][]): BatchImport => {
+  return buildBatchImport(records);
+};
+
+interface SheetColumn<T> {
+  header: string;
+  width: number;
+  value: (item: T) => string | number | boolean | Date | null;
+  numFmt?: string;
+}
+
+const HEADER_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFF59E0B' } };
+
+const addSheet = <T>(workbook: Workbook, name: string, columns: SheetColumn<T>[], items: T[]): Worksheet => {
+  const worksheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  worksheet.columns = columns.map((column, index) => ({
+    header: column.header,
+    key: String(index),
+    width: column.width,
+    style: column.numFmt ? { numFmt: column.numFmt } : {},
+  }));
+  items.forEach((item) => worksheet.addRow(columns.map((column) => column.value(item))));
+
+  const header = worksheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = HEADER_FILL;
+  header.alignment = { vertical: 'middle' };
+  worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  return worksheet;
+};
+
+const toDate = (value?: string): Date | null => (value ? new Date(value) : null);
+
+const applicationColumns: SheetColumn<Application>[] = [
+  { header: 'Sample ID', width: 18, value: (app) => app.sampleId },
+  { header: 'User Name', width: 22, value: (app) => app.userName },
+  { header: 'User Email', width: 28, value: (app) => app.userEmail },
+  { header: 'Latitude', width: 12, value: (app) => app.latitude, numFmt: '0.000000' },
+  { header: 'Longitude', width: 12, value: (app) => app.longitude, numFmt: '0.000000' },
+  { header: 'Address', width: 40, value: (app) => app.address || '' },
+  { header: 'Region', width: 16, value: (app) => app.region },
+  { header: 'Installation Type', width: 22, value: (app) => app.installationType || '' },
+  { header: 'Installation Date', width: 16, value: (app) => toDate(app.installationDate), numFmt: 'yyyy-mm-dd' },
+  { header: 'System Capacity (kW)', width: 14, value: (app) => app.systemCapacity || null, numFmt: '0.00' },
+  { header: 'Installer Company', width: 24, value: (app) => app.installerCompany || '' },
+  { header: 'Panel Brand', width: 18, value: (app) => app.panelBrand || '' },
+  { header: 'Inverter Brand', width: 18, value: (app) => app.inverterBrand || '' },
+  { header: 'Subsidy Amount', width: 16, value: (app) => app.subsidyAmount || null, numFmt: '"₹"#,##0' },
+  { header: 'Electricity Provider', width: 22, value: (app) => app.electricityProvider || '' },
+  { header: 'Status', width: 16, value: (app) => app.status },
+  { header: 'Officer Notes', width: 40, value: (app) => app.officerNotes || '' },
+  { header: 'Rejection Reasons', width: 28, value: (app) => (app.rejectionReasons || []).join('; ') },
+  { header: 'Resubmissions', width: 12, value: (app) => app.resubmissionCount || 0 },
+  { header: 'Reviewed At', width: 20, value: (app) => toDate(app.reviewedAt), numFmt: 'yyyy-mm-dd hh:mm' },
+  { header: 'Created At', width: 20, value: (app) => toDate(app.createdAt), numFmt: 'yyyy-mm-dd hh:mm' },
+];
+
+const aiResultColumns: SheetColumn<Application>[] = [
+  { header: 'Sample ID', width: 18, value: (app) => app.sampleId },
+  { header: 'Status', width: 16, value: (app) => app.status },
+  { header: 'Solar Detected', width: 14, value: (app) => app.aiResult?.has_solar ?? null },
+  { header: 'Confidence', width: 12, value: (app) => app.aiResult?.confidence ?? null, numFmt: '0.0%' },
+  { header: 'Panel Count', width: 12, value: (app) => app.aiResult?.panel_count_est ?? null },
+  { header: 'PV Area (sqm)', width: 14, value: (app) => app.aiResult?.pv_area_sqm_est ?? null, numFmt: '0.0' },
+  { header: 'Est. Capacity (kW)', width: 16, value: (app) => app.aiResult?.capacity_kw_est ?? null, numFmt: '0.00' },
+  { header: 'Declared Capacity (kW)', width: 18, value: (app) => app.systemCapacity || null, numFmt: '0.00' },
+  { header: 'QC Status', width: 16, value: (app) => app.aiResult?.qc_status ?? '' },
+  { header: 'QC Notes', width: 40, value: (app) => app.aiResult?.qc_notes?.join('; ') ?? '' },
+  { header: 'Detections', width: 12, value: (app) => getPanelDetections(app.aiResult).length },
+];
+
+interface RegionSummary {
   region: string;
-  installationType?: string;
-  installationDate?: string;
-  systemCapacity?: number;
-  installerCompany?: string;
-  panelBrand?: string;
-  inverterBrand?: string;
-  subsidyAmount?: number;
-  electricityProvider?: string;
+  total: number;
+  approved: number;
+  rejected: number;
+  open: number;
+  declaredCapacityKw: number;
+  detectedCapacityKw: number;
+  subsidyAmount: number;
 }
 
-export const parseCSV = (csvText: string): CSVRow[] => {
-  const lines = csvText.split('\n').filter(line => line.trim());
-  if (lines.length < 2) return [];
-
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/[^a-z0-9]/g, '_'));
-  const rows: CSVRow[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-    const row: any = {};
-    
-    headers.forEach((header, index) => {
-      row[header] = values[index] || '';
-    });
-
-    // Map to expected format
-    rows.push({
-      sampleId: row.sample_id || row.sampleid || row.id || `BATCH-${Date.now()}-${i}`,
-      latitude: parseFloat(row.latitude || row.lat) || 0,
-      longitude: parseFloat(row.longitude || row.lon || row.lng) || 0,
-      address: row.address || '',
-      region: row.region || row.state || 'Other',
-      installationType: row.installation_type || row.installationtype || row.type || '',
-      installationDate: row.installation_date || row.installationdate || row.date || '',
-      systemCapacity: parseFloat(row.system_capacity || row.capacity_kw || row.capacity) || 0,
-      installerCompany: row.installer_company || row.installer || row.company || '',
-      panelBrand: row.panel_brand || row.panelbrand || row.panel || '',
-      inverterBrand: row.inverter_brand || row.inverterbrand || row.inverter || '',
-      subsidyAmount: parseFloat(row.subsidy_amount || row.subsidy) || 0,
-      electricityProvider: row.electricity_provider || row.provider || row.discom || '',
-    });
+const summarizeByRegion = (applications: Application[]): RegionSummary[] => {
+  const byRegion = new Map<string, RegionSummary>();
+  for (const app of applications) {
+    const region = app.region || 'Unknown';
+    const summary = byRegion.get(region) ?? {
+      region, total: 0, approved: 0, rejected: 0, open: 0, declaredCapacityKw: 0, detectedCapacityKw: 0, subsidyAmount: 0,
+    };
+    summary.total++;
+    if (app.status === 'approved') summary.approved++;
+    else if (app.status === 'rejected') summary.rejected++;
+    else summary.open++;
+    summary.declaredCapacityKw += app.systemCapacity || 0;
+    summary.detectedCapacityKw += app.aiResult?.capacity_kw_est || 0;
+    summary.subsidyAmount += app.subsidyAmount || 0;
+    byRegion.set(region, summary);
   }
+  return [...byRegion.values()].sort((a, b) => a.region.localeCompare(b.region));
+};
+
+const regionSummaryColumns: SheetColumn<RegionSummary>[] = [
+  { header: 'Region', width: 18, value: (row) => row.region },
+  { header: 'Applications', width: 14, value: (row) => row.total },
+  { header: 'Approved', width: 12, value: (row) => row.approved },
+  { header: 'Rejected', width: 12, value: (row) => row.rejected },
+  { header: 'In Progress', width: 12, value: (row) => row.open },
+  {
+    header: 'Approval Rate',
+    width: 14,
+    value: (row) => (row.approved + row.rejected > 0 ? row.approved / (row.approved + row.rejected) : null),
+    numFmt: '0.0%',
+  },
+  { header: 'Declared Capacity (kW)', width: 20, value: (row) => row.declaredCapacityKw, numFmt: '#,##0.00' },
+  { header: 'Detected Capacity (kW)', width: 20, value: (row) => row.detectedCapacityKw, numFmt: '#,##0.00' },
+  { header: 'Subsidy Claimed', width: 18, value: (row) => row.subsidyAmount, numFmt: '"₹"#,##0' },
+];
 
-  return rows;
+// Export applications as a workbook: applications, AI results and a per-region summary
+export const exportApplicationsXLSX = async (applications: Application[]) => {
+  const workbook = new Workbook();
+  workbook.creator = 'TopRoof Solar';
+  workbook.created = new Date();
+
+  addSheet(workbook, 'Applications', applicationColumns, applications);
+  addSheet(workbook, 'AI Results', aiResultColumns, applications);
+  const summary = addSheet(workbook, 'Region Summary', regionSummaryColumns, summarizeByRegion(applications));
+  const totals = summary.addRow([
+    'Total',
+    { formula: `SUM(B2:B${summary.rowCount})` },
+    { formula: `SUM(C2:C${summary.rowCount})` },
+    { formula: `SUM(D2:D${summary.rowCount})` },
+    { formula: `SUM(E2:E${summary.rowCount})` },
+    null,
+    { formula: `SUM(G2:G${summary.rowCount})` },
+    { formula: `SUM(H2:H${summary.rowCount})` },
+    { formula: `SUM(I2:I${summary.rowCount})` },
+  ]);
+  totals.font = { bold: true };
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `solar-verifications-${new Date().toISOString().split('T')[0]}.xlsx`;
+  a.click();
+  URL.revokeObjectURL(url);
 };
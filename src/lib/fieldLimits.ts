@@ -0,0 +1,18 @@
+// Longest text accepted for each application field, as enforced by the .validate rules in
+// database.rules.json. Forms check against these so a value is refused before anything is written.
+
+export const APPLICATION_FIELD_MAX_LENGTHS = {
+  userName: 200,
+  userEmail: 320,
+  sampleId: 64,
+  address: 500,
+  region: 100,
+  installationType: 100,
+  installationDate: 30,
+  installerCompany: 200,
+  panelBrand: 100,
+  inverterBrand: 100,
+  electricityProvider: 200,
+} as const;
+
+export type LimitedApplicationField = keyof typeof APPLICATION_FIELD_MAX_LENGTHS;
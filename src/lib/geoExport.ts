@@ -0,0 +1,209 @@
+// GeoJSON (RFC 7946) and KML documents of applications, for GIS tools such as QGIS and Google Earth.
+// Each application is a point; detected panels are polygons projected from the detection frame
+// onto the ground around the image centre.
+
+import type { Application } from './applicationService';
+import { getPanelDetections, getDetectionPolygon, type PanelDetection } from './detectionGeometry';
+import { frameToLngLat, getDetectionAreaSqm, getImageGeoreference } from './geoMeasurement';
+import { parseSatelliteImageUrl } from './satelliteImagery';
+
+type Position = [number, number];
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: 'Point'; coordinates: Position } | { type: 'Polygon'; coordinates: Position[][] };
+  properties: Record<string, string | number | boolean | null>;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+// ~1 cm at the equator; more digits only add file size
+const COORDINATE_PRECISION = 7;
+
+const round = (value: number): number => Number(value.toFixed(COORDINATE_PRECISION));
+
+// Satellite tiles are centred on the coordinates in their URL; uploads are assumed to be centred on the application
+const getImageCenter = (app: Application): { latitude: number; longitude: number } => {
+  const parsed = app.imageUrl && !app.imageUrl.startsWith('data:') ? parseSatelliteImageUrl(app.imageUrl) : null;
+  return parsed
+    ? { latitude: parsed.latitude, longitude: parsed.longitude }
+    : { latitude: app.latitude, longitude: app.longitude };
+};
+
+export interface PanelFootprint {
+  detection: PanelDetection;
+  // Closed ring, counter-clockwise as RFC 7946 asks for exterior rings
+  ring: Position[];
+  areaSqm: number;
+}
+
+export const getPanelFootprints = (app: Application): PanelFootprint[] => {
+  const detections = getPanelDetections(app.aiResult);
+  if (detections.length === 0) return [];
+
+  const center = getImageCenter(app);
+  const georef = getImageGeoreference(app.latitude, app.imageUrl);
+
+  return detections.map((detection) => {
+    const ring = getDetectionPolygon(detection).map((point) => {
+      const [longitude, latitude] = frameToLngLat(point, center, georef);
+      return [round(longitude), round(latitude)] as Position;
+    });
+
+    // Shoelace sign: positive means counter-clockwise in lon/lat
+    let signedArea = 0;
+    for (let i = 0; i < ring.length; i++) {
+      const [x1, y1] = ring[i];
+      const [x2, y2] = ring[(i + 1) % ring.length];
+      signedArea += x1 * y2 - x2 * y1;
+    }
+    if (signedArea < 0) ring.reverse();
+    ring.push(ring[0]);
+
+    return { detection, ring, areaSqm: getDetectionAreaSqm(detection, georef) };
+  });
+};
+
+const getApplicationProperties = (app: Application): GeoJSONFeature['properties'] => ({
+  feature_type: 'application',
+  application_id: app.id,
+  sample_id: app.sampleId,
+  status: app.status,
+  region: app.region,
+  address: app.address || '',
+  declared_capacity_kw: app.systemCapacity || null,
+  has_solar: app.aiResult?.has_solar ?? null,
+  confidence: app.aiResult?.confidence ?? null,
+  panel_count: app.aiResult?.panel_count_est ?? null,
+  pv_area_sqm: app.aiResult?.pv_area_sqm_est ?? null,
+  capacity_kw_est: app.aiResult?.capacity_kw_est ?? null,
+  qc_status: app.aiResult?.qc_status ?? null,
+  reviewed_at: app.reviewedAt || null,
+  created_at: app.createdAt,
+});
+
+/**
+ * One point per application, followed by one polygon per detected panel
+ */
+export const toGeoJSON = (applications: Application[]): GeoJSONFeatureCollection => {
+  const features: GeoJSONFeature[] = [];
+
+  for (const app of applications) {
+    features.push({
+      type: 'Feature',
+      id: app.id,
+      geometry: { type: 'Point', coordinates: [round(app.longitude), round(app.latitude)] },
+      properties: getApplicationProperties(app),
+    });
+
+    getPanelFootprints(app).forEach(({ detection, ring, areaSqm }, index) => {
+      features.push({
+        type: 'Feature',
+        id: `${app.id}-panel-${index + 1}`,
+        geometry: { type: 'Polygon', coordinates: [ring] },
+        properties: {
+          feature_type: 'panel',
+          application_id: app.id,
+          sample_id: app.sampleId,
+          status: app.status,
+          detection_type: detection.type,
+          confidence: detection.confidence,
+          area_sqm: Number(areaSqm.toFixed(2)),
+        },
+      });
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+};
+
+const escapeXml = (value: unknown): string => {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// KML colours are aabbggrr
+const KML_STYLES: Record<'approved' | 'rejected' | 'open', string> = {
+  approved: 'ff3ea34a',
+  rejected: 'ff2626dc',
+  open: 'ff0b9ef5',
+};
+
+const getStyleId = (app: Application): keyof typeof KML_STYLES => {
+  if (app.status === 'approved' || app.status === 'rejected') return app.status;
+  return 'open';
+};
+
+const toKMLCoordinates = (positions: Position[]): string => {
+  return positions.map(([longitude, latitude]) => `${longitude},${latitude},0`).join(' ');
+};
+
+const toKMLPlacemark = (app: Application): string => {
+  const properties = getApplicationProperties(app);
+  const extendedData = Object.entries(properties)
+    .filter(([, value]) => value !== null && value !== '')
+    .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${escapeXml(value)}</value></Data>`)
+    .join('');
+  const polygons = getPanelFootprints(app)
+    .map(({ ring }) => (
+      `<Polygon><outerBoundaryIs><LinearRing><coordinates>${toKMLCoordinates(ring)}</coordinates></LinearRing></outerBoundaryIs></Polygon>`
+    ))
+    .join('');
+  const point = `<Point><coordinates>${toKMLCoordinates([[round(app.longitude), round(app.latitude)]])}</coordinates></Point>`;
+  const description = [
+    `Status: ${app.status}`,
+    app.systemCapacity ? `Declared capacity: ${app.systemCapacity} kW` : null,
+    app.aiResult ? `Estimated capacity: ${app.aiResult.capacity_kw_est} kW` : null,
+    app.aiResult ? `Confidence: ${(app.aiResult.confidence * 100).toFixed(1)}%` : null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    '<Placemark>',
+    `<name>${escapeXml(app.sampleId)}</name>`,
+    `<description>${escapeXml(description)}</description>`,
+    `<styleUrl>#${getStyleId(app)}</styleUrl>`,
+    `<ExtendedData>${extendedData}</ExtendedData>`,
+    polygons ? `<MultiGeometry>${point}${polygons}</MultiGeometry>` : point,
+    '</Placemark>',
+  ].join('');
+};
+
+/**
+ * KML document with a placemark per application, grouped into folders by status
+ */
+export const toKML = (applications: Application[], name = 'TopRoof Solar verifications'): string => {
+  const styles = Object.entries(KML_STYLES)
+    .map(([id, color]) => (
+      `<Style id="${id}"><IconStyle><color>${color}</color></IconStyle>` +
+      `<LineStyle><color>${color}</color><width>2</width></LineStyle>` +
+      `<PolyStyle><color>7f${color.slice(2)}</color></PolyStyle></Style>`
+    ))
+    .join('\n');
+
+  const byStatus = new Map<string, Application[]>();
+  for (const app of applications) {
+    byStatus.set(app.status, [...(byStatus.get(app.status) || []), app]);
+  }
+  const folders = [...byStatus.entries()]
+    .map(([status, apps]) => `<Folder><name>${escapeXml(status)}</name>\n${apps.map(toKMLPlacemark).join('\n')}\n</Folder>`)
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${escapeXml(name)}</name>`,
+    styles,
+    folders,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+};
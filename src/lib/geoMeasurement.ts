@@ -0,0 +1,150 @@
+// Geo-referenced PV measurement
+// Converts detection geometry in the 640x640 reference frame to ground square meters using
+// Web Mercator ground resolution, and estimates capacity from a configurable module efficiency.
+
+import type { DetectionResult } from './aiDetection';
+import { DETECTION_FRAME_SIZE, getDetectionPixelArea, type PanelDetection, type Point } from './detectionGeometry';
+import {
+  DEFAULT_SATELLITE_SIZE,
+  DEFAULT_SATELLITE_ZOOM,
+  SATELLITE_IMAGE_SCALE,
+  parseSatelliteImageUrl,
+} from './satelliteImagery';
+
+const EARTH_CIRCUMFERENCE_M = 40075016.686;
+// Mapbox GL styles (and the Static Images API) use 512px tiles per zoom level
+const MAPBOX_TILE_SIZE = 512;
+// Standard Test Conditions irradiance used for module ratings
+const STC_IRRADIANCE_W_PER_SQM = 1000;
+
+// What the detection frame covers on the ground
+export interface ImageGeoreference {
+  latitude: number;
+  zoom: number;
+  // Logical (1x) pixel size of the image the detections were made on
+  width: number;
+  height: number;
+  // Device pixel ratio the image was rendered at (@2x => 2)
+  scale: number;
+}
+
+export interface PvEstimationOptions {
+  // Fraction of STC irradiance converted to power, e.g. 0.19 => 190 W/m²
+  moduleEfficiency: number;
+}
+
+const pvEstimationOptions: PvEstimationOptions = {
+  moduleEfficiency: Number(import.meta.env.VITE_MODULE_EFFICIENCY) || 0.19,
+};
+
+export const configurePvEstimation = (options: Partial<PvEstimationOptions>): void => {
+  Object.assign(pvEstimationOptions, options);
+};
+
+export const getPvEstimationOptions = (): PvEstimationOptions => ({ ...pvEstimationOptions });
+
+/**
+ * Meters per image pixel at a latitude and zoom (Web Mercator, 512px tiles)
+ */
+export const getGroundResolution = (latitude: number, zoom: number, scale = 1): number => {
+  const metersPerLogicalPixel =
+    (EARTH_CIRCUMFERENCE_M * Math.cos((latitude * Math.PI) / 180)) / (MAPBOX_TILE_SIZE * 2 ** zoom);
+  return metersPerLogicalPixel / scale;
+};
+
+/**
+ * Georeference of a stored image: read from a Mapbox Static Image URL, otherwise the default
+ * rooftop tile centred on the application's coordinates (uploads are assumed to match it).
+ */
+export const getImageGeoreference = (latitude: number, imageUrl?: string): ImageGeoreference => {
+  const parsed = imageUrl && !imageUrl.startsWith('data:') ? parseSatelliteImageUrl(imageUrl) : null;
+  if (parsed) {
+    return {
+      latitude: parsed.latitude,
+      zoom: parsed.zoom,
+      width: parsed.width,
+      height: parsed.height,
+      scale: parsed.scale,
+    };
+  }
+
+  return {
+    latitude,
+    zoom: DEFAULT_SATELLITE_ZOOM,
+    width: DEFAULT_SATELLITE_SIZE,
+    height: DEFAULT_SATELLITE_SIZE,
+    scale: SATELLITE_IMAGE_SCALE,
+  };
+};
+
+// Ground meters covered by one reference-frame pixel along each axis
+export const getFramePixelSize = (georef: ImageGeoreference): { x: number; y: number } => {
+  const metersPerLogicalPixel = getGroundResolution(georef.latitude, georef.zoom);
+  return {
+    x: (metersPerLogicalPixel * georef.width) / DETECTION_FRAME_SIZE,
+    y: (metersPerLogicalPixel * georef.height) / DETECTION_FRAME_SIZE,
+  };
+};
+
+/**
+ * Longitude and latitude of a reference-frame point, for an image centred on `center` (Web Mercator)
+ */
+export const frameToLngLat = (
+  [px, py]: Point,
+  center: { latitude: number; longitude: number },
+  georef: ImageGeoreference
+): [number, number] => {
+  const worldSize = MAPBOX_TILE_SIZE * 2 ** georef.zoom;
+  const sinLat = Math.sin((center.latitude * Math.PI) / 180);
+  const centerX = ((center.longitude + 180) / 360) * worldSize;
+  const centerY = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize;
+
+  // Frame pixels to logical image pixels, measured from the image centre
+  const x = centerX + (px - DETECTION_FRAME_SIZE / 2) * (georef.width / DETECTION_FRAME_SIZE);
+  const y = centerY + (py - DETECTION_FRAME_SIZE / 2) * (georef.height / DETECTION_FRAME_SIZE);
+
+  const longitude = (x / worldSize) * 360 - 180;
+  const latitude = (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / worldSize))) * 180) / Math.PI;
+  return [longitude, latitude];
+};
+
+export const getDetectionAreaSqm = (detection: PanelDetection, georef: ImageGeoreference): number => {
+  const { x, y } = getFramePixelSize(georef);
+  return getDetectionPixelArea(detection) * x * y;
+};
+
+export const estimatePvAreaSqm = (detections: PanelDetection[], georef: ImageGeoreference): number => {
+  return detections.reduce((sum, detection) => sum + getDetectionAreaSqm(detection, georef), 0);
+};
+
+export const estimateCapacityKw = (
+  areaSqm: number,
+  moduleEfficiency = pvEstimationOptions.moduleEfficiency
+): number => {
+  return (areaSqm * STC_IRRADIANCE_W_PER_SQM * moduleEfficiency) / 1000;
+};
+
+/**
+ * Replace a result's area and capacity with values measured from its geometry
+ */
+export const applyGeoreferencedEstimates = (
+  result: DetectionResult,
+  georef: ImageGeoreference
+): DetectionResult => {
+  if (!result.detections || result.detections.length === 0) {
+    return result;
+  }
+
+  const pvArea = estimatePvAreaSqm(result.detections, georef);
+  const { x } = getFramePixelSize(georef);
+
+  return {
+    ...result,
+    pv_area_sqm_est: Math.round(pvArea * 10) / 10,
+    capacity_kw_est: Math.round(estimateCapacityKw(pvArea) * 10) / 10,
+    image_metadata: {
+      ...result.image_metadata,
+      meters_per_pixel: Math.round(x * 1000) / 1000,
+    },
+  };
+};
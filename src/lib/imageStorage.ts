@@ -0,0 +1,155 @@
+// Rooftop images live in Firebase Storage; application records only keep download URLs and paths.
+// Layout: applications/{applicationId}/rooftop.{ext} and applications/{applicationId}/thumbnail.jpg
+
+import { ref as storageRef, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { ref, get, update } from 'firebase/database';
+import { database, storage } from './firebase';
+
+export interface StoredImage {
+  imageUrl: string;
+  imagePath: string;
+  thumbnailUrl: string;
+  thumbnailPath: string;
+}
+
+export type ImageUploadErrorCode = 'UPLOAD_FAILED';
+
+export class ImageUploadError extends Error {
+  readonly code: ImageUploadErrorCode;
+  // Error reported by Firebase Storage
+  readonly cause: unknown;
+
+  constructor(cause: unknown) {
+    super('The rooftop photo could not be uploaded. Please check your connection and try again.');
+    this.name = 'ImageUploadError';
+    this.code = 'UPLOAD_FAILED';
+    this.cause = cause;
+  }
+}
+
+export interface ThumbnailOptions {
+  // Longest edge of the thumbnail in pixels
+  maxSize: number;
+  quality: number;
+}
+
+const thumbnailOptions: ThumbnailOptions = {
+  maxSize: 256,
+  quality: 0.8,
+};
+
+export const configureThumbnails = (options: Partial<ThumbnailOptions>): void => {
+  Object.assign(thumbnailOptions, options);
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export const isDataUrl = (url?: string): boolean => !!url && url.startsWith('data:');
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+/**
+ * Downscale an image to a JPEG thumbnail in the browser
+ */
+export const createThumbnail = async (
+  image: Blob,
+  options: ThumbnailOptions = thumbnailOptions
+): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, options.maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas is not available for thumbnail generation');
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Thumbnail encoding failed'))),
+      'image/jpeg',
+      options.quality
+    );
+  });
+};
+
+/**
+ * Upload an application's rooftop image and its thumbnail, returning the references to store.
+ * Resubmissions pass a revision number so earlier photos stay available for the audit history.
+ */
+export const uploadApplicationImage = async (
+  applicationId: string,
+  image: Blob,
+  revision = 0
+): Promise<StoredImage> => {
+  const contentType = image.type || 'image/jpeg';
+  const suffix = revision > 0 ? `-${revision}` : '';
+  const imagePath = `applications/${applicationId}/rooftop${suffix}.${EXTENSIONS[contentType] || 'jpg'}`;
+  const thumbnailPath = `applications/${applicationId}/thumbnail${suffix}.jpg`;
+
+  const thumbnail = await createThumbnail(image);
+  try {
+    const [imageUpload, thumbnailUpload] = await Promise.all([
+      uploadBytes(storageRef(storage, imagePath), image, { contentType }),
+      uploadBytes(storageRef(storage, thumbnailPath), thumbnail, { contentType: 'image/jpeg' }),
+    ]);
+
+    const [imageUrl, thumbnailUrl] = await Promise.all([
+      getDownloadURL(imageUpload.ref),
+      getDownloadURL(thumbnailUpload.ref),
+    ]);
+
+    return { imageUrl, imagePath, thumbnailUrl, thumbnailPath };
+  } catch (error) {
+    throw new ImageUploadError(error);
+  }
+};
+
+export interface ImageMigrationResult {
+  migrated: number;
+  failed: string[];
+}
+
+/**
+ * Move base64 images still embedded in application records into Storage.
+ * Records are migrated one at a time so a failure leaves the rest untouched and the run can be repeated.
+ */
+export const migrateBase64Images = async (
+  onProgress?: (done: number, total: number) => void
+): Promise<ImageMigrationResult> => {
+  const snapshot = await get(ref(database, 'applications'));
+  const pending: { id: string; imageUrl: string }[] = [];
+  snapshot.forEach((child) => {
+    const imageUrl = child.child('imageUrl').val();
+    if (isDataUrl(imageUrl)) {
+      pending.push({ id: child.key!, imageUrl });
+    }
+  });
+
+  const result: ImageMigrationResult = { migrated: 0, failed: [] };
+  for (const [index, record] of pending.entries()) {
+    try {
+      const stored = await uploadApplicationImage(record.id, await dataUrlToBlob(record.imageUrl));
+      await update(ref(database, `applications/${record.id}`), { ...stored });
+      result.migrated++;
+    } catch (error) {
+      console.warn(`Image migration failed for ${record.id}:`, error);
+      result.failed.push(record.id);
+    }
+    onProgress?.(index + 1, pending.length);
+  }
+
+  return result;
+};
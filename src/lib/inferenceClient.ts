@@ -0,0 +1,269 @@
+// HTTP client for a self-hosted YOLOv8 inference service
+// Contract: POST {endpoint} with { sample_id, lat, lon, image | image_url } and receive an InferenceResponse.
+// `npm run mock:inference` starts a local stand-in server that follows the same contract.
+
+import { z } from 'zod';
+import type { DetectionProvider, DetectionRequest, DetectionResult } from './aiDetection';
+import { fetchSatelliteImageAsBase64 } from './satelliteImagery';
+import { toLegacyBboxString, type PanelDetection } from './detectionGeometry';
+
+const INFERENCE_ENDPOINT_KEY = 'inference_endpoint';
+const DEFAULT_INFERENCE_ENDPOINT = 'http://localhost:5000/api/detect';
+
+export interface InferenceClientOptions {
+  endpoint: string;
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+}
+
+const inferenceOptions: Omit<InferenceClientOptions, 'endpoint'> = {
+  timeoutMs: 30000,
+  retries: 2,
+  retryDelayMs: 1000,
+};
+
+// Endpoint from localStorage, then VITE_INFERENCE_URL, then the local mock server
+export const getInferenceEndpoint = (): string => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(INFERENCE_ENDPOINT_KEY) : null;
+  return stored || import.meta.env.VITE_INFERENCE_URL || DEFAULT_INFERENCE_ENDPOINT;
+};
+
+export const setInferenceEndpoint = (endpoint: string): void => {
+  localStorage.setItem(INFERENCE_ENDPOINT_KEY, endpoint);
+};
+
+export const configureInferenceClient = (options: Partial<Omit<InferenceClientOptions, 'endpoint'>>): void => {
+  Object.assign(inferenceOptions, options);
+};
+
+export type InferenceErrorCode = 'NO_IMAGE' | 'TIMEOUT' | 'NETWORK' | 'HTTP' | 'INVALID_RESPONSE';
+
+export class InferenceError extends Error {
+  readonly code: InferenceErrorCode;
+  readonly status?: number;
+
+  constructor(code: InferenceErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'InferenceError';
+    this.code = code;
+    this.status = status;
+  }
+
+  // Timeouts, network failures, rate limiting and server errors are worth another attempt
+  get retryable(): boolean {
+    if (this.code === 'TIMEOUT' || this.code === 'NETWORK') return true;
+    return this.code === 'HTTP' && (this.status === 429 || (this.status ?? 0) >= 500);
+  }
+}
+
+const confidenceSchema = z.number().min(0).max(1);
+const pointSchema = z.tuple([z.number(), z.number()]);
+
+// Detections use the 640x640 reference frame. Untyped `{ x, y, width, height }` items are
+// read as axis-aligned boxes for servers that predate structured geometry.
+const inferenceDetectionSchema = z.union([
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('bbox'),
+      x: z.number(),
+      y: z.number(),
+      width: z.number().nonnegative(),
+      height: z.number().nonnegative(),
+      confidence: confidenceSchema,
+    }),
+    z.object({
+      type: z.literal('rotated_box'),
+      cx: z.number(),
+      cy: z.number(),
+      width: z.number().nonnegative(),
+      height: z.number().nonnegative(),
+      angle: z.number(),
+      confidence: confidenceSchema,
+    }),
+    z.object({
+      type: z.literal('polygon'),
+      points: z.array(pointSchema).min(3),
+      confidence: confidenceSchema,
+    }),
+    z.object({
+      type: z.literal('rle_mask'),
+      size: z.tuple([z.number().int().positive(), z.number().int().positive()]),
+      counts: z.array(z.number().int().nonnegative()),
+      confidence: confidenceSchema,
+    }),
+  ]),
+  z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().nonnegative(),
+    height: z.number().nonnegative(),
+    confidence: confidenceSchema,
+  }).transform((box) => ({ type: 'bbox' as const, ...box })),
+]);
+
+const inferenceResponseSchema = z.object({
+  sample_id: z.string(),
+  has_solar: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  panel_count: z.number().int().nonnegative(),
+  pv_area_sqm: z.number().nonnegative(),
+  capacity_kw: z.number().nonnegative(),
+  qc_status: z.enum(['VERIFIABLE', 'NOT_VERIFIABLE']),
+  qc_notes: z.array(z.string()).default([]),
+  detections: z.array(inferenceDetectionSchema).default([]),
+  image: z.object({
+    source: z.string(),
+    capture_date: z.string(),
+  }).optional(),
+  model_version: z.string().optional(),
+  processing_time_ms: z.number().nonnegative().optional(),
+});
+
+export type InferenceDetection = z.infer<typeof inferenceDetectionSchema>;
+export type InferenceResponse = z.infer<typeof inferenceResponseSchema>;
+
+export interface InferenceRequestBody {
+  sample_id: string;
+  lat: number;
+  lon: number;
+  // Base64 data URL of the rooftop image
+  image?: string;
+  // Remote image URL the server should download itself
+  image_url?: string;
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Prefer the uploaded image, then a stored URL, then the Mapbox tile for the coordinates
+const buildRequestBody = async (request: DetectionRequest): Promise<InferenceRequestBody> => {
+  const body: InferenceRequestBody = {
+    sample_id: request.sampleId,
+    lat: request.lat,
+    lon: request.lon,
+  };
+
+  if (request.imageFile) {
+    body.image = await blobToBase64(request.imageFile);
+  } else if (request.imageUrl?.startsWith('data:')) {
+    body.image = request.imageUrl;
+  } else if (request.imageUrl) {
+    body.image_url = request.imageUrl;
+  } else {
+    const tile = await fetchSatelliteImageAsBase64({ latitude: request.lat, longitude: request.lon });
+    if (!tile) {
+      throw new InferenceError('NO_IMAGE', 'No rooftop image available and satellite imagery could not be fetched');
+    }
+    body.image = tile;
+  }
+
+  return body;
+};
+
+const postOnce = async (
+  endpoint: string,
+  body: InferenceRequestBody,
+  timeoutMs: number
+): Promise<InferenceResponse> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new InferenceError('TIMEOUT', `Inference request timed out after ${timeoutMs} ms`);
+    }
+    throw new InferenceError('NETWORK', `Could not reach inference service at ${endpoint}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    throw new InferenceError('HTTP', `Inference service responded with ${response.status}`, response.status);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new InferenceError('INVALID_RESPONSE', 'Inference service returned malformed JSON');
+  }
+
+  const parsed = inferenceResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    throw new InferenceError('INVALID_RESPONSE', `Invalid inference response: ${issue.path.join('.')} ${issue.message}`);
+  }
+  return parsed.data;
+};
+
+export const requestInference = async (
+  request: DetectionRequest,
+  options: Partial<InferenceClientOptions> = {}
+): Promise<InferenceResponse> => {
+  const { endpoint, timeoutMs, retries, retryDelayMs } = {
+    endpoint: getInferenceEndpoint(),
+    ...inferenceOptions,
+    ...options,
+  };
+  const body = await buildRequestBody(request);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await postOnce(endpoint, body, timeoutMs);
+    } catch (error) {
+      if (!(error instanceof InferenceError) || !error.retryable || attempt >= retries) {
+        throw error;
+      }
+      // Exponential backoff between attempts
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+    }
+  }
+};
+
+export const toDetectionResult = (request: DetectionRequest, response: InferenceResponse): DetectionResult => {
+  // Validated by inferenceDetectionSchema; zod's inferred type is loose without strict mode
+  const detections = response.detections as PanelDetection[];
+
+  return {
+    sample_id: response.sample_id || request.sampleId,
+    lat: request.lat,
+    lon: request.lon,
+    has_solar: response.has_solar,
+    confidence: response.confidence,
+    panel_count_est: response.panel_count,
+    pv_area_sqm_est: response.pv_area_sqm,
+    capacity_kw_est: response.capacity_kw,
+    qc_status: response.qc_status,
+    qc_notes: response.qc_notes,
+    bbox_or_mask: toLegacyBboxString(detections),
+    detections,
+    image_metadata: {
+      source: response.image?.source || 'Inference Service',
+      capture_date: response.image?.capture_date || new Date().toISOString().split('T')[0],
+    },
+    processing_time_ms: response.processing_time_ms ?? 0,
+    model_version: response.model_version,
+  };
+};
+
+export const httpInferenceProvider: DetectionProvider = {
+  id: 'yolo-http',
+  label: 'YOLOv8 Inference Server',
+  modelVersion: 'yolov8-remote',
+  detect: async (request) => toDetectionResult(request, await requestInference(request)),
+};
@@ -0,0 +1,165 @@
+// Installer submissions on behalf of customers. The installer account owns the application;
+// the homeowner confirms it from a Firebase Auth sign-in link emailed to the address on the application.
+// Signing in with that link proves the address, and the database rules let only that verified email
+// answer. The link never passes through the installer.
+
+import { ref, get, update, query, orderByChild, equalTo, onValue } from 'firebase/database';
+import { sendSignInLinkToEmail, isSignInWithEmailLink, signInWithEmailLink } from 'firebase/auth';
+import { auth, database } from './firebase';
+import { createApplication, ApplicationData, Application } from './applicationService';
+import { hasPermission } from './roles';
+import type { UserProfile } from '@/contexts/AuthContext';
+
+export type ConsentErrorCode = 'NOT_FOUND' | 'ALREADY_RESPONDED' | 'NOT_AUTHORIZED';
+
+export class ConsentError extends Error {
+  readonly code: ConsentErrorCode;
+
+  constructor(code: ConsentErrorCode, message: string) {
+    super(message);
+    this.name = 'ConsentError';
+    this.code = code;
+  }
+}
+
+export type ConsentStatus = 'pending' | 'confirmed' | 'declined';
+
+export const CONSENT_STATUS_LABELS: Record<ConsentStatus, string> = {
+  pending: 'Awaiting customer',
+  confirmed: 'Customer confirmed',
+  declined: 'Customer declined',
+};
+
+export interface CustomerDetails {
+  name: string;
+  email: string;
+}
+
+export const getConsentLink = (applicationId: string): string => {
+  return `${window.location.origin}/consent/${applicationId}`;
+};
+
+/**
+ * Email the customer a sign-in link that opens the consent page for their application.
+ * Firebase Auth sends it, so only the customer's inbox ever holds the link.
+ */
+export const sendConsentEmail = async (applicationId: string, customerEmail: string): Promise<void> => {
+  await sendSignInLinkToEmail(auth, customerEmail, {
+    url: getConsentLink(applicationId),
+    handleCodeInApp: true,
+  });
+};
+
+/**
+ * Submit an application for a customer. The customer's name and email go on the application;
+ * the installer's account and company are recorded alongside. The consent email is sent right away;
+ * when that fails the application still stands and the installer can resend it from the dashboard.
+ */
+export const createInstallerApplication = async (
+  installer: UserProfile,
+  customer: CustomerDetails,
+  data: ApplicationData,
+  reservedApplicationId?: string
+): Promise<{ applicationId: string; consentEmailSent: boolean }> => {
+  if (!hasPermission(installer.role, 'applications:submit_on_behalf')) {
+    throw new ConsentError('NOT_AUTHORIZED', 'Only installer accounts can submit for customers');
+  }
+
+  // Auth tokens carry the address in lower case, and the rules compare against it
+  const customerEmail = customer.email.trim().toLowerCase();
+  const applicationId = await createApplication(installer.uid, customer.name, customerEmail, {
+    ...data,
+    installerCompany: installer.organization || data.installerCompany || '',
+    installerId: installer.uid,
+  }, reservedApplicationId);
+
+  try {
+    await sendConsentEmail(applicationId, customerEmail);
+    return { applicationId, consentEmailSent: true };
+  } catch (error) {
+    console.warn('Consent email could not be sent:', error);
+    return { applicationId, consentEmailSent: false };
+  }
+};
+
+export const isConsentSignInLink = (href: string): boolean => isSignInWithEmailLink(auth, href);
+
+// The customer types their address again, so a forwarded link does not sign in whoever opens it
+export const completeConsentSignIn = async (email: string, href: string): Promise<void> => {
+  await signInWithEmailLink(auth, email.trim().toLowerCase(), href);
+};
+
+/**
+ * The application as the signed-in customer sees it. Null when it does not exist, and a NOT_AUTHORIZED
+ * error when the signed-in account is not the customer it was filed for.
+ */
+export const getConsentApplication = async (applicationId: string): Promise<Application | null> => {
+  let snapshot;
+  try {
+    snapshot = await get(ref(database, `applications/${applicationId}`));
+  } catch {
+    throw new ConsentError('NOT_AUTHORIZED', 'Sign in with the link from your email to view this application');
+  }
+  if (!snapshot.exists() || !snapshot.val().installerId) return null;
+  return { id: applicationId, ...snapshot.val() };
+};
+
+/**
+ * Record the customer's answer. The rules accept it only from the verified email on the application.
+ */
+export const respondToConsent = async (applicationId: string, confirmed: boolean): Promise<ConsentStatus> => {
+  const application = await getConsentApplication(applicationId);
+  if (!application) {
+    throw new ConsentError('NOT_FOUND', 'This application could not be found');
+  }
+  if (application.consentStatus !== 'pending') {
+    throw new ConsentError('ALREADY_RESPONDED', 'This application has already been answered');
+  }
+
+  const status: ConsentStatus = confirmed ? 'confirmed' : 'declined';
+  await update(ref(database, `applications/${applicationId}`), {
+    consentStatus: status,
+    consentRespondedAt: new Date().toISOString(),
+  });
+  return status;
+};
+
+export const subscribeInstallerApplications = (
+  installerId: string,
+  callback: (apps: Application[]) => void
+): () => void => {
+  const appsQuery = query(ref(database, 'applications'), orderByChild('installerId'), equalTo(installerId));
+  return onValue(appsQuery, (snapshot) => {
+    const apps: Application[] = [];
+    snapshot.forEach((child) => {
+      apps.push({ id: child.key!, ...child.val() });
+    });
+    apps.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    callback(apps);
+  });
+};
+
+export interface InstallerStats {
+  total: number;
+  approved: number;
+  rejected: number;
+  // Not yet approved or rejected
+  inProgress: number;
+  awaitingConsent: number;
+  // Share of decided applications that were approved, 0-100; null until something is decided
+  approvalRate: number | null;
+}
+
+export const getInstallerStats = (apps: Application[]): InstallerStats => {
+  const approved = apps.filter((app) => app.status === 'approved').length;
+  const rejected = apps.filter((app) => app.status === 'rejected').length;
+  const decided = approved + rejected;
+  return {
+    total: apps.length,
+    approved,
+    rejected,
+    inProgress: apps.length - decided,
+    awaitingConsent: apps.filter((app) => app.consentStatus === 'pending').length,
+    approvalRate: decided > 0 ? Math.round((approved / decided) * 100) : null,
+  };
+};
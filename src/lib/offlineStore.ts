@@ -0,0 +1,132 @@
+// IndexedDB storage for working without a connection: Apply form drafts (with the photo),
+// submissions waiting to be sent, and the last-seen profile of each signed-in user.
+// Files are kept as Blobs, which IndexedDB stores natively.
+
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { ApplicationData } from './applicationService';
+import type { CustomerDetails } from './installerPortal';
+import type { UserProfile } from '@/contexts/AuthContext';
+
+export interface StoredImage {
+  blob: Blob;
+  name: string;
+  type: string;
+}
+
+export interface ApplicationDraft {
+  userId: string;
+  // Form fields as typed, so partially filled numbers survive a reload
+  formData: Record<string, string>;
+  image?: StoredImage;
+  updatedAt: string;
+}
+
+export interface QueuedSubmission {
+  id: string;
+  // Key reserved for the application when queued, so a resend can tell it was already created
+  applicationId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  // Set when an installer filed for a homeowner
+  customer?: CustomerDetails;
+  data: Omit<ApplicationData, 'imageFile'>;
+  image?: StoredImage;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  // Set once the submission has failed too often; it waits for the user to retry or discard it
+  failedAt?: string;
+}
+
+interface OfflineDB extends DBSchema {
+  drafts: {
+    key: string;
+    value: ApplicationDraft;
+  };
+  submissions: {
+    key: string;
+    value: QueuedSubmission;
+    indexes: { userId: string };
+  };
+  profiles: {
+    key: string;
+    value: UserProfile;
+  };
+}
+
+const DB_NAME = 'toproof-offline';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBPDatabase<OfflineDB>> | null = null;
+
+const getDB = (): Promise<IDBPDatabase<OfflineDB>> => {
+  dbPromise ??= openDB<OfflineDB>(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      db.createObjectStore('drafts', { keyPath: 'userId' });
+      db.createObjectStore('submissions', { keyPath: 'id' }).createIndex('userId', 'userId');
+      db.createObjectStore('profiles', { keyPath: 'uid' });
+    },
+  });
+  return dbPromise;
+};
+
+export const toStoredImage = (file: File): StoredImage => ({ blob: file, name: file.name, type: file.type });
+
+export const toFile = (image: StoredImage): File => new File([image.blob], image.name, { type: image.type });
+
+// Drafts: one per user, overwritten as the form changes
+
+export const saveDraft = async (draft: ApplicationDraft): Promise<void> => {
+  await (await getDB()).put('drafts', draft);
+};
+
+export const getDraft = async (userId: string): Promise<ApplicationDraft | undefined> => {
+  return (await getDB()).get('drafts', userId);
+};
+
+export const deleteDraft = async (userId: string): Promise<void> => {
+  await (await getDB()).delete('drafts', userId);
+};
+
+// Submission queue, sent in queuedAt order
+
+export const enqueueSubmission = async (
+  submission: Omit<QueuedSubmission, 'id' | 'queuedAt' | 'attempts'>
+): Promise<QueuedSubmission> => {
+  const queued: QueuedSubmission = {
+    ...submission,
+    id: crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await (await getDB()).put('submissions', queued);
+  return queued;
+};
+
+export const getQueuedSubmissions = async (userId: string): Promise<QueuedSubmission[]> => {
+  const submissions = await (await getDB()).getAllFromIndex('submissions', 'userId', userId);
+  return submissions.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const updateQueuedSubmission = async (submission: QueuedSubmission): Promise<void> => {
+  await (await getDB()).put('submissions', submission);
+};
+
+export const removeQueuedSubmission = async (id: string): Promise<void> => {
+  await (await getDB()).delete('submissions', id);
+};
+
+// Profiles, so the app can start signed in while the database is unreachable
+
+export const saveCachedProfile = async (profile: UserProfile): Promise<void> => {
+  await (await getDB()).put('profiles', profile);
+};
+
+export const getCachedProfile = async (uid: string): Promise<UserProfile | undefined> => {
+  return (await getDB()).get('profiles', uid);
+};
+
+export const deleteCachedProfile = async (uid: string): Promise<void> => {
+  await (await getDB()).delete('profiles', uid);
+};
@@ -0,0 +1,201 @@
+// In-browser solar panel detection with ONNX Runtime Web
+// Inference runs in src/workers/panelDetector.worker.ts so the UI stays responsive.
+// The YOLOv8 model is served from /models by default; override with VITE_ONNX_MODEL_URL and pin
+// its SHA-256 with VITE_ONNX_MODEL_SHA256. No model ships with the app: when none can be loaded,
+// runDetection falls back to the simulator and says so in the QC notes.
+
+import type { DetectionProvider, DetectionRequest, DetectionResult } from './aiDetection';
+import { DEFAULT_SATELLITE_ZOOM, fetchSatelliteImage } from './satelliteImagery';
+import { DETECTION_FRAME_SIZE, toLegacyBboxString, type BoxDetection } from './detectionGeometry';
+import { estimateCapacityKw, estimatePvAreaSqm, getImageGeoreference } from './geoMeasurement';
+
+export interface DetectorOptions {
+  modelUrl: string;
+  // Hex SHA-256 the downloaded model must match; skipped when empty
+  modelSha256: string;
+  inputSize: number;
+  scoreThreshold: number;
+  iouThreshold: number;
+  maxDetections: number;
+}
+
+// Box in original image space, normalised to 0..1
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+}
+
+export interface DetectorRequestMessage {
+  id: number;
+  bitmap: ImageBitmap;
+  options: DetectorOptions;
+}
+
+export type DetectorResponseMessage =
+  | { id: number; type: 'result'; boxes: NormalizedBox[]; imageWidth: number; imageHeight: number; inferenceMs: number }
+  | { id: number; type: 'error'; code: OnnxDetectorErrorCode; message: string };
+
+type DetectorResult = Extract<DetectorResponseMessage, { type: 'result' }>;
+
+// MODEL_UNAVAILABLE: the model is missing or failed its checksum; INFERENCE: anything else
+export type OnnxDetectorErrorCode = 'MODEL_UNAVAILABLE' | 'INFERENCE';
+
+export class OnnxDetectorError extends Error {
+  readonly code: OnnxDetectorErrorCode;
+
+  constructor(code: OnnxDetectorErrorCode, message: string) {
+    super(message);
+    this.name = 'OnnxDetectorError';
+    this.code = code;
+  }
+}
+
+const detectorOptions: DetectorOptions = {
+  modelUrl: import.meta.env.VITE_ONNX_MODEL_URL || '/models/solar-panel-yolov8n.onnx',
+  modelSha256: (import.meta.env.VITE_ONNX_MODEL_SHA256 || '').toLowerCase(),
+  inputSize: 640,
+  scoreThreshold: 0.35,
+  iouThreshold: 0.45,
+  maxDetections: 100,
+};
+
+export const configureOnnxDetector = (options: Partial<DetectorOptions>): void => {
+  Object.assign(detectorOptions, options);
+};
+
+const REFERENCE_SIZE = DETECTION_FRAME_SIZE;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (result: DetectorResult) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/panelDetector.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<DetectorResponseMessage>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+
+    if (message.type === 'result') {
+      request.resolve(message);
+    } else {
+      request.reject(new OnnxDetectorError(message.code, message.message));
+    }
+  };
+  worker.onerror = (event) => {
+    // A crashed worker fails every in-flight request; the next call starts a fresh one
+    pending.forEach(({ reject }) => reject(new OnnxDetectorError('INFERENCE', event.message || 'Detection worker crashed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const loadImageBitmap = async (request: DetectionRequest): Promise<{ bitmap: ImageBitmap; source: string }> => {
+  if (request.imageFile) {
+    return { bitmap: await createImageBitmap(request.imageFile), source: 'Manual Upload' };
+  }
+
+  if (request.imageUrl) {
+    const response = await fetch(request.imageUrl);
+    if (!response.ok) {
+      throw new Error(`Could not load rooftop image (${response.status})`);
+    }
+    return { bitmap: await createImageBitmap(await response.blob()), source: 'Manual Upload' };
+  }
+
+  const tile = await fetchSatelliteImage({ latitude: request.lat, longitude: request.lon, zoom: DEFAULT_SATELLITE_ZOOM });
+  if (!tile) {
+    throw new Error('No rooftop image available and satellite imagery could not be fetched');
+  }
+  return { bitmap: await createImageBitmap(tile), source: 'Mapbox Satellite' };
+};
+
+export const detectPanels = async (bitmap: ImageBitmap): Promise<DetectorResult> => {
+  const instance = getWorker();
+  const id = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const message: DetectorRequestMessage = { id, bitmap, options: { ...detectorOptions } };
+    instance.postMessage(message, [bitmap]);
+  });
+};
+
+const buildQcNotes = (confidence: number, panelCount: number): { qcStatus: DetectionResult['qc_status']; qcNotes: string[] } => {
+  const qcNotes = ['in-browser inference'];
+  let qcStatus: DetectionResult['qc_status'] = 'VERIFIABLE';
+
+  if (panelCount === 0) {
+    qcNotes.push('no panel detections above threshold');
+  } else if (confidence > 0.85) {
+    qcNotes.push('distinct module grid detected');
+  } else if (confidence > 0.6) {
+    qcNotes.push('panel array partially visible');
+  } else {
+    qcNotes.push('low confidence detections');
+    qcStatus = 'NOT_VERIFIABLE';
+  }
+
+  if (panelCount > 10) {
+    qcNotes.push('large installation detected');
+  }
+
+  return { qcStatus, qcNotes };
+};
+
+export const runOnnxDetection = async (request: DetectionRequest): Promise<DetectionResult> => {
+  const started = performance.now();
+  const { bitmap, source } = await loadImageBitmap(request);
+  const { boxes } = await detectPanels(bitmap);
+
+  const panelCount = boxes.length;
+  const confidence = panelCount > 0
+    ? boxes.reduce((sum, box) => sum + box.confidence, 0) / panelCount
+    : 0;
+
+  const { qcStatus, qcNotes } = buildQcNotes(confidence, panelCount);
+  const detections: BoxDetection[] = boxes.map(box => ({
+    type: 'bbox',
+    x: Math.round(box.x * REFERENCE_SIZE),
+    y: Math.round(box.y * REFERENCE_SIZE),
+    width: Math.round(box.width * REFERENCE_SIZE),
+    height: Math.round(box.height * REFERENCE_SIZE),
+    confidence: Math.round(box.confidence * 100) / 100,
+  }));
+  const pvArea = estimatePvAreaSqm(detections, request.georeference ?? getImageGeoreference(request.lat, request.imageUrl));
+
+  return {
+    sample_id: request.sampleId,
+    lat: request.lat,
+    lon: request.lon,
+    has_solar: panelCount > 0,
+    confidence: Math.round(confidence * 100) / 100,
+    panel_count_est: panelCount,
+    pv_area_sqm_est: Math.round(pvArea * 10) / 10,
+    capacity_kw_est: Math.round(estimateCapacityKw(pvArea) * 10) / 10,
+    qc_status: qcStatus,
+    qc_notes: qcNotes,
+    bbox_or_mask: toLegacyBboxString(detections),
+    detections,
+    image_metadata: {
+      source,
+      capture_date: new Date().toISOString().split('T')[0],
+    },
+    processing_time_ms: Math.round(performance.now() - started),
+  };
+};
+
+export const onnxBrowserProvider: DetectionProvider = {
+  id: 'onnx-browser',
+  label: 'In-browser ONNX (WASM)',
+  modelVersion: 'yolov8n-onnx',
+  detect: runOnnxDetection,
+};
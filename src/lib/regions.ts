@@ -0,0 +1,25 @@
+// States accepted as an application region; 'Other' covers everything not listed
+export const REGIONS = [
+  'Delhi', 'Maharashtra', 'Karnataka', 'Tamil Nadu', 'Gujarat',
+  'Rajasthan', 'Uttar Pradesh', 'Madhya Pradesh', 'West Bengal',
+  'Andhra Pradesh', 'Telangana', 'Kerala', 'Punjab', 'Haryana', 'Other'
+];
+
+// Loose bounding box around India, for catching swapped or mistyped coordinates
+export const INDIA_BOUNDS = {
+  minLatitude: 6.5,
+  maxLatitude: 37.5,
+  minLongitude: 68.0,
+  maxLongitude: 97.5,
+};
+
+export const isWithinIndia = (latitude: number, longitude: number): boolean => {
+  return latitude >= INDIA_BOUNDS.minLatitude && latitude <= INDIA_BOUNDS.maxLatitude &&
+    longitude >= INDIA_BOUNDS.minLongitude && longitude <= INDIA_BOUNDS.maxLongitude;
+};
+
+// Canonical spelling of a region name, or null when it is not one we know
+export const normalizeRegion = (value: string): string | null => {
+  const wanted = value.trim().toLowerCase();
+  return REGIONS.find((region) => region.toLowerCase() === wanted) ?? null;
+};
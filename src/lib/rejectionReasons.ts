@@ -0,0 +1,74 @@
+// Catalogue of structured reasons officers pick when rejecting or asking for more information
+
+export type RejectionReasonCode =
+  | 'IMAGE_UNCLEAR'
+  | 'NO_SOLAR_VISIBLE'
+  | 'COORDINATES_MISMATCH'
+  | 'CAPACITY_MISMATCH'
+  | 'DUPLICATE_APPLICATION'
+  | 'INCOMPLETE_DETAILS'
+  | 'INELIGIBLE'
+  | 'OTHER';
+
+export interface RejectionReason {
+  code: RejectionReasonCode;
+  label: string;
+  description: string;
+  // Whether the applicant can reasonably fix this with a new photo or corrected details
+  fixable: boolean;
+}
+
+export const REJECTION_REASONS: RejectionReason[] = [
+  {
+    code: 'IMAGE_UNCLEAR',
+    label: 'Image unclear',
+    description: 'The rooftop photo is blurred, obstructed or too low resolution to verify panels.',
+    fixable: true,
+  },
+  {
+    code: 'NO_SOLAR_VISIBLE',
+    label: 'No solar installation visible',
+    description: 'No panels could be seen at the submitted location.',
+    fixable: true,
+  },
+  {
+    code: 'COORDINATES_MISMATCH',
+    label: 'Coordinates mismatch',
+    description: 'The coordinates do not match the address or the rooftop in the photo.',
+    fixable: true,
+  },
+  {
+    code: 'CAPACITY_MISMATCH',
+    label: 'Capacity mismatch',
+    description: 'The claimed capacity does not match the detected installation.',
+    fixable: true,
+  },
+  {
+    code: 'DUPLICATE_APPLICATION',
+    label: 'Duplicate application',
+    description: 'The same rooftop or photo has already been submitted.',
+    fixable: false,
+  },
+  {
+    code: 'INCOMPLETE_DETAILS',
+    label: 'Incomplete details',
+    description: 'Required installation details are missing or inconsistent.',
+    fixable: true,
+  },
+  {
+    code: 'INELIGIBLE',
+    label: 'Not eligible',
+    description: 'The installation does not meet the scheme eligibility criteria.',
+    fixable: false,
+  },
+  {
+    code: 'OTHER',
+    label: 'Other',
+    description: 'See officer notes for details.',
+    fixable: true,
+  },
+];
+
+const reasonsByCode = new Map(REJECTION_REASONS.map((reason) => [reason.code, reason]));
+
+export const getRejectionReasonLabel = (code: string): string => reasonsByCode.get(code as RejectionReasonCode)?.label || code;
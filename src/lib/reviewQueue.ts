@@ -0,0 +1,212 @@
+// Officer work queue: assignment (by region or round-robin), claim/release, and soft review locks.
+// Locks live at reviewLocks/{applicationId}; they never block a review, they only tell other officers
+// who has the application open.
+
+import {
+  ref,
+  get,
+  update,
+  query,
+  orderByChild,
+  equalTo,
+  runTransaction,
+  onValue,
+  remove,
+  onDisconnect,
+} from 'firebase/database';
+import { database } from './firebase';
+import { buildAuditEventUpdate, buildAuditDiff } from './auditTrail';
+import type { Application } from './applicationService';
+import type { UserProfile } from '@/contexts/AuthContext';
+
+export type ReviewQueueErrorCode = 'NOT_FOUND' | 'ALREADY_ASSIGNED' | 'NOT_ASSIGNEE' | 'NO_OFFICERS';
+
+export class ReviewQueueError extends Error {
+  readonly code: ReviewQueueErrorCode;
+
+  constructor(code: ReviewQueueErrorCode, message: string) {
+    super(message);
+    this.name = 'ReviewQueueError';
+    this.code = code;
+  }
+}
+
+export interface ReviewOfficer {
+  uid: string;
+  name: string;
+}
+
+export interface ReviewLock {
+  officerId: string;
+  officerName: string;
+  lockedAt: string;
+}
+
+// Locks older than this are treated as abandoned
+export const REVIEW_LOCK_TTL_MS = 15 * 60 * 1000;
+
+// Index key for "assigned to" queries, ordered by creation time like the other application indexes
+export const getAssigneeIndexKey = (assignedTo: string | undefined, createdAt: string): string => {
+  return `${assignedTo || ''}|${createdAt}`;
+};
+
+export const getOfficers = async (): Promise<UserProfile[]> => {
+  const snapshot = await get(query(ref(database, 'users'), orderByChild('role'), equalTo('officer')));
+  const officers: UserProfile[] = [];
+  snapshot.forEach((child) => {
+    officers.push({ ...child.val(), uid: child.key! });
+  });
+  return officers.sort((a, b) => a.uid.localeCompare(b.uid));
+};
+
+const getApplicationSnapshot = async (applicationId: string): Promise<Application> => {
+  const snapshot = await get(ref(database, `applications/${applicationId}`));
+  if (!snapshot.exists()) {
+    throw new ReviewQueueError('NOT_FOUND', 'Application not found');
+  }
+  return { id: applicationId, ...snapshot.val() };
+};
+
+const writeAssignment = async (
+  app: Application,
+  officer: ReviewOfficer | null,
+  actorId: string
+): Promise<void> => {
+  const now = new Date().toISOString();
+  const assignment = {
+    assignedTo: officer?.uid || '',
+    assignedToName: officer?.name || '',
+    assignedAt: officer ? now : '',
+  };
+
+  const fields = {
+    ...assignment,
+    assigneeCreatedAt: getAssigneeIndexKey(assignment.assignedTo, app.createdAt),
+    updatedAt: now,
+  };
+  await update(ref(database), {
+    ...Object.fromEntries(Object.entries(fields).map(([field, value]) => [`applications/${app.id}/${field}`, value])),
+    ...buildAuditEventUpdate(
+      app.id,
+      'reassigned',
+      actorId,
+      now,
+      buildAuditDiff<Application>(app, assignment, ['assignedTo', 'assignedToName'])
+    ),
+  });
+};
+
+export const assignApplication = async (
+  applicationId: string,
+  officer: ReviewOfficer,
+  actorId: string
+): Promise<void> => {
+  const app = await getApplicationSnapshot(applicationId);
+  if (app.assignedTo === officer.uid) return;
+  await writeAssignment(app, officer, actorId);
+};
+
+/**
+ * Assign to an officer covering the application's region, falling back to all officers.
+ * Candidates take turns through a per-region round-robin counter.
+ */
+export const autoAssignApplication = async (applicationId: string, actorId: string): Promise<ReviewOfficer> => {
+  const app = await getApplicationSnapshot(applicationId);
+  const officers = await getOfficers();
+  if (officers.length === 0) {
+    throw new ReviewQueueError('NO_OFFICERS', 'No officers are available for assignment');
+  }
+
+  const regional = officers.filter((officer) => officer.region && officer.region === app.region);
+  const candidates = regional.length > 0 ? regional : officers;
+  const counterKey = regional.length > 0 ? encodeURIComponent(app.region).replace(/\./g, '%2E') : '_all';
+
+  const { snapshot } = await runTransaction(
+    ref(database, `reviewQueue/roundRobin/${counterKey}`),
+    (current) => ((current as number) || 0) + 1
+  );
+  const chosen = candidates[((snapshot.val() as number) - 1) % candidates.length];
+
+  const officer = { uid: chosen.uid, name: chosen.name };
+  await writeAssignment(app, officer, actorId);
+  return officer;
+};
+
+/**
+ * Take an unassigned application (or one already assigned to this officer)
+ */
+export const claimApplication = async (applicationId: string, officer: ReviewOfficer): Promise<void> => {
+  const app = await getApplicationSnapshot(applicationId);
+  if (app.assignedTo === officer.uid) return;
+  if (app.assignedTo) {
+    throw new ReviewQueueError('ALREADY_ASSIGNED', `Already assigned to ${app.assignedToName || app.assignedTo}`);
+  }
+
+  // The rules only let officers take an application that is still unassigned, so when two officers
+  // claim at once the second update is refused as a whole
+  try {
+    await writeAssignment(app, officer, officer.uid);
+  } catch (error) {
+    const current = await getApplicationSnapshot(applicationId);
+    if (current.assignedTo && current.assignedTo !== officer.uid) {
+      throw new ReviewQueueError(
+        'ALREADY_ASSIGNED',
+        `Already assigned to ${current.assignedToName || current.assignedTo}`
+      );
+    }
+    throw error;
+  }
+};
+
+export const releaseApplication = async (applicationId: string, officerId: string): Promise<void> => {
+  const app = await getApplicationSnapshot(applicationId);
+  if (app.assignedTo !== officerId) {
+    throw new ReviewQueueError('NOT_ASSIGNEE', 'Only the assigned officer can release this application');
+  }
+  await writeAssignment(app, null, officerId);
+};
+
+export const isLockActive = (lock: ReviewLock | null): lock is ReviewLock => {
+  return !!lock && Date.now() - new Date(lock.lockedAt).getTime() < REVIEW_LOCK_TTL_MS;
+};
+
+/**
+ * Mark an application as being reviewed, unless another officer already holds an active lock.
+ * Returns a release function, or null when someone else is reviewing. The lock is also removed
+ * when the officer disconnects.
+ */
+export const acquireReviewLock = async (
+  applicationId: string,
+  officer: ReviewOfficer
+): Promise<(() => Promise<void>) | null> => {
+  const lockRef = ref(database, `reviewLocks/${applicationId}`);
+  const lock: ReviewLock = {
+    officerId: officer.uid,
+    officerName: officer.name,
+    lockedAt: new Date().toISOString(),
+  };
+
+  const { committed } = await runTransaction(lockRef, (current: ReviewLock | null) =>
+    isLockActive(current) && current.officerId !== officer.uid ? undefined : lock
+  );
+  if (!committed) return null;
+  await onDisconnect(lockRef).remove();
+
+  return async () => {
+    await onDisconnect(lockRef).cancel();
+    // Leave the lock alone if another officer has taken it over since
+    const current = await get(lockRef);
+    if (current.val()?.officerId === officer.uid) {
+      await remove(lockRef);
+    }
+  };
+};
+
+export const subscribeReviewLock = (
+  applicationId: string,
+  callback: (lock: ReviewLock | null) => void
+): () => void => {
+  return onValue(ref(database, `reviewLocks/${applicationId}`), (snapshot) => {
+    callback(snapshot.val());
+  });
+};
@@ -0,0 +1,81 @@
+// Admin approval of elevated roles. Sign-up stores the asked-for role as users/{uid}/requestedRole
+// and keeps the account an applicant until an admin approves or declines the request.
+
+import { ref, update, query, orderByChild, startAt, onValue } from 'firebase/database';
+import { database } from './firebase';
+import { assertUserAdmin, getUserProfile, recordAdminEvent } from './userManagement';
+import type { UserProfile, UserRole } from '@/contexts/AuthContext';
+
+export type RoleRequestErrorCode = 'NOT_FOUND' | 'NO_REQUEST' | 'NOT_AUTHORIZED';
+
+export class RoleRequestError extends Error {
+  readonly code: RoleRequestErrorCode;
+
+  constructor(code: RoleRequestErrorCode, message: string) {
+    super(message);
+    this.name = 'RoleRequestError';
+    this.code = code;
+  }
+}
+
+// Same check as the rest of the admin console, reported as a role request error
+const assertAdmin = async (adminId: string): Promise<void> => {
+  try {
+    await assertUserAdmin(adminId);
+  } catch {
+    throw new RoleRequestError('NOT_AUTHORIZED', 'Only administrators can approve roles');
+  }
+};
+
+/**
+ * Live list of profiles with an open role request, oldest request first
+ */
+export const subscribeRoleRequests = (callback: (requests: UserProfile[]) => void): () => void => {
+  // Strings sort after null, so starting at '' skips profiles without a request
+  const requestsQuery = query(ref(database, 'users'), orderByChild('requestedRole'), startAt(''));
+
+  return onValue(requestsQuery, (snapshot) => {
+    const requests: UserProfile[] = [];
+    snapshot.forEach((child) => {
+      requests.push({ ...child.val(), uid: child.key! });
+    });
+    requests.sort((a, b) => (a.roleRequestedAt || '').localeCompare(b.roleRequestedAt || ''));
+    callback(requests);
+  });
+};
+
+const resolveRoleRequest = async (uid: string, adminId: string, approve: boolean): Promise<UserRole> => {
+  await assertAdmin(adminId);
+
+  const profile = await getUserProfile(uid);
+  if (!profile) {
+    throw new RoleRequestError('NOT_FOUND', 'User not found');
+  }
+  if (!profile.requestedRole) {
+    throw new RoleRequestError('NO_REQUEST', 'This user has no pending role request');
+  }
+
+  const role = approve ? profile.requestedRole : profile.role;
+  await update(ref(database, `users/${uid}`), {
+    role,
+    requestedRole: null,
+    roleRequestedAt: null,
+    roleReviewedBy: adminId,
+    roleReviewedAt: new Date().toISOString(),
+  });
+  await recordAdminEvent(approve ? 'role_request_approved' : 'role_request_declined', uid, adminId, {
+    role: { from: profile.role, to: role },
+    requestedRole: { from: profile.requestedRole, to: null },
+  });
+  return role;
+};
+
+// Grant the requested role; returns the role now held
+export const approveRoleRequest = (uid: string, adminId: string): Promise<UserRole> => {
+  return resolveRoleRequest(uid, adminId, true);
+};
+
+// Close the request and leave the account with its current role
+export const declineRoleRequest = (uid: string, adminId: string): Promise<UserRole> => {
+  return resolveRoleRequest(uid, adminId, false);
+};
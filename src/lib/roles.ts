@@ -0,0 +1,61 @@
+// Roles, their permissions, and the groupings shared by routing and workflow checks
+// Stored role ids stay 'user' (applicant) and 'officer' (field officer) so existing profiles keep working.
+
+import type { UserRole } from '@/contexts/AuthContext';
+
+export const USER_ROLES: readonly UserRole[] = ['user', 'installer', 'officer', 'supervisor', 'auditor', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  user: 'Applicant',
+  installer: 'Installer',
+  officer: 'Field Officer',
+  supervisor: 'Supervisor',
+  auditor: 'Auditor',
+  admin: 'Administrator',
+};
+
+export type Permission =
+  | 'applications:create'
+  | 'applications:submit_on_behalf'
+  | 'applications:view_all'
+  | 'applications:review'
+  | 'applications:sign_off'
+  | 'applications:reassign'
+  | 'applications:export'
+  | 'analytics:view'
+  | 'system:maintain'
+  | 'users:manage';
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: ['applications:create'],
+  installer: ['applications:create', 'applications:submit_on_behalf'],
+  officer: ['applications:view_all', 'applications:review', 'applications:export', 'analytics:view'],
+  supervisor: [
+    'applications:view_all',
+    'applications:review',
+    'applications:sign_off',
+    'applications:reassign',
+    'applications:export',
+    'analytics:view',
+    'system:maintain',
+  ],
+  // Auditors see everything but change nothing
+  auditor: ['applications:view_all', 'applications:export', 'analytics:view'],
+  admin: ['applications:view_all', 'applications:export', 'analytics:view', 'system:maintain', 'users:manage'],
+};
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean => {
+  return !!role && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false);
+};
+
+// Roles granted on sign-up without review; anything else waits for an admin
+export const SELF_SERVICE_ROLES: readonly UserRole[] = ['user'];
+
+export const requiresRoleApproval = (role: UserRole): boolean => !SELF_SERVICE_ROLES.includes(role);
+
+// Landing page after sign-in
+export const getHomePath = (role?: UserRole): string => {
+  if (hasPermission(role, 'applications:view_all')) return '/officer-dashboard';
+  if (hasPermission(role, 'applications:submit_on_behalf')) return '/installer';
+  return '/dashboard';
+};
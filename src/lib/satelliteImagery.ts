@@ -24,6 +24,12 @@ export const removeMapboxToken = (): void => {
   localStorage.removeItem(MAPBOX_TOKEN_KEY);
 };
 
+// Defaults for rooftop imagery; detection geometry is measured against this tile
+export const DEFAULT_SATELLITE_ZOOM = 18;
+export const DEFAULT_SATELLITE_SIZE = 640;
+// Static images are requested @2x, so each logical pixel is 2x2 image pixels
+export const SATELLITE_IMAGE_SCALE = 2;
+
 export interface SatelliteImageOptions {
   latitude: number;
   longitude: number;
@@ -44,9 +50,9 @@ export const getSatelliteImageUrl = (options: SatelliteImageOptions): string | n
   const {
     latitude,
     longitude,
-    zoom = 18, // High zoom for rooftop detail
-    width = 640,
-    height = 640,
+    zoom = DEFAULT_SATELLITE_ZOOM, // High zoom for rooftop detail
+    width = DEFAULT_SATELLITE_SIZE,
+    height = DEFAULT_SATELLITE_SIZE,
     bearing = 0,
     pitch = 0,
   } = options;
@@ -61,11 +67,28 @@ export const getSatelliteImageUrl = (options: SatelliteImageOptions): string | n
   const style = 'mapbox/satellite-streets-v12';
   
   // Mapbox Static Images API URL
-  const url = `https://api.mapbox.com/styles/v1/${style}/static/${longitude},${latitude},${zoom},${bearing},${pitch}/${width}x${height}@2x?access_token=${token}`;
+  const url = `https://api.mapbox.com/styles/v1/${style}/static/${longitude},${latitude},${zoom},${bearing},${pitch}/${width}x${height}@${SATELLITE_IMAGE_SCALE}x?access_token=${token}`;
   
   return url;
 };
 
+/**
+ * Read zoom, centre and size back out of a Mapbox Static Image URL
+ */
+export const parseSatelliteImageUrl = (url: string): Required<Omit<SatelliteImageOptions, 'bearing' | 'pitch'>> & { scale: number } | null => {
+  const match = url.match(/\/static\/(-?[\d.]+),(-?[\d.]+),([\d.]+)(?:,[-\d.]+){0,2}\/(\d+)x(\d+)(?:@(\d)x)?/);
+  if (!match) return null;
+
+  return {
+    longitude: parseFloat(match[1]),
+    latitude: parseFloat(match[2]),
+    zoom: parseFloat(match[3]),
+    width: parseInt(match[4]),
+    height: parseInt(match[5]),
+    scale: match[6] ? parseInt(match[6]) : 1,
+  };
+};
+
 /**
  * Fetch satellite image as a Blob
  */
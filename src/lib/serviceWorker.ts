@@ -0,0 +1,12 @@
+// Registers public/sw.js, which caches the app shell so Apply still opens without a connection.
+// Production builds only: in development the worker would serve stale modules over Vite's.
+
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+};
@@ -0,0 +1,207 @@
+// Applications submitted while offline wait in IndexedDB (see offlineStore) and are sent with
+// createApplication once the connection is back. Status is published to subscribers such as
+// the Navbar indicator. Each queued submission carries the application key it will be created
+// under, so a resend after a partial failure finds the existing record instead of duplicating it.
+
+import {
+  applicationExists,
+  createApplication,
+  processApplication,
+  reserveApplicationId,
+  type ApplicationData,
+} from './applicationService';
+import { createInstallerApplication } from './installerPortal';
+import { ImageUploadError } from './imageStorage';
+import {
+  enqueueSubmission,
+  getQueuedSubmissions,
+  removeQueuedSubmission,
+  toFile,
+  toStoredImage,
+  updateQueuedSubmission,
+  type QueuedSubmission,
+} from './offlineStore';
+import type { CustomerDetails } from './installerPortal';
+import type { UserProfile } from '@/contexts/AuthContext';
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  // Submissions still waiting for the signed-in user
+  pending: number;
+  // Submissions set aside after repeated failures, waiting for the user to retry or discard them
+  failed: number;
+  lastError?: string;
+  lastSyncedAt?: string;
+}
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  failed: 0,
+};
+
+// Failures other than a lost connection are retried this many times before being set aside
+export const MAX_SUBMISSION_ATTEMPTS = 3;
+
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach((listener) => listener(status));
+};
+
+export const subscribeSyncStatus = (callback: (status: SyncStatus) => void): () => void => {
+  listeners.add(callback);
+  callback(status);
+  return () => {
+    listeners.delete(callback);
+  };
+};
+
+export const setOnline = (online: boolean) => {
+  if (online !== status.online) setStatus({ online });
+};
+
+export const isOffline = (): boolean => !navigator.onLine;
+
+export const refreshPendingCount = async (userId: string): Promise<number> => {
+  const submissions = await getQueuedSubmissions(userId);
+  const failed = submissions.filter((submission) => submission.failedAt).length;
+  const pending = submissions.length - failed;
+  setStatus({ pending, failed });
+  return pending;
+};
+
+export const getFailedSubmissions = async (userId: string): Promise<QueuedSubmission[]> => {
+  return (await getQueuedSubmissions(userId)).filter((submission) => submission.failedAt);
+};
+
+// Put a set-aside submission back in line; the next sync sends it again
+export const retryFailedSubmission = async (submission: QueuedSubmission): Promise<void> => {
+  await updateQueuedSubmission({ ...submission, attempts: 0, failedAt: undefined });
+  await refreshPendingCount(submission.userId);
+};
+
+export const discardFailedSubmission = async (submission: QueuedSubmission): Promise<void> => {
+  await removeQueuedSubmission(submission.id);
+  await refreshPendingCount(submission.userId);
+};
+
+/**
+ * Keep a submission for later. The photo is stored with it, since uploads need the connection too.
+ */
+export const queueSubmission = async (
+  profile: UserProfile,
+  data: ApplicationData,
+  customer?: CustomerDetails
+): Promise<QueuedSubmission> => {
+  const { imageFile, ...fields } = data;
+  const queued = await enqueueSubmission({
+    userId: profile.uid,
+    userName: profile.name,
+    userEmail: profile.email,
+    applicationId: reserveApplicationId(),
+    ...(customer ? { customer } : {}),
+    data: fields,
+    ...(imageFile ? { image: toStoredImage(imageFile) } : {}),
+  });
+  await refreshPendingCount(profile.uid);
+  return queued;
+};
+
+// Errors that say nothing about the submission itself; waiting for a better connection may fix them.
+// A failed photo upload counts too: nothing was written, and the photo is still only in the queue.
+const isConnectionError = (error: unknown): boolean => {
+  if (isOffline() || error instanceof ImageUploadError) return true;
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'string' && /network|unavailable|retry-limit-exceeded|disconnected/i.test(code);
+};
+
+const sendSubmission = async (profile: UserProfile, submission: QueuedSubmission): Promise<string> => {
+  // Created by an earlier attempt that failed before the queue item was removed
+  if (await applicationExists(submission.applicationId)) {
+    return submission.applicationId;
+  }
+
+  const data: ApplicationData = {
+    ...submission.data,
+    ...(submission.image ? { imageFile: toFile(submission.image) } : {}),
+  };
+  if (submission.customer) {
+    const { applicationId } = await createInstallerApplication(profile, submission.customer, data, submission.applicationId);
+    return applicationId;
+  }
+  return createApplication(submission.userId, submission.userName, submission.userEmail, data, submission.applicationId);
+};
+
+const syncQueue = async (profile: UserProfile): Promise<number> => {
+  const submissions = (await getQueuedSubmissions(profile.uid)).filter((submission) => !submission.failedAt);
+  let sent = 0;
+
+  for (const submission of submissions) {
+    if (isOffline()) break;
+    try {
+      const applicationId = await sendSubmission(profile, submission);
+      // The photo is stored and the record written. Removed before processing: the application
+      // exists now, and sending it again would duplicate it
+      await removeQueuedSubmission(submission.id);
+      sent++;
+      await refreshPendingCount(profile.uid);
+      await processApplication(applicationId).catch((error) => {
+        console.warn('Queued application was created but detection did not start:', error);
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Submission failed';
+      setStatus({ lastError: message });
+
+      if (isConnectionError(error)) {
+        // Later submissions would fail the same way; try again on the next sync
+        await updateQueuedSubmission({ ...submission, lastError: message });
+        break;
+      }
+
+      // The server refused this submission; count the attempt and move on to the next one
+      const attempts = submission.attempts + 1;
+      await updateQueuedSubmission({
+        ...submission,
+        attempts,
+        lastError: message,
+        ...(attempts >= MAX_SUBMISSION_ATTEMPTS ? { failedAt: new Date().toISOString() } : {}),
+      });
+    }
+  }
+
+  return sent;
+};
+
+let inFlight: Promise<number> | null = null;
+
+/**
+ * Send the signed-in user's queued submissions in order. Concurrent calls share one run, and
+ * the Web Locks API keeps two open tabs from sending the same queue. Resolves to the number sent.
+ */
+export const syncSubmissions = (profile: UserProfile): Promise<number> => {
+  if (inFlight) return inFlight;
+  if (isOffline()) return refreshPendingCount(profile.uid).then(() => 0);
+
+  const run = async () => {
+    setStatus({ syncing: true, lastError: undefined });
+    try {
+      const sent = navigator.locks
+        ? await navigator.locks.request('toproof-submission-queue', () => syncQueue(profile))
+        : await syncQueue(profile);
+      if (sent > 0) setStatus({ lastSyncedAt: new Date().toISOString() });
+      return sent;
+    } finally {
+      await refreshPendingCount(profile.uid).catch(() => undefined);
+      setStatus({ syncing: false });
+    }
+  };
+
+  inFlight = run().finally(() => {
+    inFlight = null;
+  });
+  return inFlight;
+};
@@ -0,0 +1,173 @@
+// Admin actions on user profiles: roles, regions and account status.
+// Every change is appended to adminAuditLog/{eventId}, which is never updated or removed.
+
+import { ref, get, push, set, update, query, orderByChild, limitToLast, onValue } from 'firebase/database';
+import { database } from './firebase';
+import { buildAuditDiff, AuditFieldChange } from './auditTrail';
+import { hasPermission } from './roles';
+import type { UserProfile, UserRole } from '@/contexts/AuthContext';
+
+export type UserAdminErrorCode = 'NOT_FOUND' | 'NOT_AUTHORIZED' | 'SELF_CHANGE';
+
+export class UserAdminError extends Error {
+  readonly code: UserAdminErrorCode;
+
+  constructor(code: UserAdminErrorCode, message: string) {
+    super(message);
+    this.name = 'UserAdminError';
+    this.code = code;
+  }
+}
+
+export type AdminEventType =
+  | 'role_changed'
+  | 'region_changed'
+  | 'account_disabled'
+  | 'account_enabled'
+  | 'role_request_approved'
+  | 'role_request_declined';
+
+export const ADMIN_EVENT_LABELS: Record<AdminEventType, string> = {
+  role_changed: 'Role changed',
+  region_changed: 'Region changed',
+  account_disabled: 'Account disabled',
+  account_enabled: 'Account re-enabled',
+  role_request_approved: 'Role request approved',
+  role_request_declined: 'Role request declined',
+};
+
+export interface AdminEvent {
+  id: string;
+  type: AdminEventType;
+  targetUserId: string;
+  actorId: string;
+  timestamp: string;
+  diff: Record<string, AuditFieldChange>;
+}
+
+export const getUserProfile = async (uid: string): Promise<UserProfile | null> => {
+  const snapshot = await get(ref(database, `users/${uid}`));
+  return snapshot.exists() ? { ...snapshot.val(), uid } : null;
+};
+
+// Officer and supervisor names are readable by anyone signed in (certificates print them); full profiles are not
+export const getStaffName = async (uid: string): Promise<string | null> => {
+  const snapshot = await get(ref(database, `users/${uid}/name`));
+  return snapshot.val();
+};
+
+// Roles are read from the stored profile, never taken from the caller
+export const assertUserAdmin = async (adminId: string): Promise<void> => {
+  const admin = await getUserProfile(adminId);
+  if (!hasPermission(admin?.role, 'users:manage') || admin?.disabled) {
+    throw new UserAdminError('NOT_AUTHORIZED', 'Only administrators can manage users');
+  }
+};
+
+export const recordAdminEvent = async (
+  type: AdminEventType,
+  targetUserId: string,
+  actorId: string,
+  diff: Record<string, AuditFieldChange> = {}
+): Promise<void> => {
+  await set(push(ref(database, 'adminAuditLog')), {
+    type,
+    targetUserId,
+    actorId,
+    timestamp: new Date().toISOString(),
+    diff,
+  });
+};
+
+// Most recent admin events first
+export const subscribeAdminAuditLog = (
+  callback: (events: AdminEvent[]) => void,
+  limit = 100
+): () => void => {
+  const logQuery = query(ref(database, 'adminAuditLog'), orderByChild('timestamp'), limitToLast(limit));
+  return onValue(logQuery, (snapshot) => {
+    const events: AdminEvent[] = [];
+    snapshot.forEach((child) => {
+      events.push({ ...child.val(), id: child.key!, diff: child.val().diff || {} });
+    });
+    callback(events.reverse());
+  });
+};
+
+export const subscribeUsers = (callback: (users: UserProfile[]) => void): () => void => {
+  return onValue(ref(database, 'users'), (snapshot) => {
+    const users: UserProfile[] = [];
+    snapshot.forEach((child) => {
+      users.push({ ...child.val(), uid: child.key! });
+    });
+    users.sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+    callback(users);
+  });
+};
+
+const updateProfile = async (
+  uid: string,
+  adminId: string,
+  type: AdminEventType,
+  changes: Partial<UserProfile>
+): Promise<void> => {
+  await assertUserAdmin(adminId);
+  const profile = await getUserProfile(uid);
+  if (!profile) {
+    throw new UserAdminError('NOT_FOUND', 'User not found');
+  }
+
+  const diff = buildAuditDiff<UserProfile>(profile, changes, Object.keys(changes) as (keyof UserProfile & string)[]);
+  if (Object.keys(diff).length === 0) return;
+
+  await update(ref(database, `users/${uid}`), changes);
+  await recordAdminEvent(type, uid, adminId, diff);
+};
+
+export const updateUserRole = async (uid: string, role: UserRole, adminId: string): Promise<void> => {
+  // Keeps at least one admin able to reach this console
+  if (uid === adminId) {
+    throw new UserAdminError('SELF_CHANGE', 'You cannot change your own role');
+  }
+  await updateProfile(uid, adminId, 'role_changed', { role });
+};
+
+export const updateUserRegion = async (uid: string, region: string, adminId: string): Promise<void> => {
+  await updateProfile(uid, adminId, 'region_changed', { region });
+};
+
+export const setUserDisabled = async (uid: string, disabled: boolean, adminId: string): Promise<void> => {
+  if (uid === adminId) {
+    throw new UserAdminError('SELF_CHANGE', 'You cannot disable your own account');
+  }
+  const now = new Date().toISOString();
+  await updateProfile(uid, adminId, disabled ? 'account_disabled' : 'account_enabled', {
+    disabled,
+    disabledAt: disabled ? now : null,
+    disabledBy: disabled ? adminId : null,
+  });
+};
+
+export interface UserApplicationCounts {
+  total: number;
+  pending: number;
+  approved: number;
+  rejected: number;
+}
+
+/**
+ * Application counts per applicant, keyed by user id. Everything not yet decided counts as pending.
+ */
+export const getApplicationCountsByUser = async (): Promise<Record<string, UserApplicationCounts>> => {
+  const snapshot = await get(ref(database, 'applications'));
+  const counts: Record<string, UserApplicationCounts> = {};
+  snapshot.forEach((child) => {
+    const { userId, status } = child.val();
+    const entry = counts[userId] ||= { total: 0, pending: 0, approved: 0, rejected: 0 };
+    entry.total++;
+    if (status === 'approved') entry.approved++;
+    else if (status === 'rejected') entry.rejected++;
+    else entry.pending++;
+  });
+  return counts;
+};
@@ -0,0 +1,429 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth, UserProfile, UserRole } from '@/contexts/AuthContext';
+import { approveRoleRequest, declineRoleRequest, subscribeRoleRequests } from '@/lib/roleRequests';
+import {
+  ADMIN_EVENT_LABELS,
+  AdminEvent,
+  UserApplicationCounts,
+  getApplicationCountsByUser,
+  setUserDisabled,
+  subscribeAdminAuditLog,
+  subscribeUsers,
+  updateUserRegion,
+  updateUserRole,
+} from '@/lib/userManagement';
+import { ROLE_LABELS, USER_ROLES } from '@/lib/roles';
+import { REGIONS } from '@/lib/regions';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Check, History, Loader2, Search, UserCheck, UserCog, UserPlus, Users, X } from 'lucide-react';
+
+const NO_REGION = 'none';
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'role' || field === 'requestedRole') return ROLE_LABELS[value as UserRole] || String(value);
+  return String(value);
+};
+
+const Admin = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [usersLoading, setUsersLoading] = useState(true);
+  const [counts, setCounts] = useState<Record<string, UserApplicationCounts>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [events, setEvents] = useState<AdminEvent[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeRoleRequests((pending) => {
+      setRequests(pending);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = subscribeUsers((profiles) => {
+      setUsers(profiles);
+      setUsersLoading(false);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = subscribeAdminAuditLog(setEvents);
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    getApplicationCountsByUser()
+      .then(setCounts)
+      .catch((error) => console.error('Error loading application counts:', error));
+  }, []);
+
+  const filteredUsers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return users;
+    return users.filter((profile) =>
+      [profile.name, profile.email, profile.region, ROLE_LABELS[profile.role]]
+        .some((value) => value?.toLowerCase().includes(term))
+    );
+  }, [users, searchTerm]);
+
+  const userNames = useMemo(
+    () => Object.fromEntries(users.map((profile) => [profile.uid, profile.name || profile.email])),
+    [users]
+  );
+
+  const runUpdate = async (profile: UserProfile, action: () => Promise<void>, success: string) => {
+    setUpdatingId(profile.uid);
+    try {
+      await action();
+      toast({ title: 'User Updated', description: success });
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Could not update the user. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRoleChange = (profile: UserProfile, role: UserRole) =>
+    runUpdate(profile, () => updateUserRole(profile.uid, role, user!.uid), `${profile.name} is now ${ROLE_LABELS[role]}.`);
+
+  const handleRegionChange = (profile: UserProfile, value: string) => {
+    const region = value === NO_REGION ? '' : value;
+    return runUpdate(
+      profile,
+      () => updateUserRegion(profile.uid, region, user!.uid),
+      region ? `${profile.name} moved to ${region}.` : `Region cleared for ${profile.name}.`
+    );
+  };
+
+  const handleToggleDisabled = (profile: UserProfile) =>
+    runUpdate(
+      profile,
+      () => setUserDisabled(profile.uid, !profile.disabled, user!.uid),
+      profile.disabled ? `${profile.name} can sign in again.` : `${profile.name} has been disabled.`
+    );
+
+  const handleResolve = async (profile: UserProfile, approve: boolean) => {
+    setResolvingId(profile.uid);
+    try {
+      if (approve) {
+        await approveRoleRequest(profile.uid, user!.uid);
+      } else {
+        await declineRoleRequest(profile.uid, user!.uid);
+      }
+      toast({
+        title: approve ? 'Role Approved' : 'Request Declined',
+        description: approve
+          ? `${profile.name} is now ${ROLE_LABELS[profile.requestedRole!]}.`
+          : `${profile.name} keeps the ${ROLE_LABELS[profile.role]} role.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Could not update the role. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-muted/30">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-8">
+          <div className="p-3 rounded-lg solar-gradient">
+            <UserCog className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Administration</h1>
+            <p className="text-muted-foreground">Manage users, roles and access</p>
+          </div>
+        </div>
+
+        <Tabs defaultValue="users" className="w-full">
+          <TabsList className="grid w-full grid-cols-3 mb-6">
+            <TabsTrigger value="users" className="gap-2">
+              <Users className="h-4 w-4" />
+              Users
+            </TabsTrigger>
+            <TabsTrigger value="requests" className="gap-2">
+              <UserPlus className="h-4 w-4" />
+              Role Requests{requests.length > 0 ? ` (${requests.length})` : ''}
+            </TabsTrigger>
+            <TabsTrigger value="audit" className="gap-2">
+              <History className="h-4 w-4" />
+              Audit Log
+            </TabsTrigger>
+          </TabsList>
+
+          {/* Users */}
+          <TabsContent value="users">
+            <Card>
+              <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5 text-primary" />
+                  Users ({filteredUsers.length})
+                </CardTitle>
+                <div className="relative w-full md:w-72">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search name, email, region..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent>
+                {usersLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : filteredUsers.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No users match your search.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Region</TableHead>
+                        <TableHead>Applications</TableHead>
+                        <TableHead className="text-right">Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredUsers.map((profile) => {
+                        const isSelf = profile.uid === user?.uid;
+                        const busy = updatingId === profile.uid;
+                        const userCounts = counts[profile.uid];
+                        return (
+                          <TableRow key={profile.uid} className={profile.disabled ? 'opacity-60' : undefined}>
+                            <TableCell>
+                              <p className="font-medium">{profile.name}{isSelf ? ' (you)' : ''}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {profile.email}{profile.organization ? ` · ${profile.organization}` : ''}
+                              </p>
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={profile.role}
+                                onValueChange={(value) => handleRoleChange(profile, value as UserRole)}
+                                disabled={isSelf || busy}
+                              >
+                                <SelectTrigger className="w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {USER_ROLES.map((role) => (
+                                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={profile.region || NO_REGION}
+                                onValueChange={(value) => handleRegionChange(profile, value)}
+                                disabled={busy}
+                              >
+                                <SelectTrigger className="w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={NO_REGION}>No region</SelectItem>
+                                  {REGIONS.map((region) => (
+                                    <SelectItem key={region} value={region}>{region}</SelectItem>
+                                  ))}
+                                  {profile.region && !REGIONS.includes(profile.region) && (
+                                    <SelectItem value={profile.region}>{profile.region}</SelectItem>
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              {userCounts ? (
+                                <div className="text-sm">
+                                  <span className="font-medium">{userCounts.total}</span>
+                                  <span className="text-muted-foreground">
+                                    {' '}· {userCounts.pending} open · {userCounts.approved} approved · {userCounts.rejected} rejected
+                                  </span>
+                                </div>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">0</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex items-center justify-end gap-2">
+                                {profile.disabled && <Badge variant="destructive">Disabled</Badge>}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="gap-2"
+                                  onClick={() => handleToggleDisabled(profile)}
+                                  disabled={isSelf || busy}
+                                >
+                                  {busy ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : profile.disabled ? (
+                                    <UserCheck className="h-4 w-4" />
+                                  ) : (
+                                    <Ban className="h-4 w-4" />
+                                  )}
+                                  {profile.disabled ? 'Enable' : 'Disable'}
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Role Requests */}
+          <TabsContent value="requests">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <UserPlus className="h-5 w-5 text-primary" />
+                  Role Requests ({requests.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : requests.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No pending role requests.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {requests.map((profile) => (
+                      <div
+                        key={profile.uid}
+                        className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-lg border bg-card"
+                      >
+                        <div>
+                          <p className="font-semibold">{profile.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {profile.email}{profile.region ? ` · ${profile.region}` : ''}
+                          </p>
+                          <div className="flex items-center gap-2 mt-1">
+                            <Badge variant="outline">{ROLE_LABELS[profile.requestedRole!] || profile.requestedRole}</Badge>
+                            {profile.roleRequestedAt && (
+                              <span className="text-xs text-muted-foreground">
+                                requested {new Date(profile.roleRequestedAt).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="success"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => handleResolve(profile, true)}
+                            disabled={resolvingId === profile.uid}
+                          >
+                            {resolvingId === profile.uid ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                            Approve
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => handleResolve(profile, false)}
+                            disabled={resolvingId === profile.uid}
+                          >
+                            <X className="h-4 w-4" />
+                            Decline
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Audit Log */}
+          <TabsContent value="audit">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5 text-primary" />
+                  Admin Audit Log
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {events.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No admin actions recorded yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {events.map((event) => (
+                      <div key={event.id} className="p-4 rounded-lg border bg-card">
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-1">
+                          <p className="font-medium">
+                            {ADMIN_EVENT_LABELS[event.type] || event.type}
+                            <span className="text-muted-foreground font-normal">
+                              {' '}· {userNames[event.targetUserId] || event.targetUserId}
+                            </span>
+                          </p>
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(event.timestamp).toLocaleString()} by {userNames[event.actorId] || event.actorId}
+                          </span>
+                        </div>
+                        {Object.keys(event.diff).length > 0 && (
+                          <ul className="mt-2 text-sm text-muted-foreground space-y-0.5">
+                            {Object.entries(event.diff).map(([field, change]) => (
+                              <li key={field}>
+                                <span className="font-mono text-xs">{field}</span>: {formatValue(field, change.from)} → {formatValue(field, change.to)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Admin;
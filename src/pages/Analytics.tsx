@@ -1,7 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useAuth } from '@/contexts/AuthContext';
-import { Application, getAllApplications } from '@/lib/applicationService';
+import { Application, subscribeApplications } from '@/lib/applicationService';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import RegionHeatmap from '@/components/RegionHeatmap';
@@ -58,28 +56,45 @@ const STATUS_COLORS = {
   pending: '#f59e0b',
   processing: '#3b82f6',
   ai_completed: '#8b5cf6',
+  pending_supervisor: '#6366f1',
+  needs_info: '#f97316',
   approved: '#22c55e',
   rejected: '#ef4444',
 };
 
 const Analytics = () => {
-  const { user, userProfile, loading: authLoading } = useAuth();
-  const navigate = useNavigate();
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
 
   useEffect(() => {
-    if (!authLoading && !user) {
-      navigate('/auth');
-    }
-  }, [user, authLoading, navigate]);
-
-  useEffect(() => {
-    const unsubscribe = getAllApplications((apps) => {
-      setApplications(apps);
-      setLoading(false);
+    // Aggregates need every application; child events keep them current without re-downloading the list
+    const apps = new Map<string, Application>();
+    let ready = false;
+    const publish = () => {
+      if (!ready) return;
+      setApplications([...apps.values()]);
       setLastUpdated(new Date());
+    };
+
+    const unsubscribe = subscribeApplications({}, {
+      onAdded: (app) => {
+        apps.set(app.id, app);
+        publish();
+      },
+      onChanged: (app) => {
+        apps.set(app.id, app);
+        publish();
+      },
+      onRemoved: (id) => {
+        apps.delete(id);
+        publish();
+      },
+      onReady: () => {
+        ready = true;
+        publish();
+        setLoading(false);
+      },
     });
     return () => unsubscribe();
   }, []);
@@ -92,6 +107,8 @@ const Analytics = () => {
     const pending = applications.filter(a => a.status === 'pending').length;
     const processing = applications.filter(a => a.status === 'processing').length;
     const aiCompleted = applications.filter(a => a.status === 'ai_completed').length;
+    const pendingSupervisor = applications.filter(a => a.status === 'pending_supervisor').length;
+    const needsInfo = applications.filter(a => a.status === 'needs_info').length;
     
     const solarDetected = applications.filter(a => a.aiResult?.has_solar).length;
     const totalCapacity = applications.reduce((sum, a) => sum + (a.aiResult?.capacity_kw_est || 0), 0);
@@ -108,6 +125,8 @@ const Analytics = () => {
       pending,
       processing,
       aiCompleted,
+      pendingSupervisor,
+      needsInfo,
       solarDetected,
       totalCapacity: Math.round(totalCapacity * 10) / 10,
       totalPanels,
@@ -154,6 +173,8 @@ const Analytics = () => {
     { name: 'Pending', value: stats.pending, color: STATUS_COLORS.pending },
     { name: 'Processing', value: stats.processing, color: STATUS_COLORS.processing },
     { name: 'Review', value: stats.aiCompleted, color: STATUS_COLORS.ai_completed },
+    { name: 'Sign-off', value: stats.pendingSupervisor, color: STATUS_COLORS.pending_supervisor },
+    { name: 'More Info', value: stats.needsInfo, color: STATUS_COLORS.needs_info },
     { name: 'Approved', value: stats.approved, color: STATUS_COLORS.approved },
     { name: 'Rejected', value: stats.rejected, color: STATUS_COLORS.rejected },
   ].filter(d => d.value > 0), [stats]);
@@ -201,7 +222,7 @@ const Analytics = () => {
     }));
   }, [regionData]);
 
-  if (authLoading || loading) {
+  if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -2,11 +2,19 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Application, getApplication } from '@/lib/applicationService';
-import { exportApplicationJSON } from '@/lib/exportUtils';
+import { exportApplicationCertificate, exportApplicationJSON } from '@/lib/exportUtils';
+import { CertificateError } from '@/lib/certificate';
+import { AuditEvent, getAuditTrail } from '@/lib/auditTrail';
+import { getPanelDetections } from '@/lib/detectionGeometry';
+import { getRejectionReasonLabel } from '@/lib/rejectionReasons';
+import { getHomePath } from '@/lib/roles';
+import { CONSENT_STATUS_LABELS } from '@/lib/installerPortal';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import ImageZoomModal from '@/components/ImageZoomModal';
 import SolarDetectionOverlay from '@/components/SolarDetectionOverlay';
+import CapacityRiskFlag from '@/components/CapacityRiskFlag';
+import AuditTimeline from '@/components/AuditTimeline';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -24,39 +32,47 @@ import {
   Building2,
   FileJson,
   ZoomIn,
-  IndianRupee
+  IndianRupee,
+  History,
+  UserCheck,
+  HelpCircle,
+  Award
 } from 'lucide-react';
 
 const ApplicationDetail = () => {
   const { id } = useParams<{ id: string }>();
-  const { user } = useAuth();
+  const { userProfile } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   
   const [application, setApplication] = useState<Application | null>(null);
   const [loading, setLoading] = useState(true);
   const [showImageZoom, setShowImageZoom] = useState(false);
+  const [auditTrail, setAuditTrail] = useState<AuditEvent[]>([]);
+  const [generatingCertificate, setGeneratingCertificate] = useState(false);
 
   useEffect(() => {
-    if (!user) {
-      navigate('/auth');
-      return;
-    }
-
     const fetchApplication = async () => {
       if (id) {
-        const app = await getApplication(id);
+        const [app, events] = await Promise.all([
+          getApplication(id),
+          getAuditTrail(id).catch((error) => {
+            console.warn('Audit trail could not be loaded:', error);
+            return [] as AuditEvent[];
+          }),
+        ]);
         setApplication(app);
+        setAuditTrail(events);
         setLoading(false);
       }
     };
 
     fetchApplication();
-  }, [id, user, navigate]);
+  }, [id]);
 
   const handleDownloadJSON = () => {
     if (application) {
-      exportApplicationJSON(application);
+      exportApplicationJSON(application, auditTrail);
       toast({
         title: 'Export Complete',
         description: `Downloaded verification result for ${application.sampleId}.`,
@@ -64,6 +80,27 @@ const ApplicationDetail = () => {
     }
   };
 
+  const handleDownloadCertificate = async () => {
+    if (!application) return;
+    setGeneratingCertificate(true);
+    try {
+      await exportApplicationCertificate(application);
+      toast({
+        title: 'Certificate Ready',
+        description: `Downloaded the approval certificate for ${application.sampleId}.`,
+      });
+    } catch (error) {
+      console.error('Error generating certificate:', error);
+      toast({
+        title: 'Certificate Failed',
+        description: error instanceof CertificateError ? error.message : 'The certificate could not be generated.',
+        variant: 'destructive',
+      });
+    } finally {
+      setGeneratingCertificate(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -83,7 +120,7 @@ const ApplicationDetail = () => {
             <p className="text-muted-foreground mb-4">
               The application you're looking for doesn't exist.
             </p>
-            <Button onClick={() => navigate('/dashboard')}>
+            <Button onClick={() => navigate(getHomePath(userProfile?.role))}>
               Back to Dashboard
             </Button>
           </Card>
@@ -97,11 +134,14 @@ const ApplicationDetail = () => {
     pending: { label: 'Pending', color: 'bg-amber-100 text-amber-700', icon: Clock },
     processing: { label: 'Processing', color: 'bg-blue-100 text-blue-700', icon: Loader2 },
     ai_completed: { label: 'Review Pending', color: 'bg-purple-100 text-purple-700', icon: Zap },
+    pending_supervisor: { label: 'Awaiting Sign-off', color: 'bg-indigo-100 text-indigo-700', icon: UserCheck },
+    needs_info: { label: 'Needs More Info', color: 'bg-orange-100 text-orange-700', icon: HelpCircle },
     approved: { label: 'Approved', color: 'bg-green-100 text-green-700', icon: CheckCircle },
     rejected: { label: 'Rejected', color: 'bg-red-100 text-red-700', icon: XCircle },
   };
 
   const status = statusConfig[application.status];
+  const detections = getPanelDetections(application.aiResult);
   const StatusIcon = status.icon;
 
   return (
@@ -112,7 +152,7 @@ const ApplicationDetail = () => {
         <Button 
           variant="ghost" 
           className="mb-6 gap-2"
-          onClick={() => navigate('/dashboard')}
+          onClick={() => navigate(getHomePath(userProfile?.role))}
         >
           <ArrowLeft className="h-4 w-4" />
           Back to Dashboard
@@ -142,6 +182,12 @@ const ApplicationDetail = () => {
             </div>
             
             <div className="flex gap-2">
+              {application.status === 'approved' && (
+                <Button className="gap-2" onClick={handleDownloadCertificate} disabled={generatingCertificate}>
+                  {generatingCertificate ? <Loader2 className="h-4 w-4 animate-spin" /> : <Award className="h-4 w-4" />}
+                  Download Certificate
+                </Button>
+              )}
               <Button variant="outline" className="gap-2" onClick={handleDownloadJSON}>
                 <FileJson className="h-4 w-4" />
                 Export JSON
@@ -287,6 +333,17 @@ const ApplicationDetail = () => {
                         <p className="font-semibold">{application.installerCompany}</p>
                       </div>
                     )}
+                    {application.consentStatus && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Customer Consent</p>
+                        <Badge
+                          variant={application.consentStatus === 'declined' ? 'destructive' : 'outline'}
+                          className={application.consentStatus === 'confirmed' ? 'bg-green-100 text-green-700 border-green-200' : undefined}
+                        >
+                          {CONSENT_STATUS_LABELS[application.consentStatus]}
+                        </Badge>
+                      </div>
+                    )}
                     {application.electricityProvider && (
                       <div>
                         <p className="text-sm text-muted-foreground">Electricity Provider</p>
@@ -342,6 +399,11 @@ const ApplicationDetail = () => {
                     <div>
                       <p className="text-sm text-muted-foreground mb-2">PV Area Estimate</p>
                       <p className="font-semibold">{application.aiResult.pv_area_sqm_est} m²</p>
+                      {application.aiResult.image_metadata?.meters_per_pixel && (
+                        <p className="text-xs text-muted-foreground">
+                          at {application.aiResult.image_metadata.meters_per_pixel} m/px ground resolution
+                        </p>
+                      )}
                     </div>
                     <div>
                       <p className="text-sm text-muted-foreground mb-2">QC Status</p>
@@ -355,6 +417,8 @@ const ApplicationDetail = () => {
                     </div>
                   </div>
 
+                  <CapacityRiskFlag application={application} className="mt-6" />
+
                   {application.aiResult.qc_notes && application.aiResult.qc_notes.length > 0 && (
                     <div className="mt-6">
                       <p className="text-sm text-muted-foreground mb-2">Quality Control Notes</p>
@@ -369,11 +433,13 @@ const ApplicationDetail = () => {
                     </div>
                   )}
 
-                  {application.aiResult.bbox_or_mask && (
+                  {detections.length > 0 && (
                     <div className="mt-6">
-                      <p className="text-sm text-muted-foreground mb-2">Bounding Box Data</p>
-                      <code className="block text-xs bg-muted p-3 rounded overflow-x-auto">
-                        {application.aiResult.bbox_or_mask}
+                      <p className="text-sm text-muted-foreground mb-2">
+                        Detection Geometry ({detections.length} panels)
+                      </p>
+                      <code className="block text-xs bg-muted p-3 rounded overflow-x-auto max-h-48">
+                        {JSON.stringify(detections)}
                       </code>
                     </div>
                   )}
@@ -382,21 +448,52 @@ const ApplicationDetail = () => {
             )}
 
             {/* Officer Notes */}
-            {application.officerNotes && (
+            {(application.officerNotes || application.rejectionReasons?.length > 0) && (
               <Card className="md:col-span-2">
                 <CardHeader>
                   <CardTitle>Officer Review Notes</CardTitle>
                 </CardHeader>
                 <CardContent>
+                  {application.rejectionReasons?.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {application.rejectionReasons.map((code) => (
+                        <Badge key={code} variant="outline">{getRejectionReasonLabel(code)}</Badge>
+                      ))}
+                    </div>
+                  )}
                   <p className="text-muted-foreground">{application.officerNotes}</p>
                   {application.reviewedAt && (
                     <p className="text-sm text-muted-foreground mt-2">
                       Reviewed on {new Date(application.reviewedAt).toLocaleDateString()}
                     </p>
                   )}
+                  {application.supervisorNotes && (
+                    <div className="mt-4 pt-4 border-t">
+                      <p className="text-sm font-medium mb-1">Supervisor</p>
+                      <p className="text-muted-foreground">{application.supervisorNotes}</p>
+                      {application.supervisorReviewedAt && (
+                        <p className="text-sm text-muted-foreground mt-2">
+                          Signed off on {new Date(application.supervisorReviewedAt).toLocaleDateString()}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
+
+            {/* Audit Trail */}
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5 text-primary" />
+                  History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AuditTimeline events={auditTrail} />
+              </CardContent>
+            </Card>
           </div>
         </div>
       </main>
@@ -1,13 +1,28 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { createApplication, processApplication, createBatchApplications } from '@/lib/applicationService';
-import { parseCSV, CSVRow } from '@/lib/exportUtils';
+import { parseCSV, parseXLSXSheet, readXLSXSheets, exportBatchErrorReport } from '@/lib/exportUtils';
+import {
+  BatchImport,
+  BatchImportError,
+  BatchField,
+  getSubmittableRows,
+  setBatchRowSkipped,
+  updateBatchValue,
+} from '@/lib/batchImport';
+import { createInstallerApplication } from '@/lib/installerPortal';
+import { hasPermission } from '@/lib/roles';
+import { REGIONS } from '@/lib/regions';
+import { APPLICATION_FIELD_MAX_LENGTHS } from '@/lib/fieldLimits';
+import { deleteDraft, getDraft, saveDraft, toFile, toStoredImage } from '@/lib/offlineStore';
+import { isOffline, queueSubmission, subscribeSyncStatus } from '@/lib/submissionQueue';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import ImageZoomModal from '@/components/ImageZoomModal';
 import SatelliteImageFetcher from '@/components/SatelliteImageFetcher';
 import MapLocationPicker from '@/components/MapLocationPicker';
+import BatchPreview from '@/components/BatchPreview';
 import { geocodeAddress, searchAddresses, GeocodingResult, hasMapboxToken } from '@/lib/satelliteImagery';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -41,22 +56,58 @@ import {
   ZoomIn,
   X,
   Satellite,
-  Search
+  Search,
+  UserRound,
+  CloudOff,
+  History
 } from 'lucide-react';
 import { z } from 'zod';
 
 const applicationSchema = z.object({
-  sampleId: z.string().min(1, 'Sample ID is required'),
+  sampleId: z.string()
+    .min(1, 'Sample ID is required')
+    .max(APPLICATION_FIELD_MAX_LENGTHS.sampleId, `Sample ID must be ${APPLICATION_FIELD_MAX_LENGTHS.sampleId} characters or fewer`),
   latitude: z.number().min(-90).max(90),
   longitude: z.number().min(-180).max(180),
-  address: z.string().optional(),
+  address: z.string()
+    .max(APPLICATION_FIELD_MAX_LENGTHS.address, `Address must be ${APPLICATION_FIELD_MAX_LENGTHS.address} characters or fewer`)
+    .optional(),
   region: z.string().min(1, 'Region is required'),
 });
 
+// Extra fields when an installer files for a homeowner
+const customerSchema = z.object({
+  customerName: z.string().trim().min(2, 'Customer name is required'),
+  customerEmail: z.string().trim().email('Enter the customer\'s email for the consent link'),
+});
+
+// Wait this long after the last change before saving the draft
+const DRAFT_SAVE_DELAY_MS = 800;
+
+const EMPTY_FORM = {
+  sampleId: '',
+  latitude: '',
+  longitude: '',
+  address: '',
+  region: '',
+  // Enhanced fields
+  installationType: '',
+  installationDate: '',
+  systemCapacity: '',
+  installerCompany: '',
+  panelBrand: '',
+  inverterBrand: '',
+  subsidyAmount: '',
+  electricityProvider: '',
+  customerName: '',
+  customerEmail: '',
+};
+
 const Apply = () => {
   const { user, userProfile } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const submitsForCustomer = hasPermission(userProfile?.role, 'applications:submit_on_behalf');
 
   const [loading, setLoading] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
@@ -72,8 +123,11 @@ const Apply = () => {
   const [showSuggestions, setShowSuggestions] = useState(false);
   
   // CSV batch upload
-  const [csvData, setCsvData] = useState<CSVRow[]>([]);
-  const [csvFileName, setCsvFileName] = useState('');
+  const [batchImport, setBatchImport] = useState<BatchImport | null>(null);
+  const [batchFileName, setBatchFileName] = useState('');
+  // Worksheets of an uploaded .xlsx file, for choosing which one to import
+  const [xlsxSheets, setXlsxSheets] = useState<Record<string, string[][]> | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState('');
   const [batchLoading, setBatchLoading] = useState(false);
 
   // Handle satellite image fetched
@@ -142,29 +196,78 @@ const Apply = () => {
     }
   }, [addressSearch, handleSelectSuggestion, toast]);
   
-  const [formData, setFormData] = useState({
-    sampleId: '',
-    latitude: '',
-    longitude: '',
-    address: '',
-    region: '',
-    // Enhanced fields
-    installationType: '',
-    installationDate: '',
-    systemCapacity: '',
-    installerCompany: '',
-    panelBrand: '',
-    inverterBrand: '',
-    subsidyAmount: '',
-    electricityProvider: '',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  const regions = [
-    'Delhi', 'Maharashtra', 'Karnataka', 'Tamil Nadu', 'Gujarat',
-    'Rajasthan', 'Uttar Pradesh', 'Madhya Pradesh', 'West Bengal', 
-    'Andhra Pradesh', 'Telangana', 'Kerala', 'Punjab', 'Haryana', 'Other'
-  ];
+  // Draft kept in IndexedDB so a dropped connection or closed tab does not lose the form
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [restoredDraftAt, setRestoredDraftAt] = useState<string | null>(null);
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => subscribeSyncStatus((status) => setOnline(status.online)), []);
+
+  useEffect(() => {
+    if (!user) return;
+    let active = true;
+    setDraftLoaded(false);
+    getDraft(user.uid)
+      .then((draft) => {
+        if (!active || !draft) return;
+        setFormData({ ...EMPTY_FORM, ...draft.formData });
+        if (draft.image) {
+          const file = toFile(draft.image);
+          setImageFile(file);
+        }
+        setRestoredDraftAt(draft.updatedAt);
+      })
+      .catch((error) => console.warn('Draft could not be loaded:', error))
+      .finally(() => {
+        if (active) setDraftLoaded(true);
+      });
+    return () => {
+      active = false;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !draftLoaded) return;
+    const timer = setTimeout(() => {
+      const isEmpty = Object.values(formData).every((value) => value.trim() === '') && !imageFile;
+      const save = isEmpty
+        ? deleteDraft(user.uid)
+        : saveDraft({
+            userId: user.uid,
+            formData,
+            ...(imageFile ? { image: toStoredImage(imageFile) } : {}),
+            updatedAt: new Date().toISOString(),
+          });
+      save.catch((error) => console.warn('Draft could not be saved:', error));
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [user, draftLoaded, formData, imageFile]);
+
+  // The preview URL follows the selected file and is released when the file changes or the page closes
+  useEffect(() => {
+    if (!imageFile) {
+      setImagePreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(imageFile);
+    setImagePreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [imageFile]);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setImageFile(null);
+    setErrors({});
+    setRestoredDraftAt(null);
+  };
+
+  const handleDiscardDraft = () => {
+    resetForm();
+    if (user) deleteDraft(user.uid).catch((error) => console.warn('Draft could not be deleted:', error));
+  };
 
   const installationTypes = [
     'Residential - Individual',
@@ -205,28 +308,91 @@ const Apply = () => {
         return;
       }
       setImageFile(file);
-      setImagePreview(URL.createObjectURL(file));
     }
   };
 
-  const handleCSVUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const clearBatch = () => {
+    setBatchImport(null);
+    setBatchFileName('');
+    setXlsxSheets(null);
+    setSelectedSheet('');
+  };
+
+  // Parse and validate one batch source; returns false when the file cannot be used
+  const loadBatch = (parse: () => BatchImport, source: string): boolean => {
+    try {
+      const parsed = parse();
+      const invalid = parsed.rows.filter((row) => !row.data).length;
+      setBatchImport(parsed);
+      toast({
+        title: `${source} Loaded`,
+        description: invalid > 0
+          ? `Found ${parsed.rows.length} records; ${invalid} need fixing or skipping before upload.`
+          : `Found ${parsed.rows.length} records ready for batch upload.`,
+      });
+      return true;
+    } catch (error) {
+      setBatchImport(null);
+      toast({
+        title: `Could Not Read ${source}`,
+        description: error instanceof BatchImportError ? error.message : 'The file could not be parsed.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleBatchUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setCsvFileName(file.name);
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        const parsed = parseCSV(text);
-        setCsvData(parsed);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+    if (!file) return;
+
+    setBatchFileName(file.name);
+    if (/\.xlsx$/i.test(file.name)) {
+      try {
+        const sheets = await readXLSXSheets(await file.arrayBuffer());
+        // Start with the first sheet that has more than a header row
+        const sheetName = Object.keys(sheets).find((name) => sheets[name].length > 1) || Object.keys(sheets)[0] || '';
+        setXlsxSheets(sheets);
+        setSelectedSheet(sheetName);
+        loadBatch(() => parseXLSXSheet(sheets[sheetName] || []), 'Spreadsheet');
+      } catch (error) {
+        console.error('XLSX read error:', error);
+        clearBatch();
         toast({
-          title: 'CSV Loaded',
-          description: `Found ${parsed.length} records ready for batch upload.`,
+          title: 'Could Not Read Spreadsheet',
+          description: 'Save the file as .xlsx (Excel 2007 or later) and try again.',
+          variant: 'destructive',
         });
-      };
-      reader.readAsText(file);
+      }
+      return;
     }
+
+    setXlsxSheets(null);
+    const text = await file.text();
+    if (!loadBatch(() => parseCSV(text), 'CSV')) {
+      setBatchFileName('');
+    }
+  };
+
+  const handleSheetChange = (sheetName: string) => {
+    if (!xlsxSheets) return;
+    setSelectedSheet(sheetName);
+    loadBatch(() => parseXLSXSheet(xlsxSheets[sheetName]), 'Sheet');
+  };
+
+  const handleBatchValueChange = (rowNumber: number, field: BatchField, value: string) => {
+    setBatchImport((current) => current && { ...current, rows: updateBatchValue(current.rows, rowNumber, field, value) });
+  };
+
+  const handleBatchSkipChange = (rowNumber: number, skipped: boolean) => {
+    setBatchImport((current) => current && { ...current, rows: setBatchRowSkipped(current.rows, rowNumber, skipped) });
   };
 
+  const batchRows = batchImport ? getSubmittableRows(batchImport.rows) : [];
+  const unresolvedRows = batchImport ? batchImport.rows.filter((row) => !row.data && !row.skipped).length : 0;
+
   const validateForm = () => {
     try {
       applicationSchema.parse({
@@ -234,6 +400,9 @@ const Apply = () => {
         latitude: parseFloat(formData.latitude),
         longitude: parseFloat(formData.longitude),
       });
+      if (submitsForCustomer) {
+        customerSchema.parse(formData);
+      }
       setErrors({});
       return true;
     } catch (error) {
@@ -270,28 +439,61 @@ const Apply = () => {
     setLoading(true);
 
     try {
+      const applicationData = {
+        sampleId: formData.sampleId,
+        latitude: parseFloat(formData.latitude),
+        longitude: parseFloat(formData.longitude),
+        address: formData.address,
+        region: formData.region,
+        imageFile: imageFile || undefined,
+        installationType: formData.installationType,
+        installationDate: formData.installationDate,
+        systemCapacity: formData.systemCapacity ? parseFloat(formData.systemCapacity) : undefined,
+        installerCompany: formData.installerCompany,
+        panelBrand: formData.panelBrand,
+        inverterBrand: formData.inverterBrand,
+        subsidyAmount: formData.subsidyAmount ? parseFloat(formData.subsidyAmount) : undefined,
+        electricityProvider: formData.electricityProvider,
+      };
+      const customer = { name: formData.customerName.trim(), email: formData.customerEmail.trim() };
+
+      // Without a connection the application waits on this device and is sent when it comes back
+      if (isOffline()) {
+        await queueSubmission(userProfile, applicationData, submitsForCustomer ? customer : undefined);
+        await deleteDraft(user.uid);
+        resetForm();
+        toast({
+          title: 'Saved Offline',
+          description: `Application ${applicationData.sampleId} will be submitted automatically when you are back online.`,
+        });
+        return;
+      }
+
+      if (submitsForCustomer) {
+        const { applicationId, consentEmailSent } = await createInstallerApplication(userProfile, customer, applicationData);
+        await deleteDraft(user.uid);
+        await processApplication(applicationId);
+
+        toast({
+          title: 'Application Submitted!',
+          description: consentEmailSent
+            ? `We emailed ${formData.customerName.trim()} a link to confirm the application.`
+            : 'The consent email could not be sent. Resend it from your installer dashboard.',
+        });
+
+        navigate('/installer');
+        return;
+      }
+
       const appId = await createApplication(
         user.uid,
         userProfile.name,
         userProfile.email,
-        {
-          sampleId: formData.sampleId,
-          latitude: parseFloat(formData.latitude),
-          longitude: parseFloat(formData.longitude),
-          address: formData.address,
-          region: formData.region,
-          imageFile: imageFile || undefined,
-          installationType: formData.installationType,
-          installationDate: formData.installationDate,
-          systemCapacity: formData.systemCapacity ? parseFloat(formData.systemCapacity) : undefined,
-          installerCompany: formData.installerCompany,
-          panelBrand: formData.panelBrand,
-          inverterBrand: formData.inverterBrand,
-          subsidyAmount: formData.subsidyAmount ? parseFloat(formData.subsidyAmount) : undefined,
-          electricityProvider: formData.electricityProvider,
-        }
+        applicationData
       );
 
+      await deleteDraft(user.uid);
+
       // Automatically start AI processing
       await processApplication(appId);
 
@@ -314,7 +516,7 @@ const Apply = () => {
   };
 
   const handleBatchSubmit = async () => {
-    if (!user || !userProfile || csvData.length === 0) return;
+    if (!user || !userProfile || batchRows.length === 0 || unresolvedRows > 0) return;
 
     setBatchLoading(true);
     try {
@@ -322,7 +524,7 @@ const Apply = () => {
         user.uid,
         userProfile.name,
         userProfile.email,
-        csvData
+        batchRows
       );
 
       // Process all applications
@@ -335,8 +537,7 @@ const Apply = () => {
         description: `${applicationIds.length} applications submitted and processed.`,
       });
 
-      setCsvData([]);
-      setCsvFileName('');
+      clearBatch();
       navigate('/dashboard');
     } catch (error: any) {
       console.error('Batch submission error:', error);
@@ -396,7 +597,7 @@ const Apply = () => {
               </TabsTrigger>
               <TabsTrigger value="batch" className="gap-2">
                 <FileSpreadsheet className="h-4 w-4" />
-                CSV Batch Upload
+                Batch Upload
               </TabsTrigger>
             </TabsList>
 
@@ -412,7 +613,58 @@ const Apply = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
+                  {restoredDraftAt && (
+                    <div className="mb-6 p-3 rounded-lg border bg-blue-50 border-blue-200 text-blue-700 text-sm flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <span className="flex items-center gap-2">
+                        <History className="h-4 w-4 shrink-0" />
+                        Restored your unsent draft from {new Date(restoredDraftAt).toLocaleString()}
+                      </span>
+                      <Button type="button" variant="outline" size="sm" onClick={handleDiscardDraft}>
+                        Discard Draft
+                      </Button>
+                    </div>
+                  )}
                   <form onSubmit={handleSubmit} className="space-y-6">
+                    {/* Customer Section (installers only) */}
+                    {submitsForCustomer && (
+                      <div className="space-y-4">
+                        <h3 className="text-lg font-semibold flex items-center gap-2 pb-2 border-b">
+                          <UserRound className="h-5 w-5 text-primary" />
+                          Customer
+                        </h3>
+                        <p className="text-sm text-muted-foreground">
+                          The homeowner is emailed a link to confirm this application.
+                        </p>
+                        <div className="grid md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="customerName">Customer Name *</Label>
+                            <Input
+                              id="customerName"
+                              placeholder="Homeowner's full name"
+                              value={formData.customerName}
+                              onChange={(e) => setFormData({ ...formData, customerName: e.target.value })}
+                            />
+                            {errors.customerName && (
+                              <p className="text-sm text-destructive">{errors.customerName}</p>
+                            )}
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="customerEmail">Customer Email *</Label>
+                            <Input
+                              id="customerEmail"
+                              type="email"
+                              placeholder="homeowner@example.com"
+                              value={formData.customerEmail}
+                              onChange={(e) => setFormData({ ...formData, customerEmail: e.target.value })}
+                            />
+                            {errors.customerEmail && (
+                              <p className="text-sm text-destructive">{errors.customerEmail}</p>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Basic Information Section */}
                     <div className="space-y-4">
                       <h3 className="text-lg font-semibold flex items-center gap-2 pb-2 border-b">
@@ -557,7 +809,7 @@ const Apply = () => {
                             onChange={(e) => setFormData({ ...formData, region: e.target.value })}
                           >
                             <option value="">Select your state</option>
-                            {regions.map((r) => (
+                            {REGIONS.map((r) => (
                               <option key={r} value={r}>{r}</option>
                             ))}
                           </select>
@@ -658,8 +910,9 @@ const Apply = () => {
                           <Input
                             id="installerCompany"
                             placeholder="e.g., Tata Power Solar"
-                            value={formData.installerCompany}
+                            value={(submitsForCustomer && userProfile?.organization) || formData.installerCompany}
                             onChange={(e) => setFormData({ ...formData, installerCompany: e.target.value })}
+                            disabled={submitsForCustomer && !!userProfile?.organization}
                           />
                         </div>
 
@@ -743,7 +996,6 @@ const Apply = () => {
                               size="sm"
                               onClick={() => {
                                 setImageFile(null);
-                                setImagePreview(null);
                               }}
                             >
                               <X className="h-4 w-4 mr-2" />
@@ -771,6 +1023,12 @@ const Apply = () => {
                     </div>
 
                     {/* Submit */}
+                    {!online && (
+                      <p className="text-sm text-amber-700 flex items-center gap-2">
+                        <CloudOff className="h-4 w-4 shrink-0" />
+                        You are offline. The application will be saved on this device and submitted when you reconnect.
+                      </p>
+                    )}
                     <Button 
                       type="submit" 
                       variant="hero" 
@@ -800,45 +1058,60 @@ const Apply = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <FileSpreadsheet className="h-5 w-5 text-primary" />
-                    CSV Batch Upload
+                    CSV / Excel Batch Upload
                   </CardTitle>
                   <CardDescription>
-                    Upload a CSV file with multiple verification records
+                    Upload a CSV or Excel (.xlsx) file with multiple verification records
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
-                  {/* CSV Format Guide */}
+                  {/* File Format Guide */}
                   <div className="bg-muted/50 p-4 rounded-lg space-y-3">
-                    <h4 className="font-semibold">CSV Format Guide</h4>
+                    <h4 className="font-semibold">File Format Guide</h4>
                     <p className="text-sm text-muted-foreground">
-                      Your CSV should include the following columns:
+                      The first row (or the first row of the chosen sheet) should name these columns:
                     </p>
                     <code className="block text-xs bg-card p-3 rounded border overflow-x-auto">
                       sample_id, latitude, longitude, address, region, installation_type, installation_date, system_capacity, installer_company, panel_brand, inverter_brand, subsidy_amount, electricity_provider
                     </code>
                     <p className="text-xs text-muted-foreground">
-                      Required: sample_id, latitude, longitude, region
+                      Required: sample_id, latitude, longitude, region. Coordinates must be in India,
+                      dates as YYYY-MM-DD or DD/MM/YYYY. Quote values that contain commas.
                     </p>
                   </div>
 
                   {/* Upload Area */}
                   <div className="border-2 border-dashed border-border rounded-lg p-8 text-center hover:border-primary transition-colors">
-                    {csvFileName ? (
+                    {batchFileName ? (
                       <div className="space-y-4">
                         <div className="flex items-center justify-center gap-2 text-green-600">
                           <CheckCircle className="h-6 w-6" />
-                          <span className="font-medium">{csvFileName}</span>
+                          <span className="font-medium">{batchFileName}</span>
                         </div>
                         <p className="text-muted-foreground">
-                          {csvData.length} records found
+                          {batchImport?.rows.length ?? 0} records found
                         </p>
+                        {xlsxSheets && Object.keys(xlsxSheets).length > 1 && (
+                          <div className="flex items-center justify-center gap-2">
+                            <Label htmlFor="batchSheet" className="text-sm">Sheet</Label>
+                            <select
+                              id="batchSheet"
+                              className="h-9 rounded-lg border-2 border-input bg-card px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                              value={selectedSheet}
+                              onChange={(e) => handleSheetChange(e.target.value)}
+                            >
+                              {Object.keys(xlsxSheets).map((name) => (
+                                <option key={name} value={name}>
+                                  {name} ({Math.max(xlsxSheets[name].length - 1, 0)} rows)
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
                         <Button 
                           variant="outline" 
                           size="sm"
-                          onClick={() => {
-                            setCsvData([]);
-                            setCsvFileName('');
-                          }}
+                          onClick={clearBatch}
                         >
                           <X className="h-4 w-4 mr-2" />
                           Remove
@@ -848,57 +1121,31 @@ const Apply = () => {
                       <label className="cursor-pointer">
                         <input
                           type="file"
-                          accept=".csv"
+                          accept=".csv,.xlsx"
                           className="hidden"
-                          onChange={handleCSVUpload}
+                          onChange={handleBatchUpload}
                         />
                         <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                         <p className="text-muted-foreground mb-2">
-                          Click to upload CSV file
+                          Click to upload a CSV or Excel file
                         </p>
                         <p className="text-xs text-muted-foreground">
-                          Supports .csv files
+                          Supports .csv and .xlsx files
                         </p>
                       </label>
                     )}
                   </div>
 
-                  {/* Preview Table */}
-                  {csvData.length > 0 && (
-                    <div className="space-y-3">
-                      <h4 className="font-semibold">Preview (First 5 Records)</h4>
-                      <div className="overflow-x-auto border rounded-lg">
-                        <table className="w-full text-sm">
-                          <thead className="bg-muted">
-                            <tr>
-                              <th className="p-2 text-left">Sample ID</th>
-                              <th className="p-2 text-left">Lat</th>
-                              <th className="p-2 text-left">Lon</th>
-                              <th className="p-2 text-left">Region</th>
-                              <th className="p-2 text-left">Type</th>
-                              <th className="p-2 text-left">Capacity</th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {csvData.slice(0, 5).map((row, i) => (
-                              <tr key={i} className="border-t">
-                                <td className="p-2">{row.sampleId}</td>
-                                <td className="p-2">{row.latitude}</td>
-                                <td className="p-2">{row.longitude}</td>
-                                <td className="p-2">{row.region}</td>
-                                <td className="p-2">{row.installationType || '-'}</td>
-                                <td className="p-2">{row.systemCapacity || '-'} kW</td>
-                              </tr>
-                            ))}
-                          </tbody>
-                        </table>
-                      </div>
-                      {csvData.length > 5 && (
-                        <p className="text-sm text-muted-foreground text-center">
-                          ...and {csvData.length - 5} more records
-                        </p>
-                      )}
-                    </div>
+                  {/* Preview and fixes */}
+                  {batchImport && (
+                    <BatchPreview
+                      key={`${batchFileName}:${selectedSheet}`}
+                      rows={batchImport.rows}
+                      unmappedHeaders={batchImport.mapping.unmappedHeaders}
+                      onValueChange={handleBatchValueChange}
+                      onSkipChange={handleBatchSkipChange}
+                      onDownloadErrors={() => exportBatchErrorReport(batchImport.rows, batchFileName)}
+                    />
                   )}
 
                   {/* Submit Batch */}
@@ -906,17 +1153,19 @@ const Apply = () => {
                     variant="hero" 
                     size="lg"
                     className="w-full gap-2"
-                    disabled={batchLoading || csvData.length === 0}
+                    disabled={batchLoading || batchRows.length === 0 || unresolvedRows > 0}
                     onClick={handleBatchSubmit}
                   >
                     {batchLoading ? (
                       <>
                         <Loader2 className="h-5 w-5 animate-spin" />
-                        Processing {csvData.length} Records...
+                        Processing {batchRows.length} Records...
                       </>
+                    ) : unresolvedRows > 0 ? (
+                      <>Fix or Skip {unresolvedRows} Row{unresolvedRows === 1 ? '' : 's'} to Continue</>
                     ) : (
                       <>
-                        Submit Batch ({csvData.length} Records)
+                        Submit Batch ({batchRows.length} Records)
                         <ArrowRight className="h-5 w-5" />
                       </>
                     )}
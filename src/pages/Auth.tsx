@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, useLocation, Link } from 'react-router-dom';
 import { useAuth, UserRole } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { getHomePath, requiresRoleApproval, ROLE_LABELS, USER_ROLES } from '@/lib/roles';
 import { Sun, User, Shield, Loader2, ArrowLeft } from 'lucide-react';
 import { z } from 'zod';
 
@@ -17,8 +18,16 @@ const loginSchema = z.object({
 const signupSchema = loginSchema.extend({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   region: z.string().optional(),
+  organization: z.string().optional(),
 });
 
+const installerSignupSchema = signupSchema.extend({
+  organization: z.string().trim().min(2, 'Enter your installer company name'),
+});
+
+// Roles that can be requested at sign-up; admins are appointed by another admin
+const STAFF_ROLES = USER_ROLES.filter((r) => r !== 'user' && r !== 'admin');
+
 const Auth = () => {
   const [searchParams] = useSearchParams();
   const [isLogin, setIsLogin] = useState(searchParams.get('mode') !== 'signup');
@@ -29,24 +38,29 @@ const Auth = () => {
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [region, setRegion] = useState('');
+  const [organization, setOrganization] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const { signIn, signUp, user, userProfile } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
 
+  // Return to the page that sent the visitor here, if any
+  const from = (location.state as { from?: string } | null)?.from;
+
   useEffect(() => {
     if (user && userProfile) {
-      navigate(userProfile.role === 'officer' ? '/officer-dashboard' : '/dashboard');
+      navigate(from || getHomePath(userProfile.role), { replace: true });
     }
-  }, [user, userProfile, navigate]);
+  }, [user, userProfile, navigate, from]);
 
   const validateForm = () => {
     try {
       if (isLogin) {
         loginSchema.parse({ email, password });
       } else {
-        signupSchema.parse({ email, password, name, region });
+        (role === 'installer' ? installerSignupSchema : signupSchema).parse({ email, password, name, region, organization });
       }
       setErrors({});
       return true;
@@ -79,10 +93,12 @@ const Auth = () => {
           description: 'Successfully logged in.',
         });
       } else {
-        await signUp(email, password, name, role, region);
+        await signUp(email, password, name, role, region, role === 'installer' ? organization.trim() : undefined);
         toast({
           title: 'Account created!',
-          description: 'Welcome to TopRoof Solar Verification.',
+          description: requiresRoleApproval(role)
+            ? `Your ${ROLE_LABELS[role]} access is awaiting administrator approval.`
+            : 'Welcome to TopRoof Solar Verification.',
         });
       }
     } catch (error: any) {
@@ -96,6 +112,8 @@ const Auth = () => {
         message = 'No account found with this email.';
       } else if (error.code === 'auth/wrong-password') {
         message = 'Incorrect password.';
+      } else if (error.code === 'auth/user-disabled') {
+        message = 'This account has been disabled. Please contact an administrator.';
       }
 
       toast({
@@ -148,20 +166,39 @@ const Auth = () => {
                 onClick={() => setRole('user')}
               >
                 <User className="h-4 w-4" />
-                User
+                Applicant
               </Button>
               <Button
                 type="button"
-                variant={role === 'officer' ? 'default' : 'outline'}
+                variant={role !== 'user' ? 'default' : 'outline'}
                 className="flex-1 gap-2"
                 onClick={() => setRole('officer')}
               >
                 <Shield className="h-4 w-4" />
-                Officer
+                Staff
               </Button>
             </div>
           )}
 
+          {!isLogin && role !== 'user' && (
+            <div className="space-y-2 mb-6">
+              <Label htmlFor="role">Requested Role</Label>
+              <select
+                id="role"
+                className="flex h-11 w-full rounded-lg border-2 border-input bg-card px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                value={role}
+                onChange={(e) => setRole(e.target.value as UserRole)}
+              >
+                {STAFF_ROLES.map((r) => (
+                  <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                You can submit applications right away; staff access starts once an administrator approves it.
+              </p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4">
             {!isLogin && (
               <div className="space-y-2">
@@ -206,6 +243,21 @@ const Auth = () => {
               )}
             </div>
 
+            {!isLogin && role === 'installer' && (
+              <div className="space-y-2">
+                <Label htmlFor="organization">Installer Company</Label>
+                <Input
+                  id="organization"
+                  placeholder="Company you install for"
+                  value={organization}
+                  onChange={(e) => setOrganization(e.target.value)}
+                />
+                {errors.organization && (
+                  <p className="text-sm text-destructive">{errors.organization}</p>
+                )}
+              </div>
+            )}
+
             {!isLogin && (
               <div className="space-y-2">
                 <Label htmlFor="region">Region / State</Label>
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Application } from '@/lib/applicationService';
+import {
+  ConsentError,
+  completeConsentSignIn,
+  getConsentApplication,
+  isConsentSignInLink,
+  respondToConsent,
+  sendConsentEmail,
+} from '@/lib/installerPortal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Sun, Loader2, CheckCircle, XCircle, MapPin, Building2, FileText, ArrowLeft, Mail } from 'lucide-react';
+
+// Opened from the sign-in link emailed to the homeowner; signing in with it proves they own the address
+const Consent = () => {
+  const { applicationId } = useParams<{ applicationId: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [application, setApplication] = useState<Application | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notAuthorized, setNotAuthorized] = useState(false);
+  const [hasSignInLink, setHasSignInLink] = useState(() => isConsentSignInLink(window.location.href));
+  const [email, setEmail] = useState('');
+  const [submittingEmail, setSubmittingEmail] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [responding, setResponding] = useState(false);
+
+  useEffect(() => {
+    if (authLoading || !applicationId) return;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    getConsentApplication(applicationId)
+      .then((app) => {
+        setApplication(app);
+        setNotAuthorized(false);
+      })
+      .catch((error) => {
+        if (!(error instanceof ConsentError)) console.error('Error loading application:', error);
+        setNotAuthorized(true);
+      })
+      .finally(() => setLoading(false));
+  }, [applicationId, user, authLoading]);
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!applicationId || !email.trim()) return;
+    setSubmittingEmail(true);
+    try {
+      if (hasSignInLink) {
+        await completeConsentSignIn(email, window.location.href);
+        // The link works once; drop it from the address bar
+        window.history.replaceState(null, '', `/consent/${applicationId}`);
+        setHasSignInLink(false);
+      } else {
+        await sendConsentEmail(applicationId, email.trim().toLowerCase());
+        setLinkSent(true);
+      }
+    } catch (error) {
+      console.error('Consent sign-in failed:', error);
+      toast({
+        title: hasSignInLink ? 'Could Not Sign You In' : 'Could Not Send the Link',
+        description: hasSignInLink
+          ? 'Check that this is the address the link was sent to. Links expire and work only once; you can request a new one.'
+          : 'Please check the address and try again.',
+        variant: 'destructive',
+      });
+      if (hasSignInLink) setHasSignInLink(false);
+    } finally {
+      setSubmittingEmail(false);
+    }
+  };
+
+  const handleRespond = async (confirmed: boolean) => {
+    if (!application) return;
+    setResponding(true);
+    try {
+      const status = await respondToConsent(application.id, confirmed);
+      setApplication({ ...application, consentStatus: status, consentRespondedAt: new Date().toISOString() });
+    } catch (error) {
+      toast({
+        title: 'Could Not Save Your Answer',
+        description: error instanceof ConsentError ? error.message : 'Please try again in a moment.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const needsSignIn = !user || notAuthorized;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+      <div className="absolute inset-0 hero-gradient opacity-10" />
+
+      <Card className="w-full max-w-lg relative animate-slide-up">
+        <CardHeader className="text-center">
+          <Link to="/" className="inline-flex items-center gap-2 justify-center mb-4 group">
+            <div className="p-2 rounded-lg solar-gradient shadow-solar group-hover:shadow-hover transition-all">
+              <Sun className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <span className="font-bold text-xl">TopRoof Solar</span>
+          </Link>
+          <CardTitle className="text-2xl">Confirm Your Application</CardTitle>
+          <CardDescription>
+            Your installer submitted a rooftop solar verification request in your name
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {authLoading || loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : linkSent ? (
+            <p className="text-center py-8 text-muted-foreground">
+              If {email.trim()} is the address on this application, a new link is on its way. Open it from
+              your inbox to continue.
+            </p>
+          ) : needsSignIn ? (
+            <form onSubmit={handleEmailSubmit} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {hasSignInLink
+                  ? 'Enter the email address this link was sent to.'
+                  : 'Open the link from the email we sent you, or enter your email address to get a new one.'}
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="consentEmail">Email</Label>
+                <Input
+                  id="consentEmail"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full gap-2" disabled={submittingEmail}>
+                {submittingEmail ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                {hasSignInLink ? 'Continue' : 'Email Me a Link'}
+              </Button>
+            </form>
+          ) : !application ? (
+            <p className="text-center py-8 text-muted-foreground">
+              This application could not be found. Please contact your installer.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div className="space-y-3 p-4 rounded-lg border bg-muted/30 text-sm">
+                <p className="font-semibold text-base">{application.userName}</p>
+                <p className="flex items-center gap-2">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  Sample ID {application.sampleId}
+                </p>
+                {application.address && (
+                  <p className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    {application.address}
+                  </p>
+                )}
+                {application.installerCompany && (
+                  <p className="flex items-center gap-2">
+                    <Building2 className="h-4 w-4 text-muted-foreground" />
+                    Submitted by {application.installerCompany}
+                  </p>
+                )}
+              </div>
+
+              {application.consentStatus === 'pending' ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Confirm only if this installation is at your property and you agree to the installer
+                    applying for verification and subsidy on your behalf.
+                  </p>
+                  <div className="flex gap-3">
+                    <Button
+                      variant="success"
+                      className="flex-1 gap-2"
+                      onClick={() => handleRespond(true)}
+                      disabled={responding}
+                    >
+                      {responding ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+                      Confirm
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="flex-1 gap-2"
+                      onClick={() => handleRespond(false)}
+                      disabled={responding}
+                    >
+                      <XCircle className="h-4 w-4" />
+                      This Isn't Mine
+                    </Button>
+                  </div>
+                </>
+              ) : application.consentStatus === 'confirmed' ? (
+                <div className="p-4 rounded-lg border bg-green-50 border-green-200 text-green-700 flex items-center gap-2">
+                  <CheckCircle className="h-5 w-5 shrink-0" />
+                  Thank you. You confirmed this application
+                  {application.consentRespondedAt ? ` on ${new Date(application.consentRespondedAt).toLocaleDateString()}` : ''}.
+                </div>
+              ) : (
+                <div className="p-4 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-center gap-2">
+                  <XCircle className="h-5 w-5 shrink-0" />
+                  You declined this application. Our officers will be notified when they review it.
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link
+              to="/"
+              className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Consent;
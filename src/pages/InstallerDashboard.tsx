@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Application } from '@/lib/applicationService';
+import { getInstallerStats, sendConsentEmail, subscribeInstallerApplications } from '@/lib/installerPortal';
+import { getRejectionReasonLabel } from '@/lib/rejectionReasons';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import ApplicationCard from '@/components/ApplicationCard';
+import ResubmitDialog from '@/components/ResubmitDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Plus,
+  FileText,
+  Clock,
+  Loader2,
+  BarChart3,
+  HelpCircle,
+  Upload,
+  Mail,
+  MailCheck,
+  Percent,
+} from 'lucide-react';
+
+const InstallerDashboard = () => {
+  const { user, userProfile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [resubmitting, setResubmitting] = useState<Application | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      const unsubscribe = subscribeInstallerApplications(user.uid, (apps) => {
+        setApplications(apps);
+        setLoading(false);
+      });
+      return () => unsubscribe();
+    }
+  }, [user]);
+
+  const resendConsentEmail = async (app: Application) => {
+    setResendingId(app.id);
+    try {
+      await sendConsentEmail(app.id, app.userEmail);
+      toast({ title: 'Email Sent', description: `${app.userName} has been sent a new link to confirm.` });
+    } catch (error) {
+      toast({
+        title: 'Email Failed',
+        description: error instanceof Error ? error.message : 'Could not send the consent email.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const stats = getInstallerStats(applications);
+  const needsInfo = applications.filter(a => a.status === 'needs_info');
+  const awaitingConsent = applications.filter(a => a.consentStatus === 'pending');
+
+  return (
+    <div className="min-h-screen flex flex-col bg-muted/30">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">
+              <span className="text-primary">{userProfile?.organization || userProfile?.name}</span>
+            </h1>
+            <p className="text-muted-foreground">
+              Applications submitted for your customers
+            </p>
+          </div>
+          <Link to="/apply">
+            <Button variant="hero" size="lg" className="gap-2">
+              <Plus className="h-5 w-5" />
+              New Customer Application
+            </Button>
+          </Link>
+        </div>
+
+        {/* Stats Grid */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          <Card>
+            <CardContent className="p-4 flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-primary/10">
+                <FileText className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{stats.total}</p>
+                <p className="text-sm text-muted-foreground">Submitted</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-amber-100">
+                <Clock className="h-6 w-6 text-amber-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{stats.inProgress}</p>
+                <p className="text-sm text-muted-foreground">In Progress</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-blue-100">
+                <Mail className="h-6 w-6 text-blue-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{stats.awaitingConsent}</p>
+                <p className="text-sm text-muted-foreground">Awaiting Consent</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-green-100">
+                <Percent className="h-6 w-6 text-green-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{stats.approvalRate === null ? '—' : `${stats.approvalRate}%`}</p>
+                <p className="text-sm text-muted-foreground">
+                  Approval Rate ({stats.approved}/{stats.approved + stats.rejected})
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Information requests awaiting the installer */}
+        {needsInfo.length > 0 && (
+          <Card className="mb-8 border-orange-200 bg-orange-50/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-orange-700">
+                <HelpCircle className="h-5 w-5" />
+                Action Needed
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {needsInfo.map((app) => (
+                <div key={app.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-lg border bg-card">
+                  <div className="space-y-2">
+                    <p className="font-semibold">{app.sampleId} · {app.userName}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {(app.rejectionReasons || []).map((code) => (
+                        <Badge key={code} variant="outline">{getRejectionReasonLabel(code)}</Badge>
+                      ))}
+                    </div>
+                    {app.officerNotes && (
+                      <p className="text-sm text-muted-foreground">{app.officerNotes}</p>
+                    )}
+                  </div>
+                  <Button className="gap-2 shrink-0" onClick={() => setResubmitting(app)}>
+                    <Upload className="h-4 w-4" />
+                    Resubmit
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Consent emails not yet answered */}
+        {awaitingConsent.length > 0 && (
+          <Card className="mb-8 border-blue-200 bg-blue-50/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-blue-700">
+                <MailCheck className="h-5 w-5" />
+                Awaiting Customer Consent
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {awaitingConsent.map((app) => (
+                <div key={app.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-lg border bg-card">
+                  <div>
+                    <p className="font-semibold">{app.sampleId} · {app.userName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {app.userEmail} · submitted {new Date(app.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2 shrink-0"
+                    onClick={() => resendConsentEmail(app)}
+                    disabled={resendingId === app.id}
+                  >
+                    {resendingId === app.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                    Resend Email
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Applications List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-primary" />
+              Customer Applications
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {applications.length === 0 ? (
+              <div className="text-center py-12">
+                <FileText className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No applications yet</h3>
+                <p className="text-muted-foreground mb-4">
+                  Submit an application for a customer to get started.
+                </p>
+                <Link to="/apply">
+                  <Button variant="hero" className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    New Customer Application
+                  </Button>
+                </Link>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {applications.map((app) => (
+                  <ApplicationCard
+                    key={app.id}
+                    application={app}
+                    showUserInfo
+                    onClick={() => navigate(`/application/${app.id}`)}
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+
+      {resubmitting && (
+        <ResubmitDialog
+          key={resubmitting.id}
+          application={resubmitting}
+          userId={user!.uid}
+          onClose={() => setResubmitting(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default InstallerDashboard;
@@ -1,16 +1,47 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Application, getAllApplications, reviewApplication, processApplication } from '@/lib/applicationService';
-import { exportAllApplicationsJSON, exportApplicationsCSV, exportApplicationJSON } from '@/lib/exportUtils';
+import {
+  Application,
+  ApplicationFilter,
+  ApplicationStats,
+  ApplicationStatus,
+  fetchAllApplications,
+  subscribeApplicationStats,
+  reviewApplication,
+  processApplication,
+  updateOfficerNotes,
+  rebuildApplicationIndexes,
+} from '@/lib/applicationService';
+import { useApplicationFeed } from '@/hooks/use-application-feed';
+import { getAllAuditTrails, getAuditTrail } from '@/lib/auditTrail';
+import { isDataUrl, migrateBase64Images } from '@/lib/imageStorage';
+import { ApplicationTransitionError, hasCustomerConsent } from '@/lib/applicationStateMachine';
+import {
+  exportAllApplicationsJSON,
+  exportApplicationsCSV,
+  exportApplicationsXLSX,
+  exportApplicationsGeoJSON,
+  exportApplicationsKML,
+  exportApplicationJSON,
+} from '@/lib/exportUtils';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import ApplicationCard from '@/components/ApplicationCard';
 import ImageZoomModal from '@/components/ImageZoomModal';
 import SolarDetectionOverlay from '@/components/SolarDetectionOverlay';
+import CapacityRiskFlag from '@/components/CapacityRiskFlag';
+import PossibleDuplicates from '@/components/PossibleDuplicates';
+import ReviewAssignment from '@/components/ReviewAssignment';
+import SupervisorSignOff from '@/components/SupervisorSignOff';
+import ReviewDialog, { ReasonedDecision } from '@/components/ReviewDialog';
+import { RejectionReasonCode } from '@/lib/rejectionReasons';
+import { getApprovalPolicy, requiresSupervisorApproval, subscribeApprovalPolicy } from '@/lib/approvalPolicy';
+import { hasPermission } from '@/lib/roles';
+import { ReviewOfficer } from '@/lib/reviewQueue';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { 
@@ -29,74 +60,105 @@ import {
   Download,
   FileJson,
   FileSpreadsheet,
-  ZoomIn
+  Sheet,
+  Map as MapIcon,
+  Globe,
+  ZoomIn,
+  Save,
+  CloudUpload,
+  RefreshCw,
+  UserCheck,
+  HelpCircle
 } from 'lucide-react';
 
 const OfficerDashboard = () => {
-  const { user, userProfile, loading: authLoading } = useAuth();
-  const navigate = useNavigate();
+  const { user, userProfile } = useAuth();
   const { toast } = useToast();
   
-  const [applications, setApplications] = useState<Application[]>([]);
-  const [filteredApps, setFilteredApps] = useState<Application[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [regionFilter, setRegionFilter] = useState<string>('all');
+  const [queueView, setQueueView] = useState<'all' | 'mine'>('all');
   const [selectedApp, setSelectedApp] = useState<Application | null>(null);
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [reviewingId, setReviewingId] = useState<string | null>(null);
   const [showImageZoom, setShowImageZoom] = useState(false);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [pendingDecision, setPendingDecision] = useState<ReasonedDecision | null>(null);
+  const [savingNotes, setSavingNotes] = useState(false);
+  const [migrationProgress, setMigrationProgress] = useState<string | null>(null);
+  const [stats, setStats] = useState<ApplicationStats | null>(null);
+  const [approvalPolicy, setApprovalPolicy] = useState(getApprovalPolicy);
+  const [rebuildingIndexes, setRebuildingIndexes] = useState(false);
+  const [knownRegions, setKnownRegions] = useState<string[]>([]);
 
+  // Status and region are filtered by the database; the search term only within loaded results
+  const filter = useMemo<ApplicationFilter>(() => ({
+    status: statusFilter === 'all' ? undefined : statusFilter as ApplicationStatus,
+    region: regionFilter === 'all' ? undefined : regionFilter,
+    assignedTo: queueView === 'mine' ? user?.uid : undefined,
+  }), [statusFilter, regionFilter, queueView, user]);
+  const { applications, loading, hasMore, loadMore } = useApplicationFeed(filter);
+
+  // Auditors and admins get the same view without the review actions
+  const canReview = hasPermission(userProfile?.role, 'applications:review');
+  const canMaintain = hasPermission(userProfile?.role, 'system:maintain');
+
+  const officer = useMemo<ReviewOfficer | null>(
+    () => user && canReview ? { uid: user.uid, name: userProfile?.name || user.email || 'Officer' } : null,
+    [user, userProfile, canReview]
+  );
+
+  // Keep the open application in step with live updates (assignment, AI results)
   useEffect(() => {
-    if (!authLoading && (!user || userProfile?.role !== 'officer')) {
-      navigate('/auth');
-    }
-  }, [user, userProfile, authLoading, navigate]);
+    setSelectedApp((current) => current ? applications.find(a => a.id === current.id) || current : current);
+  }, [applications]);
+
+  const handleSelectApp = (app: Application) => {
+    setSelectedApp(app);
+    setReviewNotes(app.officerNotes || '');
+  };
 
   useEffect(() => {
-    const unsubscribe = getAllApplications((apps) => {
-      setApplications(apps);
-      setLoading(false);
-    });
+    const unsubscribe = subscribeApplicationStats(setStats);
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => subscribeApprovalPolicy(setApprovalPolicy), []);
+
+  // Keep regions seen so far selectable while a region filter narrows the list
   useEffect(() => {
-    let filtered = [...applications];
-    
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(app => {
-        const sampleId = app.sampleId?.toLowerCase() || '';
-        const userName = app.userName?.toLowerCase() || '';
-        const userEmail = app.userEmail?.toLowerCase() || '';
-        const address = app.address?.toLowerCase() || '';
-        const region = app.region?.toLowerCase() || '';
-        
-        return sampleId.includes(term) ||
-          userName.includes(term) ||
-          userEmail.includes(term) ||
-          address.includes(term) ||
-          region.includes(term);
-      });
-    }
-    
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(app => app.status === statusFilter);
-    }
-    
-    if (regionFilter !== 'all') {
-      filtered = filtered.filter(app => app.region === regionFilter);
-    }
+    setKnownRegions((current) => {
+      const merged = new Set([...current, ...applications.map(a => a.region).filter(Boolean)]);
+      return merged.size === current.length ? current : [...merged].sort();
+    });
+  }, [applications]);
+
+  const matchesSearch = (app: Application) => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    const sampleId = app.sampleId?.toLowerCase() || '';
+    const userName = app.userName?.toLowerCase() || '';
+    const userEmail = app.userEmail?.toLowerCase() || '';
+    const address = app.address?.toLowerCase() || '';
+    const region = app.region?.toLowerCase() || '';
     
-    setFilteredApps(filtered);
-  }, [applications, searchTerm, statusFilter, regionFilter]);
+    return sampleId.includes(term) ||
+      userName.includes(term) ||
+      userEmail.includes(term) ||
+      address.includes(term) ||
+      region.includes(term);
+  };
+
+  const filteredApps = applications.filter(matchesSearch);
+
+  // Exports cover every matching application, not just the loaded pages
+  const fetchExportApps = async () => (await fetchAllApplications(filter)).filter(matchesSearch);
 
   const handleRunAI = async (appId: string) => {
     setProcessingId(appId);
     try {
-      await processApplication(appId);
+      await processApplication(appId, user!.uid);
       toast({
         title: 'AI Processing Complete',
         description: 'Solar panel detection analysis is ready for review.',
@@ -104,7 +166,7 @@ const OfficerDashboard = () => {
     } catch (error) {
       toast({
         title: 'Processing Failed',
-        description: 'Could not process the application. Please try again.',
+        description: error instanceof Error ? error.message : 'Could not process the application. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -112,19 +174,56 @@ const OfficerDashboard = () => {
     }
   };
 
-  const handleReview = async (appId: string, status: 'approved' | 'rejected', notes?: string) => {
-    setReviewingId(appId);
+  const handleSaveNotes = async (appId: string) => {
+    setSavingNotes(true);
     try {
-      await reviewApplication(appId, status, user!.uid, notes);
+      await updateOfficerNotes(appId, reviewNotes, user!.uid);
       toast({
-        title: status === 'approved' ? 'Application Approved' : 'Application Rejected',
-        description: `The application has been ${status}.`,
+        title: 'Notes Saved',
+        description: 'Officer notes have been updated.',
       });
+    } catch (error) {
+      toast({
+        title: 'Save Failed',
+        description: 'Could not save the notes. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingNotes(false);
+    }
+  };
+
+  const handleReview = async (
+    appId: string,
+    status: 'approved' | ReasonedDecision,
+    notes?: string,
+    reasons: RejectionReasonCode[] = []
+  ) => {
+    setReviewingId(appId);
+    try {
+      const result = await reviewApplication(appId, status, user!.uid, notes, reasons);
+      toast(result === 'pending_supervisor'
+        ? {
+          title: 'Sent for Sign-off',
+          description: 'The subsidy is at or above the approval threshold and now awaits a supervisor.',
+        }
+        : result === 'needs_info'
+          ? {
+            title: 'Information Requested',
+            description: 'The applicant has been asked to resubmit.',
+          }
+          : {
+            title: status === 'approved' ? 'Application Approved' : 'Application Rejected',
+            description: `The application has been ${status}.`,
+          });
+      setPendingDecision(null);
       setSelectedApp(null);
     } catch (error) {
       toast({
         title: 'Review Failed',
-        description: 'Could not update the application. Please try again.',
+        description: error instanceof ApplicationTransitionError
+          ? error.message
+          : 'Could not update the application. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -132,63 +231,108 @@ const OfficerDashboard = () => {
     }
   };
 
-  const handleExportJSON = () => {
-    if (filteredApps.length === 0) {
+  // Fetches every application matching the filters, then writes the file; failures are shown, not thrown
+  const runExport = async (formatLabel: string, write: (apps: Application[]) => void | Promise<void>) => {
+    try {
+      const exportApps = await fetchExportApps();
+      if (exportApps.length === 0) {
+        toast({
+          title: 'No Data',
+          description: 'No applications to export.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      await write(exportApps);
+      toast({
+        title: 'Export Complete',
+        description: `Exported ${exportApps.length} applications as ${formatLabel}.`,
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
       toast({
-        title: 'No Data',
-        description: 'No applications to export.',
+        title: 'Export Failed',
+        description: 'Could not export the applications. Please try again.',
         variant: 'destructive',
       });
-      return;
     }
-    exportAllApplicationsJSON(filteredApps);
-    toast({
-      title: 'Export Complete',
-      description: `Exported ${filteredApps.length} applications as JSON.`,
-    });
   };
 
-  const handleExportCSV = () => {
-    if (filteredApps.length === 0) {
+  const handleExportJSON = () => runExport('JSON', async (exportApps) => {
+    exportAllApplicationsJSON(exportApps, await getAllAuditTrails());
+  });
+
+  const handleExportCSV = () => runExport('CSV', exportApplicationsCSV);
+
+  const handleExportXLSX = () => runExport('Excel', exportApplicationsXLSX);
+
+  const handleExportMap = (format: 'geojson' | 'kml') => runExport(
+    format === 'geojson' ? 'GeoJSON' : 'KML',
+    format === 'geojson' ? exportApplicationsGeoJSON : exportApplicationsKML
+  );
+
+  const handleExportSingleJSON = async (app: Application) => {
+    try {
+      exportApplicationJSON(app, await getAuditTrail(app.id));
+      toast({
+        title: 'Export Complete',
+        description: `Exported verification result for ${app.sampleId}.`,
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
       toast({
-        title: 'No Data',
-        description: 'No applications to export.',
+        title: 'Export Failed',
+        description: 'Could not load the audit trail for this application. Please try again.',
         variant: 'destructive',
       });
-      return;
     }
-    exportApplicationsCSV(filteredApps);
-    toast({
-      title: 'Export Complete',
-      description: `Exported ${filteredApps.length} applications as CSV.`,
-    });
   };
 
-  const handleExportSingleJSON = (app: Application) => {
-    exportApplicationJSON(app);
-    toast({
-      title: 'Export Complete',
-      description: `Exported verification result for ${app.sampleId}.`,
-    });
-  };
+  const legacyImageCount = applications.filter(a => isDataUrl(a.imageUrl)).length;
+  // Records created before indexing existed are invisible to filtered queries until backfilled
+  const hasUnindexedApps = applications.some(a => !a.statusCreatedAt || !a.geohash);
 
-  const stats = {
-    total: applications.length,
-    pending: applications.filter(a => a.status === 'pending').length,
-    aiCompleted: applications.filter(a => a.status === 'ai_completed').length,
-    approved: applications.filter(a => a.status === 'approved').length,
-    rejected: applications.filter(a => a.status === 'rejected').length,
+  const handleRebuildIndexes = async () => {
+    setRebuildingIndexes(true);
+    try {
+      const count = await rebuildApplicationIndexes();
+      toast({
+        title: 'Indexes Rebuilt',
+        description: `Indexed ${count} applications.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Index Rebuild Failed',
+        description: error instanceof Error ? error.message : 'Could not rebuild indexes. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRebuildingIndexes(false);
+    }
   };
 
-  const regions = [...new Set(applications.map(a => a.region))].filter(Boolean);
+  const handleMigrateImages = async () => {
+    setMigrationProgress(`0/${legacyImageCount}`);
+    try {
+      const result = await migrateBase64Images((done, total) => setMigrationProgress(`${done}/${total}`));
+      toast({
+        title: 'Image Migration Complete',
+        description: result.failed.length > 0
+          ? `Moved ${result.migrated} images to storage; ${result.failed.length} failed and can be retried.`
+          : `Moved ${result.migrated} images to storage.`,
+        variant: result.failed.length > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Image Migration Failed',
+        description: error instanceof Error ? error.message : 'Could not migrate images. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setMigrationProgress(null);
+    }
+  };
 
-  if (authLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-      </div>
-    );
-  }
 
   return (
     <div className="min-h-screen flex flex-col bg-muted/30">
@@ -210,7 +354,35 @@ const OfficerDashboard = () => {
           </div>
           
           {/* Export Buttons */}
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
+            {canMaintain && hasUnindexedApps && (
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={handleRebuildIndexes}
+                disabled={rebuildingIndexes}
+              >
+                {rebuildingIndexes ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                Rebuild Indexes
+              </Button>
+            )}
+            {canMaintain && legacyImageCount > 0 && (
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={handleMigrateImages}
+                disabled={migrationProgress !== null}
+              >
+                {migrationProgress !== null ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <CloudUpload className="h-4 w-4" />
+                )}
+                {migrationProgress !== null
+                  ? `Migrating ${migrationProgress}`
+                  : `Migrate ${legacyImageCount} Images`}
+              </Button>
+            )}
             <Button variant="outline" className="gap-2" onClick={handleExportJSON}>
               <FileJson className="h-4 w-4" />
               Export JSON
@@ -219,14 +391,26 @@ const OfficerDashboard = () => {
               <FileSpreadsheet className="h-4 w-4" />
               Export CSV
             </Button>
+            <Button variant="outline" className="gap-2" onClick={handleExportXLSX}>
+              <Sheet className="h-4 w-4" />
+              Export Excel
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => handleExportMap('geojson')}>
+              <MapIcon className="h-4 w-4" />
+              GeoJSON
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => handleExportMap('kml')}>
+              <Globe className="h-4 w-4" />
+              KML
+            </Button>
           </div>
         </div>
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
-          {loading ? (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-8">
+          {!stats ? (
             <>
-              {[...Array(5)].map((_, i) => (
+              {[...Array(6)].map((_, i) => (
                 <Card key={i}>
                   <CardContent className="p-4 text-center">
                     <div className="h-6 w-6 mx-auto mb-2 bg-muted animate-pulse rounded" />
@@ -241,35 +425,42 @@ const OfficerDashboard = () => {
           <Card>
             <CardContent className="p-4 text-center">
               <FileText className="h-6 w-6 mx-auto mb-2 text-primary" />
-              <p className="text-2xl font-bold">{stats.total}</p>
+              <p className="text-2xl font-bold">{stats?.total ?? 0}</p>
               <p className="text-xs text-muted-foreground">Total</p>
             </CardContent>
           </Card>
           <Card>
             <CardContent className="p-4 text-center">
               <Clock className="h-6 w-6 mx-auto mb-2 text-amber-500" />
-              <p className="text-2xl font-bold">{stats.pending}</p>
+              <p className="text-2xl font-bold">{stats?.pending ?? 0}</p>
               <p className="text-xs text-muted-foreground">Pending AI</p>
             </CardContent>
           </Card>
           <Card>
             <CardContent className="p-4 text-center">
               <Zap className="h-6 w-6 mx-auto mb-2 text-purple-500" />
-              <p className="text-2xl font-bold">{stats.aiCompleted}</p>
+              <p className="text-2xl font-bold">{stats?.ai_completed ?? 0}</p>
               <p className="text-xs text-muted-foreground">Needs Review</p>
             </CardContent>
           </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <UserCheck className="h-6 w-6 mx-auto mb-2 text-indigo-500" />
+              <p className="text-2xl font-bold">{stats?.pending_supervisor ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Awaiting Sign-off</p>
+            </CardContent>
+          </Card>
           <Card>
             <CardContent className="p-4 text-center">
               <CheckCircle className="h-6 w-6 mx-auto mb-2 text-green-500" />
-              <p className="text-2xl font-bold">{stats.approved}</p>
+              <p className="text-2xl font-bold">{stats?.approved ?? 0}</p>
               <p className="text-xs text-muted-foreground">Approved</p>
             </CardContent>
           </Card>
           <Card>
             <CardContent className="p-4 text-center">
               <XCircle className="h-6 w-6 mx-auto mb-2 text-red-500" />
-              <p className="text-2xl font-bold">{stats.rejected}</p>
+              <p className="text-2xl font-bold">{stats?.rejected ?? 0}</p>
               <p className="text-xs text-muted-foreground">Rejected</p>
             </CardContent>
           </Card>
@@ -300,6 +491,8 @@ const OfficerDashboard = () => {
                   <option value="all">All Status</option>
                   <option value="pending">Pending</option>
                   <option value="ai_completed">Needs Review</option>
+                  <option value="pending_supervisor">Awaiting Sign-off</option>
+                  <option value="needs_info">Needs More Info</option>
                   <option value="approved">Approved</option>
                   <option value="rejected">Rejected</option>
                 </select>
@@ -310,7 +503,7 @@ const OfficerDashboard = () => {
                   onChange={(e) => setRegionFilter(e.target.value)}
                 >
                   <option value="all">All Regions</option>
-                  {regions.map(r => (
+                  {knownRegions.map(r => (
                     <option key={r} value={r}>{r}</option>
                   ))}
                 </select>
@@ -326,7 +519,27 @@ const OfficerDashboard = () => {
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Applications ({filteredApps.length})</span>
-                <Filter className="h-4 w-4 text-muted-foreground" />
+                <div className="flex items-center gap-2">
+                  {canReview && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant={queueView === 'all' ? 'default' : 'outline'}
+                        onClick={() => setQueueView('all')}
+                      >
+                        All
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={queueView === 'mine' ? 'default' : 'outline'}
+                        onClick={() => setQueueView('mine')}
+                      >
+                        My Queue
+                      </Button>
+                    </>
+                  )}
+                  <Filter className="h-4 w-4 text-muted-foreground" />
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent className="max-h-[600px] overflow-y-auto space-y-3">
@@ -358,12 +571,17 @@ const OfficerDashboard = () => {
                   <div 
                     key={app.id}
                     className={`cursor-pointer transition-all ${selectedApp?.id === app.id ? 'ring-2 ring-primary rounded-xl' : ''}`}
-                    onClick={() => setSelectedApp(app)}
+                    onClick={() => handleSelectApp(app)}
                   >
                     <ApplicationCard application={app} showUserInfo />
                   </div>
                 ))
               )}
+              {!loading && hasMore && (
+                <Button variant="outline" className="w-full" onClick={loadMore}>
+                  Load More
+                </Button>
+              )}
             </CardContent>
           </Card>
 
@@ -378,6 +596,14 @@ const OfficerDashboard = () => {
             <CardContent>
               {selectedApp ? (
                 <div className="space-y-6">
+                  {officer && (
+                    <ReviewAssignment
+                      application={selectedApp}
+                      officer={officer}
+                      canReassignAny={hasPermission(userProfile?.role, 'applications:reassign')}
+                    />
+                  )}
+
                   {/* Basic Info */}
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
@@ -506,9 +732,46 @@ const OfficerDashboard = () => {
                     </div>
                   )}
 
+                  <CapacityRiskFlag application={selectedApp} />
+
+                  <PossibleDuplicates application={selectedApp} readOnly={!canReview} />
+
+                  <SupervisorSignOff application={selectedApp} userId={user!.uid} userRole={userProfile?.role} />
+
+                  {/* Officer Notes */}
+                  {canReview && (
+                    <div className="space-y-2">
+                      <p className="text-muted-foreground text-sm">Officer Notes</p>
+                      <Textarea
+                        value={reviewNotes}
+                        onChange={(e) => setReviewNotes(e.target.value)}
+                        placeholder="Add review notes..."
+                        rows={3}
+                      />
+                      {(selectedApp.status === 'approved' || selectedApp.status === 'rejected') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => handleSaveNotes(selectedApp.id)}
+                          disabled={savingNotes || reviewNotes === (selectedApp.officerNotes || '')}
+                        >
+                          {savingNotes ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                          Save Notes
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {canReview && selectedApp.status === 'ai_completed' && !hasCustomerConsent(selectedApp) && (
+                    <p className="text-sm text-amber-700">
+                      The customer has not confirmed this installer submission, so it cannot be approved yet.
+                    </p>
+                  )}
+
                   {/* Actions */}
                   <div className="flex gap-3">
-                    {selectedApp.status === 'pending' && (
+                    {canReview && selectedApp.status === 'pending' && (
                       <Button 
                         variant="accent" 
                         className="flex-1 gap-2"
@@ -524,32 +787,37 @@ const OfficerDashboard = () => {
                       </Button>
                     )}
                     
-                    {selectedApp.status === 'ai_completed' && (
+                    {canReview && selectedApp.status === 'ai_completed' && (
                       <>
                         <Button 
                           variant="success" 
                           className="flex-1 gap-2"
-                          onClick={() => handleReview(selectedApp.id, 'approved')}
-                          disabled={reviewingId === selectedApp.id}
+                          onClick={() => handleReview(selectedApp.id, 'approved', reviewNotes)}
+                          disabled={reviewingId === selectedApp.id || !hasCustomerConsent(selectedApp)}
                         >
                           {reviewingId === selectedApp.id ? (
                             <Loader2 className="h-4 w-4 animate-spin" />
                           ) : (
                             <ThumbsUp className="h-4 w-4" />
                           )}
-                          Approve
+                          {requiresSupervisorApproval(selectedApp.subsidyAmount, approvalPolicy) ? 'Recommend Approval' : 'Approve'}
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          className="flex-1 gap-2"
+                          onClick={() => setPendingDecision('needs_info')}
+                          disabled={reviewingId === selectedApp.id}
+                        >
+                          <HelpCircle className="h-4 w-4" />
+                          Request Info
                         </Button>
                         <Button 
                           variant="destructive" 
                           className="flex-1 gap-2"
-                          onClick={() => handleReview(selectedApp.id, 'rejected')}
+                          onClick={() => setPendingDecision('rejected')}
                           disabled={reviewingId === selectedApp.id}
                         >
-                          {reviewingId === selectedApp.id ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <ThumbsDown className="h-4 w-4" />
-                          )}
+                          <ThumbsDown className="h-4 w-4" />
                           Reject
                         </Button>
                       </>
@@ -596,6 +864,16 @@ const OfficerDashboard = () => {
           title={`Rooftop - ${selectedApp.sampleId}`}
         />
       )}
+
+      {selectedApp && (
+        <ReviewDialog
+          decision={pendingDecision}
+          initialNotes={reviewNotes}
+          submitting={reviewingId === selectedApp.id}
+          onClose={() => setPendingDecision(null)}
+          onConfirm={(decision, reasons, notes) => handleReview(selectedApp.id, decision, notes, reasons)}
+        />
+      )}
     </div>
   );
 };
@@ -5,6 +5,10 @@ import { Application, getUserApplications } from '@/lib/applicationService';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import ApplicationCard from '@/components/ApplicationCard';
+import ResubmitDialog from '@/components/ResubmitDialog';
+import { getRejectionReasonLabel } from '@/lib/rejectionReasons';
+import { ROLE_LABELS } from '@/lib/roles';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { 
@@ -14,20 +18,17 @@ import {
   CheckCircle, 
   XCircle, 
   Loader2,
-  BarChart3
+  BarChart3,
+  HelpCircle,
+  Upload
 } from 'lucide-react';
 
 const UserDashboard = () => {
-  const { user, userProfile, loading: authLoading } = useAuth();
+  const { user, userProfile } = useAuth();
   const navigate = useNavigate();
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!authLoading && !user) {
-      navigate('/auth');
-    }
-  }, [user, authLoading, navigate]);
+  const [resubmitting, setResubmitting] = useState<Application | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -39,7 +40,7 @@ const UserDashboard = () => {
     }
   }, [user]);
 
-  if (authLoading || loading) {
+  if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -49,11 +50,13 @@ const UserDashboard = () => {
 
   const stats = {
     total: applications.length,
-    pending: applications.filter(a => ['pending', 'processing', 'ai_completed'].includes(a.status)).length,
+    pending: applications.filter(a => ['pending', 'processing', 'ai_completed', 'pending_supervisor'].includes(a.status)).length,
     approved: applications.filter(a => a.status === 'approved').length,
     rejected: applications.filter(a => a.status === 'rejected').length,
   };
 
+  const needsInfo = applications.filter(a => a.status === 'needs_info');
+
   return (
     <div className="min-h-screen flex flex-col bg-muted/30">
       <Navbar />
@@ -128,6 +131,46 @@ const UserDashboard = () => {
           </Card>
         </div>
 
+        {userProfile?.requestedRole && (
+          <div className="mb-8 p-4 rounded-lg border bg-blue-50 border-blue-200 text-sm flex items-center gap-2 text-blue-700">
+            <Clock className="h-4 w-4 shrink-0" />
+            Your request for {ROLE_LABELS[userProfile.requestedRole]} access is awaiting administrator approval.
+          </div>
+        )}
+
+        {/* Information requests awaiting the applicant */}
+        {needsInfo.length > 0 && (
+          <Card className="mb-8 border-orange-200 bg-orange-50/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-orange-700">
+                <HelpCircle className="h-5 w-5" />
+                Action Needed
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {needsInfo.map((app) => (
+                <div key={app.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-lg border bg-card">
+                  <div className="space-y-2">
+                    <p className="font-semibold">{app.sampleId}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {(app.rejectionReasons || []).map((code) => (
+                        <Badge key={code} variant="outline">{getRejectionReasonLabel(code)}</Badge>
+                      ))}
+                    </div>
+                    {app.officerNotes && (
+                      <p className="text-sm text-muted-foreground">{app.officerNotes}</p>
+                    )}
+                  </div>
+                  <Button className="gap-2 shrink-0" onClick={() => setResubmitting(app)}>
+                    <Upload className="h-4 w-4" />
+                    Resubmit
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Applications List */}
         <Card>
           <CardHeader>
@@ -167,6 +210,15 @@ const UserDashboard = () => {
       </main>
 
       <Footer />
+
+      {resubmitting && (
+        <ResubmitDialog
+          key={resubmitting.id}
+          application={resubmitting}
+          userId={user!.uid}
+          onClose={() => setResubmitting(null)}
+        />
+      )}
     </div>
   );
 };
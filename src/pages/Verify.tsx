@@ -0,0 +1,203 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { useParams, useSearchParams, useNavigate, Link } from 'react-router-dom';
+import {
+  PublicCertificate,
+  formatFingerprint,
+  getCertificateFingerprint,
+  getCertificatesBySampleId,
+  normalizeFingerprint,
+} from '@/lib/certificateRegistry';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Sun, Loader2, CheckCircle, XCircle, ShieldCheck, ArrowLeft, Search } from 'lucide-react';
+
+interface VerifiedCertificate extends PublicCertificate {
+  fingerprint: string;
+}
+
+// Public page for banks and DISCOMs to check a certificate without signing in
+const Verify = () => {
+  const { sampleId } = useParams<{ sampleId?: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [certificates, setCertificates] = useState<VerifiedCertificate[]>([]);
+  const [loading, setLoading] = useState(Boolean(sampleId));
+  const [sampleIdInput, setSampleIdInput] = useState(sampleId || '');
+  const [hashInput, setHashInput] = useState(searchParams.get('hash') || '');
+
+  useEffect(() => {
+    if (!sampleId) return;
+    setLoading(true);
+    getCertificatesBySampleId(sampleId)
+      .then((found) => Promise.all(
+        found.map(async (certificate) => ({ ...certificate, fingerprint: await getCertificateFingerprint(certificate) }))
+      ))
+      .then(setCertificates)
+      .catch((error) => {
+        console.error('Error loading certificates:', error);
+        setCertificates([]);
+      })
+      .finally(() => setLoading(false));
+  }, [sampleId]);
+
+  const checkedHash = normalizeFingerprint(searchParams.get('hash') || '');
+  const match = checkedHash ? certificates.find((certificate) => certificate.fingerprint === checkedHash) : undefined;
+  // With a fingerprint, only the matching entry is shown; other approvals under the same sample ID stay hidden
+  const shown = checkedHash ? (match ? [match] : []) : certificates;
+
+  const handleLookup = (e: FormEvent) => {
+    e.preventDefault();
+    const id = sampleIdInput.trim();
+    if (!id) return;
+    const hash = normalizeFingerprint(hashInput);
+    navigate(`/verify/${encodeURIComponent(id)}${hash ? `?hash=${hash}` : ''}`);
+  };
+
+  const handleCheck = (e: FormEvent) => {
+    e.preventDefault();
+    const hash = normalizeFingerprint(hashInput);
+    setSearchParams(hash ? { hash } : {});
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+      <div className="absolute inset-0 hero-gradient opacity-10" />
+
+      <Card className="w-full max-w-lg relative animate-slide-up">
+        <CardHeader className="text-center">
+          <Link to="/" className="inline-flex items-center gap-2 justify-center mb-4 group">
+            <div className="p-2 rounded-lg solar-gradient shadow-solar group-hover:shadow-hover transition-all">
+              <Sun className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <span className="font-bold text-xl">TopRoof Solar</span>
+          </Link>
+          <CardTitle className="text-2xl">Verify a Certificate</CardTitle>
+          <CardDescription>
+            Check a rooftop solar approval certificate against our register
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {!sampleId ? (
+            <form onSubmit={handleLookup} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="sampleId">Sample ID</Label>
+                <Input
+                  id="sampleId"
+                  value={sampleIdInput}
+                  onChange={(e) => setSampleIdInput(e.target.value)}
+                  placeholder="As printed on the certificate"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hash">Verification Fingerprint (optional)</Label>
+                <Input
+                  id="hash"
+                  value={hashInput}
+                  onChange={(e) => setHashInput(e.target.value)}
+                  placeholder="64 characters, spaces allowed"
+                  className="font-mono text-xs"
+                />
+              </div>
+              <Button type="submit" className="w-full gap-2" disabled={!sampleIdInput.trim()}>
+                <Search className="h-4 w-4" />
+                Look Up
+              </Button>
+            </form>
+          ) : loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : certificates.length === 0 ? (
+            <div className="p-4 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-center gap-2">
+              <XCircle className="h-5 w-5 shrink-0" />
+              No approved certificate is registered under sample ID {sampleId}.
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {checkedHash && (
+                match ? (
+                  <div className="p-4 rounded-lg border bg-green-50 border-green-200 text-green-700 flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5 shrink-0" />
+                    The fingerprint matches. This certificate is genuine.
+                  </div>
+                ) : (
+                  <div className="p-4 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-center gap-2">
+                    <XCircle className="h-5 w-5 shrink-0" />
+                    The fingerprint does not match any certificate issued under sample ID {sampleId}.
+                  </div>
+                )
+              )}
+
+              {shown.map((certificate) => (
+                <div key={certificate.applicationId} className="space-y-3 p-4 rounded-lg border bg-muted/30 text-sm">
+                  <div className="flex items-center justify-between">
+                    <p className="font-semibold text-base">Sample ID {certificate.sampleId}</p>
+                    <span className="inline-flex items-center gap-1 text-green-700 font-medium">
+                      <CheckCircle className="h-4 w-4" />
+                      Approved
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <p className="text-muted-foreground">Region</p>
+                      <p className="font-semibold">{certificate.region || '-'}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">System Capacity</p>
+                      <p className="font-semibold">
+                        {certificate.systemCapacity > 0 ? `${certificate.systemCapacity} kW` : '-'}
+                      </p>
+                    </div>
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground">Approved On</p>
+                      <p className="font-semibold">{new Date(certificate.approvedAt).toLocaleDateString()}</p>
+                    </div>
+                  </div>
+                  {match && (
+                    <p className="font-mono text-xs text-muted-foreground break-all">
+                      {formatFingerprint(certificate.fingerprint)}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <form onSubmit={handleCheck} className="space-y-2">
+                <Label htmlFor="hash">Fingerprint printed on the certificate</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="hash"
+                    value={hashInput}
+                    onChange={(e) => setHashInput(e.target.value)}
+                    placeholder="64 characters, spaces allowed"
+                    className="font-mono text-xs"
+                  />
+                  <Button type="submit" disabled={!hashInput.trim()}>Check</Button>
+                </div>
+              </form>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-between text-sm">
+            <Link
+              to="/"
+              className="inline-flex items-center gap-1 text-muted-foreground hover:text-primary transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Link>
+            {sampleId && (
+              <Link to="/verify" className="text-muted-foreground hover:text-primary transition-colors">
+                Check another certificate
+              </Link>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Verify;
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DETECTION_PROVIDER?: string;
+  readonly VITE_INFERENCE_URL?: string;
+  readonly VITE_ONNX_MODEL_URL?: string;
+  readonly VITE_ONNX_MODEL_SHA256?: string;
+  readonly VITE_MODULE_EFFICIENCY?: string;
+}
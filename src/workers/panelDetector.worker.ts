@@ -0,0 +1,183 @@
+// Web Worker running a YOLOv8 solar panel detector with ONNX Runtime Web (WASM/CPU)
+// Receives an ImageBitmap, letterboxes it to the model input size and returns
+// boxes normalised to the original image (0..1).
+
+import * as ort from 'onnxruntime-web/wasm';
+import type {
+  DetectorOptions,
+  DetectorRequestMessage,
+  DetectorResponseMessage,
+  NormalizedBox,
+  OnnxDetectorErrorCode,
+} from '@/lib/onnxDetector';
+
+ort.env.wasm.numThreads = 1;
+
+class ModelUnavailableError extends Error {}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Download the model and check it before handing it to ONNX Runtime. The dev server and most
+// static hosts answer unknown paths with index.html, so an HTML response counts as missing.
+const loadModel = async ({ modelUrl, modelSha256 }: DetectorOptions): Promise<Uint8Array> => {
+  const response = await fetch(modelUrl).catch(() => null);
+  if (!response?.ok || response.headers.get('Content-Type')?.includes('text/html')) {
+    throw new ModelUnavailableError(`ONNX model not found at ${modelUrl}`);
+  }
+
+  const bytes = await response.arrayBuffer();
+  if (modelSha256) {
+    const digest = toHex(await crypto.subtle.digest('SHA-256', bytes));
+    if (digest !== modelSha256) {
+      throw new ModelUnavailableError(`ONNX model at ${modelUrl} does not match the pinned SHA-256`);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const sessions = new Map<string, Promise<ort.InferenceSession>>();
+
+const getSession = (options: DetectorOptions): Promise<ort.InferenceSession> => {
+  const key = `${options.modelUrl}#${options.modelSha256}`;
+  let session = sessions.get(key);
+  if (!session) {
+    session = loadModel(options).then((model) => ort.InferenceSession.create(model, { executionProviders: ['wasm'] }));
+    // Drop failed loads so the next request can retry
+    session.catch(() => sessions.delete(key));
+    sessions.set(key, session);
+  }
+  return session;
+};
+
+interface Letterbox {
+  tensor: ort.Tensor;
+  scale: number;
+  padX: number;
+  padY: number;
+}
+
+// Resize with preserved aspect ratio onto a grey square canvas, then convert RGBA to CHW float32
+const letterbox = (bitmap: ImageBitmap, size: number): Letterbox => {
+  const scale = Math.min(size / bitmap.width, size / bitmap.height);
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const padX = (size - width) / 2;
+  const padY = (size - height) / 2;
+
+  const canvas = new OffscreenCanvas(size, size);
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = 'rgb(114, 114, 114)';
+  context.fillRect(0, 0, size, size);
+  context.drawImage(bitmap, padX, padY, width, height);
+  const { data } = context.getImageData(0, 0, size, size);
+
+  const area = size * size;
+  const input = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    input[i] = data[i * 4] / 255;
+    input[area + i] = data[i * 4 + 1] / 255;
+    input[2 * area + i] = data[i * 4 + 2] / 255;
+  }
+
+  return { tensor: new ort.Tensor('float32', input, [1, 3, size, size]), scale, padX, padY };
+};
+
+const iou = (a: NormalizedBox, b: NormalizedBox): number => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const nonMaxSuppression = (boxes: NormalizedBox[], iouThreshold: number, maxDetections: number): NormalizedBox[] => {
+  const sorted = [...boxes].sort((a, b) => b.confidence - a.confidence);
+  const kept: NormalizedBox[] = [];
+  for (const box of sorted) {
+    if (kept.length >= maxDetections) break;
+    if (kept.every(other => iou(box, other) < iouThreshold)) {
+      kept.push(box);
+    }
+  }
+  return kept;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// YOLOv8 exports [1, 4 + classes, anchors]; some exports are transposed to [1, anchors, 4 + classes]
+const decodeOutput = (
+  output: ort.Tensor,
+  bitmap: ImageBitmap,
+  { scale, padX, padY }: Letterbox,
+  options: DetectorOptions
+): NormalizedBox[] => {
+  const [, dimA, dimB] = output.dims;
+  const channelsFirst = dimA < dimB;
+  const channels = channelsFirst ? dimA : dimB;
+  const anchors = channelsFirst ? dimB : dimA;
+  const data = output.data as Float32Array;
+  const at = (channel: number, anchor: number) =>
+    channelsFirst ? data[channel * anchors + anchor] : data[anchor * channels + channel];
+
+  const boxes: NormalizedBox[] = [];
+  for (let anchor = 0; anchor < anchors; anchor++) {
+    let score = 0;
+    for (let channel = 4; channel < channels; channel++) {
+      score = Math.max(score, at(channel, anchor));
+    }
+    if (score < options.scoreThreshold) continue;
+
+    const cx = at(0, anchor);
+    const cy = at(1, anchor);
+    const w = at(2, anchor);
+    const h = at(3, anchor);
+
+    // Boxes may reach into the letterbox padding or past the frame; keep only the part inside the image
+    const x1 = clamp01((cx - w / 2 - padX) / scale / bitmap.width);
+    const y1 = clamp01((cy - h / 2 - padY) / scale / bitmap.height);
+    const x2 = clamp01((cx + w / 2 - padX) / scale / bitmap.width);
+    const y2 = clamp01((cy + h / 2 - padY) / scale / bitmap.height);
+    if (x2 <= x1 || y2 <= y1) continue;
+
+    boxes.push({ x: x1, y: y1, width: x2 - x1, height: y2 - y1, confidence: score });
+  }
+
+  return nonMaxSuppression(boxes, options.iouThreshold, options.maxDetections);
+};
+
+self.onmessage = async (event: MessageEvent<DetectorRequestMessage>) => {
+  const { id, bitmap, options } = event.data;
+  let response: DetectorResponseMessage;
+
+  try {
+    const started = performance.now();
+    const session = await getSession(options);
+    const prepared = letterbox(bitmap, options.inputSize);
+    const outputs = await session.run({ [session.inputNames[0]]: prepared.tensor });
+    const boxes = decodeOutput(outputs[session.outputNames[0]], bitmap, prepared, options);
+
+    response = {
+      id,
+      type: 'result',
+      boxes,
+      imageWidth: bitmap.width,
+      imageHeight: bitmap.height,
+      inferenceMs: Math.round(performance.now() - started),
+    };
+  } catch (error) {
+    const code: OnnxDetectorErrorCode = error instanceof ModelUnavailableError ? 'MODEL_UNAVAILABLE' : 'INFERENCE';
+    response = {
+      id,
+      type: 'error',
+      code,
+      message: error instanceof Error ? error.message : 'In-browser detection failed',
+    };
+  } finally {
+    bitmap.close();
+  }
+
+  self.postMessage(response);
+};
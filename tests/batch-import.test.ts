@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { buildBatchImport } from "@/lib/batchImport";
+import { APPLICATION_FIELD_MAX_LENGTHS } from "@/lib/fieldLimits";
+import databaseRules from "../database.rules.json";
+
+const HEADERS = ["sample_id", "latitude", "longitude", "region", "installation_type", "panel_brand", "inverter_brand"];
+
+const importRow = (values: Partial<Record<(typeof HEADERS)[number], string>>) => {
+  const row = { sample_id: "S-1", latitude: "28.61", longitude: "77.21", region: "Delhi", ...values };
+  return buildBatchImport([HEADERS, HEADERS.map((header) => row[header as keyof typeof row] ?? "")]).rows[0];
+};
+
+describe("batch row validation", () => {
+  it("accepts sample IDs up to the database limit", () => {
+    const row = importRow({ sample_id: "S".repeat(64) });
+    expect(row.errors).toEqual({});
+    expect(row.data?.sampleId).toHaveLength(64);
+  });
+
+  it("rejects a 65-character sample ID", () => {
+    const row = importRow({ sample_id: "S".repeat(65) });
+    expect(row.data).toBeNull();
+    expect(row.errors.sampleId).toBe("Sample ID must be 64 characters or fewer");
+  });
+
+  it("rejects brand and installation type text the database would refuse", () => {
+    const row = importRow({ installation_type: "x".repeat(101), panel_brand: "x".repeat(101), inverter_brand: "x".repeat(100) });
+    expect(Object.keys(row.errors).sort()).toEqual(["installationType", "panelBrand"]);
+  });
+});
+
+describe("APPLICATION_FIELD_MAX_LENGTHS", () => {
+  it("matches the length limits in database.rules.json", () => {
+    const fields = databaseRules.rules.applications.$appId as Record<string, Record<string, string>>;
+    for (const [field, max] of Object.entries(APPLICATION_FIELD_MAX_LENGTHS)) {
+      expect(fields[field][".validate"], field).toContain(`newData.val().length <= ${max}`);
+    }
+  });
+});
@@ -0,0 +1,791 @@
+// Security rule tests for database.rules.json, run against the local Realtime Database emulator
+// Usage: npm run test:rules  (needs the Firebase CLI and a Java runtime for the emulator)
+
+import { readFileSync } from 'node:fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+
+const CREATED_AT = '2026-01-15T10:00:00.000Z';
+
+let testEnv;
+
+const profile = (uid, role, extra = {}) => ({
+  uid,
+  email: `${uid}@example.com`,
+  name: uid,
+  role,
+  region: 'Delhi',
+  createdAt: CREATED_AT,
+  ...extra,
+});
+
+const application = (userId, status = 'pending', extra = {}) => ({
+  userId,
+  userName: userId,
+  userEmail: `${userId}@example.com`,
+  sampleId: `S-${userId}`,
+  latitude: 28.61,
+  longitude: 77.21,
+  address: 'Connaught Place',
+  region: 'Delhi',
+  imageUrl: '',
+  imagePath: '',
+  thumbnailUrl: '',
+  thumbnailPath: '',
+  imageHash: '',
+  installationType: 'Rooftop',
+  installationDate: '2026-01-01',
+  systemCapacity: 3,
+  installerCompany: '',
+  panelBrand: '',
+  inverterBrand: '',
+  subsidyAmount: 30000,
+  electricityProvider: '',
+  status,
+  assignedTo: '',
+  assignedToName: '',
+  assignedAt: '',
+  officerNotes: '',
+  reviewedBy: '',
+  reviewedAt: '',
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+  statusCreatedAt: `${status}|${CREATED_AT}`,
+  regionCreatedAt: `Delhi|${CREATED_AT}`,
+  regionStatusCreatedAt: `Delhi|${status}|${CREATED_AT}`,
+  assigneeCreatedAt: `|${CREATED_AT}`,
+  ...extra,
+});
+
+const aiResult = { has_solar: true, confidence: 0.92, capacity_kw_est: 3.1 };
+
+// Multi-path update entries for a status change, mirroring buildStatusUpdate in applicationService
+const statusUpdate = (appId, status) => ({
+  [`applications/${appId}/status`]: status,
+  [`applications/${appId}/statusCreatedAt`]: `${status}|${CREATED_AT}`,
+  [`applications/${appId}/regionStatusCreatedAt`]: `Delhi|${status}|${CREATED_AT}`,
+});
+
+// Multi-path update with rules disabled; keys may be nested paths such as 'users/carol'
+const seed = (updates) => testEnv.withSecurityRulesDisabled((context) => context.database().ref().update(updates));
+
+const dbFor = (uid) => testEnv.authenticatedContext(uid).database();
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-topsolar',
+    database: { rules: readFileSync(new URL('../database.rules.json', import.meta.url), 'utf8') },
+  });
+});
+
+after(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearDatabase();
+  await seed({
+    users: {
+      alice: profile('alice', 'user'),
+      bob: profile('bob', 'user'),
+      olivia: profile('olivia', 'officer'),
+      oscar: profile('oscar', 'officer'),
+      sam: profile('sam', 'supervisor'),
+      audrey: profile('audrey', 'auditor'),
+      ada: profile('ada', 'admin'),
+      ian: profile('ian', 'installer', { organization: 'Sunrise Installs' }),
+    },
+    applications: {
+      pending1: application('alice'),
+      review1: application('alice', 'ai_completed', { aiResult }),
+      noai1: application('alice', 'ai_completed'),
+      escalated1: application('alice', 'pending_supervisor', { aiResult, reviewedBy: 'olivia' }),
+      info1: application('alice', 'needs_info', { aiResult }),
+      bob1: application('bob'),
+    },
+    config: { supervisorApprovalThreshold: 50000 },
+  });
+});
+
+describe('reads', () => {
+  it('denies signed-out visitors', async () => {
+    await assertFails(testEnv.unauthenticatedContext().database().ref('applications').get());
+  });
+
+  it('has no blanket read for signed-in users', async () => {
+    await assertFails(dbFor('bob').ref().get());
+    await assertFails(dbFor('bob').ref('applications').get());
+    await assertFails(dbFor('bob').ref('users').get());
+  });
+
+  it('lets applicants read only their own applications', async () => {
+    await assertSucceeds(dbFor('alice').ref('applications/pending1').get());
+    await assertFails(dbFor('bob').ref('applications/pending1').get());
+    await assertSucceeds(dbFor('bob').ref('applications').orderByChild('userId').equalTo('bob').get());
+    await assertFails(dbFor('bob').ref('applications').orderByChild('userId').equalTo('alice').get());
+    await assertSucceeds(dbFor('bob').ref('applications/not-created-yet').get());
+  });
+
+  it('lets installers read the applications they filed', async () => {
+    await seed({ 'applications/cust1': application('ian', 'pending', { installerId: 'ian', consentStatus: 'pending' }) });
+    await assertSucceeds(dbFor('ian').ref('applications/cust1').get());
+    await assertSucceeds(dbFor('ian').ref('applications').orderByChild('installerId').equalTo('ian').get());
+    await assertFails(dbFor('ian').ref('applications').orderByChild('installerId').equalTo('bob').get());
+    await assertFails(dbFor('ian').ref('applications/pending1').get());
+  });
+
+  it('lets staff query every application', async () => {
+    for (const uid of ['olivia', 'sam', 'audrey', 'ada']) {
+      await assertSucceeds(dbFor(uid).ref('applications').orderByChild('statusCreatedAt').get());
+      await assertSucceeds(dbFor(uid).ref('applicationStats').get());
+      await assertSucceeds(dbFor(uid).ref('auditLog').get());
+    }
+    await seed({ 'users/olivia/disabled': true });
+    await assertFails(dbFor('olivia').ref('applications').get());
+  });
+
+  it('keeps counters, locks and other applicants\' audit trails from applicants', async () => {
+    await assertFails(dbFor('alice').ref('applicationStats').get());
+    await assertFails(dbFor('alice').ref('reviewLocks/pending1').get());
+    await assertFails(dbFor('alice').ref('reviewQueue/roundRobin').get());
+    await assertSucceeds(dbFor('alice').ref('auditLog/pending1').get());
+    await assertFails(dbFor('bob').ref('auditLog/pending1').get());
+  });
+
+  it('shows profiles to their owner and staff, and reviewer names to everyone signed in', async () => {
+    await assertSucceeds(dbFor('alice').ref('users/alice').get());
+    await assertFails(dbFor('alice').ref('users/bob').get());
+    await assertFails(dbFor('alice').ref('users/olivia').get());
+    await assertSucceeds(dbFor('alice').ref('users/olivia/name').get());
+    await assertFails(dbFor('bob').ref('users/alice/name').get());
+    await assertSucceeds(dbFor('olivia').ref('users/alice').get());
+  });
+
+  it('lets reviewers list officers and admins list everyone', async () => {
+    await assertSucceeds(dbFor('olivia').ref('users').orderByChild('role').equalTo('officer').get());
+    await assertFails(dbFor('olivia').ref('users').get());
+    await assertFails(dbFor('alice').ref('users').orderByChild('role').equalTo('officer').get());
+    await assertSucceeds(dbFor('ada').ref('users').get());
+    await assertSucceeds(dbFor('ada').ref('adminAuditLog').get());
+    await assertFails(dbFor('sam').ref('adminAuditLog').get());
+  });
+});
+
+describe('users', () => {
+  it('lets a new user create an applicant profile', async () => {
+    await assertSucceeds(dbFor('carol').ref('users/carol').set(profile('carol', 'user')));
+  });
+
+  it('rejects a self-assigned elevated role', async () => {
+    await assertFails(dbFor('carol').ref('users/carol').set(profile('carol', 'officer')));
+  });
+
+  it('accepts a staff role request but not an admin one', async () => {
+    await assertSucceeds(
+      dbFor('carol').ref('users/carol').set(profile('carol', 'user', { requestedRole: 'officer' }))
+    );
+    await assertFails(
+      dbFor('dave').ref('users/dave').set(profile('dave', 'user', { requestedRole: 'admin' }))
+    );
+  });
+
+  it('stops users promoting themselves', async () => {
+    await assertFails(dbFor('alice').ref('users/alice/role').set('supervisor'));
+    await assertFails(dbFor('olivia').ref('users/olivia/role').set('admin'));
+  });
+
+  it('lets users edit their own name but not other profiles', async () => {
+    await assertSucceeds(dbFor('alice').ref('users/alice/name').set('Alice A.'));
+    await assertFails(dbFor('alice').ref('users/bob/name').set('Mallory'));
+  });
+
+  it('lets an admin approve a role request', async () => {
+    await seed({ 'users/carol': profile('carol', 'user', { requestedRole: 'auditor' }) });
+    await assertSucceeds(dbFor('ada').ref('users/carol').update({
+      role: 'auditor',
+      requestedRole: null,
+      roleReviewedBy: 'ada',
+      roleReviewedAt: CREATED_AT,
+    }));
+  });
+
+  it('rejects unknown profile fields', async () => {
+    await assertFails(dbFor('alice').ref('users/alice/isAdmin').set(true));
+  });
+});
+
+describe('disabled accounts', () => {
+  it('lets only an admin disable another account', async () => {
+    await assertFails(dbFor('olivia').ref('users/bob/disabled').set(true));
+    await assertFails(dbFor('ada').ref('users/ada/disabled').set(true));
+    await assertSucceeds(dbFor('ada').ref('users/bob').update({
+      disabled: true,
+      disabledAt: CREATED_AT,
+      disabledBy: 'ada',
+    }));
+  });
+
+  it('stops disabled users clearing the flag or acting on applications', async () => {
+    await seed({ 'users/alice/disabled': true });
+    await assertFails(dbFor('alice').ref('users/alice/disabled').set(false));
+    await assertFails(dbFor('alice').ref('users/alice').set(profile('alice', 'user')));
+    await assertFails(dbFor('alice').ref('applications/new1').set(application('alice')));
+    await assertFails(dbFor('alice').ref().update(statusUpdate('pending1', 'processing')));
+  });
+
+  it('stops disabled users deleting and recreating their profile', async () => {
+    await seed({ 'users/alice': profile('alice', 'user', { disabled: true, disabledAt: CREATED_AT, disabledBy: 'ada' }) });
+    await assertFails(dbFor('alice').ref('users/alice').remove());
+    await assertFails(dbFor('alice').ref('users/alice/disabledBy').remove());
+    await assertFails(dbFor('alice').ref('users/alice').set(profile('alice', 'user')));
+  });
+
+  it('keeps profiles from being deleted by anyone but an admin', async () => {
+    await assertFails(dbFor('bob').ref('users/bob').remove());
+    await assertSucceeds(dbFor('ada').ref('users/bob').remove());
+  });
+});
+
+describe('admin audit log', () => {
+  const event = (actorId) => ({
+    type: 'role_changed',
+    targetUserId: 'bob',
+    actorId,
+    timestamp: CREATED_AT,
+    diff: { role: { from: 'user', to: 'officer' } },
+  });
+
+  it('accepts events from admins recorded under their own id', async () => {
+    await assertSucceeds(dbFor('ada').ref('adminAuditLog/e1').set(event('ada')));
+    await assertFails(dbFor('ada').ref('adminAuditLog/e2').set(event('sam')));
+    await assertFails(dbFor('sam').ref('adminAuditLog/e3').set(event('sam')));
+  });
+
+  it('never rewrites or removes events', async () => {
+    await seed({ 'adminAuditLog/e1': event('ada') });
+    await assertFails(dbFor('ada').ref('adminAuditLog/e1').remove());
+  });
+});
+
+describe('installer consent', () => {
+  const filed = (status = 'pending', extra = {}) => application('ian', status, {
+    installerId: 'ian',
+    userName: 'Carol',
+    userEmail: 'carol@example.com',
+    consentStatus: 'pending',
+    ...extra,
+  });
+
+  // Signed in through the emailed link, which verifies the address
+  const customerFor = (email, verified = true) =>
+    testEnv.authenticatedContext('carol', { email, email_verified: verified }).database();
+
+  beforeEach(async () => {
+    await seed({
+      'applications/ian1': filed(),
+      'applications/ianReview': filed('ai_completed', { aiResult }),
+    });
+  });
+
+  it('lets only installers file applications for customers, awaiting consent', async () => {
+    await assertSucceeds(dbFor('ian').ref('applications/new1').set(filed()));
+    await assertFails(dbFor('ian').ref('applications/new2').set(filed('pending', { consentStatus: 'confirmed' })));
+    await assertFails(dbFor('ian').ref('applications/new3').set(filed('pending', { consentStatus: null })));
+    await assertFails(dbFor('bob').ref('applications/new4').set(
+      application('bob', 'pending', { installerId: 'bob', consentStatus: 'pending' })
+    ));
+  });
+
+  it('shows the application to the customer\'s verified email only', async () => {
+    await assertSucceeds(customerFor('carol@example.com').ref('applications/ian1').get());
+    await assertFails(customerFor('carol@example.com', false).ref('applications/ian1').get());
+    await assertFails(customerFor('mallory@example.com').ref('applications/ian1').get());
+  });
+
+  it('lets the customer answer once', async () => {
+    const customer = customerFor('carol@example.com');
+    await assertFails(customer.ref('applications/ian1/sampleId').set('S-other'));
+    await assertSucceeds(customer.ref('applications/ian1').update({ consentStatus: 'confirmed', consentRespondedAt: CREATED_AT }));
+    await assertFails(customer.ref('applications/ian1').update({ consentStatus: 'declined', consentRespondedAt: CREATED_AT }));
+  });
+
+  it('keeps the installer and other accounts from answering', async () => {
+    await assertFails(dbFor('ian').ref('applications/ian1').update({ consentStatus: 'confirmed', consentRespondedAt: CREATED_AT }));
+    await assertFails(customerFor('mallory@example.com').ref('applications/ian1/consentStatus').set('confirmed'));
+    await assertFails(customerFor('carol@example.com', false).ref('applications/ian1/consentStatus').set('confirmed'));
+  });
+
+  it('blocks approval until the customer confirms', async () => {
+    const approve = {
+      ...statusUpdate('ianReview', 'approved'),
+      'applications/ianReview/reviewedBy': 'olivia',
+      'applications/ianReview/reviewedAt': CREATED_AT,
+    };
+    await assertFails(dbFor('olivia').ref().update(approve));
+    await assertSucceeds(dbFor('olivia').ref().update(statusUpdate('ianReview', 'rejected')));
+
+    await seed({ 'applications/ianReview': filed('ai_completed', { aiResult, consentStatus: 'confirmed' }) });
+    await assertSucceeds(dbFor('olivia').ref().update(approve));
+  });
+});
+
+describe('public certificates', () => {
+  const APPROVED_AT = '2026-02-01T09:30:00.000Z';
+  const certificate = (extra = {}) => ({
+    applicationId: 'approved1',
+    sampleId: 'S-alice',
+    status: 'approved',
+    region: 'Delhi',
+    systemCapacity: 3,
+    approvedAt: APPROVED_AT,
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    await seed({
+      'applications/approved1': application('alice', 'approved', { aiResult, reviewedBy: 'olivia', reviewedAt: APPROVED_AT }),
+    });
+  });
+
+  it('lets signed-out visitors look certificates up', async () => {
+    await seed({ 'certificates/approved1': certificate() });
+    const visitor = testEnv.unauthenticatedContext().database();
+    await assertSucceeds(visitor.ref('certificates').orderByChild('sampleId').equalTo('S-alice').get());
+    await assertFails(visitor.ref('certificates/approved1/systemCapacity').set(30));
+  });
+
+  it('publishes only entries matching an approved application', async () => {
+    await assertFails(dbFor('alice').ref('certificates/approved1').set(certificate({ systemCapacity: 30 })));
+    await assertFails(dbFor('alice').ref('certificates/approved1').set(certificate({ approvedAt: CREATED_AT })));
+    await assertFails(dbFor('alice').ref('certificates/review1').set(certificate({ applicationId: 'review1' })));
+    await assertSucceeds(dbFor('alice').ref('certificates/approved1').set(certificate()));
+    await assertFails(dbFor('olivia').ref('certificates/approved1').set(certificate({ region: 'Punjab' })));
+  });
+
+  it('publishes an empty region for applications without one', async () => {
+    await seed({ 'applications/approved1/region': null });
+    await assertFails(dbFor('alice').ref('certificates/approved1').set(certificate({ region: 'Delhi' })));
+    await assertSucceeds(dbFor('alice').ref('certificates/approved1').set(certificate({ region: '' })));
+  });
+
+  it('publishes alongside the approval in one update', async () => {
+    await assertSucceeds(dbFor('olivia').ref().update({
+      ...statusUpdate('review1', 'approved'),
+      'applications/review1/reviewedBy': 'olivia',
+      'applications/review1/reviewedAt': APPROVED_AT,
+      'certificates/review1': certificate({ applicationId: 'review1' }),
+    }));
+  });
+});
+
+describe('application creation', () => {
+  it('lets an applicant create their own pending application', async () => {
+    await assertSucceeds(dbFor('bob').ref('applications/new1').set(application('bob')));
+  });
+
+  it('rejects applications filed under another user', async () => {
+    await assertFails(dbFor('bob').ref('applications/new1').set(application('alice')));
+  });
+
+  it('rejects applications created in a decided status', async () => {
+    await assertFails(dbFor('bob').ref('applications/new1').set(application('bob', 'approved')));
+  });
+
+  it('validates coordinates and required fields', async () => {
+    await assertFails(dbFor('bob').ref('applications/new1').set(application('bob', 'pending', { latitude: 123 })));
+    await assertFails(dbFor('bob').ref('applications/new1').set(application('bob', 'pending', { sampleId: null })));
+  });
+
+  // Batch imports validate against the same limits (src/lib/fieldLimits.ts) before writing any row
+  it('accepts text fields at their length limits and refuses longer ones', async () => {
+    const atLimit = {
+      sampleId: 'S'.repeat(64),
+      installationType: 'x'.repeat(100),
+      panelBrand: 'x'.repeat(100),
+      inverterBrand: 'x'.repeat(100),
+      installerCompany: 'x'.repeat(200),
+      electricityProvider: 'x'.repeat(200),
+      address: 'x'.repeat(500),
+    };
+    await assertSucceeds(dbFor('bob').ref('applications/new1').set(application('bob', 'pending', atLimit)));
+
+    for (const [field, value] of Object.entries(atLimit)) {
+      await assertFails(dbFor('bob').ref('applications/new2').set(
+        application('bob', 'pending', { [field]: `${value}x` })
+      ));
+    }
+  });
+
+  it('rejects index keys that do not match the record', async () => {
+    await assertFails(dbFor('bob').ref('applications/new1').set(
+      application('bob', 'pending', { statusCreatedAt: `approved|${CREATED_AT}` })
+    ));
+  });
+
+  it('rejects unknown application fields', async () => {
+    await assertFails(dbFor('bob').ref('applications/new1').set(application('bob', 'pending', { priority: 1 })));
+  });
+
+  it('does not allow deleting applications', async () => {
+    await assertFails(dbFor('alice').ref('applications/pending1').remove());
+    await assertFails(dbFor('ada').ref('applications/pending1').remove());
+  });
+});
+
+describe('status transitions', () => {
+  it('lets the applicant start detection on their own application', async () => {
+    await assertFails(dbFor('bob').ref().update(statusUpdate('pending1', 'processing')));
+    await assertSucceeds(dbFor('alice').ref().update(statusUpdate('pending1', 'processing')));
+  });
+
+  it('stops applicants approving their own application', async () => {
+    await assertFails(dbFor('alice').ref().update(statusUpdate('review1', 'approved')));
+  });
+
+  it('lets an officer decide once AI detection has completed', async () => {
+    await assertSucceeds(dbFor('olivia').ref().update({
+      ...statusUpdate('review1', 'approved'),
+      'applications/review1/reviewedBy': 'olivia',
+      'applications/review1/reviewedAt': CREATED_AT,
+      'applications/review1/officerNotes': 'Panels visible',
+    }));
+    await assertFails(dbFor('olivia').ref().update(statusUpdate('noai1', 'approved')));
+  });
+
+  it('sends subsidies at or above the stored threshold to a supervisor', async () => {
+    await seed({ 'applications/large1': application('alice', 'ai_completed', { aiResult, subsidyAmount: 50000 }) });
+    await assertFails(dbFor('olivia').ref().update(statusUpdate('large1', 'approved')));
+    await assertFails(dbFor('sam').ref().update(statusUpdate('large1', 'approved')));
+    await assertSucceeds(dbFor('olivia').ref().update(statusUpdate('large1', 'pending_supervisor')));
+  });
+
+  it('escalates every approval while no threshold is configured', async () => {
+    await seed({ config: null });
+    await assertFails(dbFor('olivia').ref().update(statusUpdate('review1', 'approved')));
+  });
+
+  it('lets only admins change the threshold', async () => {
+    await assertFails(dbFor('sam').ref('config/supervisorApprovalThreshold').set(1000000));
+    await assertSucceeds(dbFor('ada').ref('config/supervisorApprovalThreshold').set(75000));
+  });
+
+  it('rejects skipping the state machine', async () => {
+    await assertFails(dbFor('olivia').ref().update(statusUpdate('pending1', 'approved')));
+  });
+
+  it('keeps read-only roles from changing status', async () => {
+    await assertFails(dbFor('audrey').ref().update(statusUpdate('review1', 'rejected')));
+    await assertFails(dbFor('ada').ref().update(statusUpdate('review1', 'rejected')));
+  });
+
+  it('requires a different supervisor for the second sign-off', async () => {
+    await assertFails(dbFor('oscar').ref().update(statusUpdate('escalated1', 'approved')));
+    await assertSucceeds(dbFor('sam').ref().update({
+      ...statusUpdate('escalated1', 'approved'),
+      'applications/escalated1/supervisorReviewedBy': 'sam',
+      'applications/escalated1/supervisorReviewedAt': CREATED_AT,
+    }));
+  });
+
+  it('blocks a supervisor signing off their own review', async () => {
+    await seed({
+      'applications/escalated2': application('alice', 'pending_supervisor', { aiResult, reviewedBy: 'sam' }),
+    });
+    await assertFails(dbFor('sam').ref().update(statusUpdate('escalated2', 'approved')));
+  });
+});
+
+describe('detection results', () => {
+  const completion = (appId) => ({
+    ...statusUpdate(appId, 'ai_completed'),
+    [`applications/${appId}/aiResult`]: aiResult,
+  });
+
+  it('accepts results only while detection is running', async () => {
+    await seed({ 'applications/running1': application('alice', 'processing') });
+    await assertSucceeds(dbFor('alice').ref().update(completion('running1')));
+    await assertFails(dbFor('alice').ref('applications/review1/aiResult').set({ ...aiResult, confidence: 0.99 }));
+  });
+
+  it('keeps results fixed once a decision has been made', async () => {
+    await assertFails(dbFor('alice').ref('applications/escalated1/aiResult').set({ ...aiResult, has_solar: false }));
+    await assertFails(dbFor('olivia').ref('applications/info1/aiResult').remove());
+  });
+});
+
+describe('review fields', () => {
+  it('only lets reviewers write notes, as themselves', async () => {
+    await assertFails(dbFor('alice').ref('applications/review1/officerNotes').set('Looks fine to me'));
+    await assertSucceeds(dbFor('olivia').ref('applications/review1/officerNotes').set('Checked'));
+    await assertFails(dbFor('olivia').ref('applications/review1/reviewedBy').set('oscar'));
+  });
+
+  it('leaves assignment to reviewers', async () => {
+    await assertFails(dbFor('alice').ref('applications/pending1').update({
+      assignedTo: 'olivia',
+      assignedToName: 'olivia',
+      assignedAt: CREATED_AT,
+      assigneeCreatedAt: `olivia|${CREATED_AT}`,
+    }));
+    await assertSucceeds(dbFor('oscar').ref('applications/pending1').update({
+      assignedTo: 'oscar',
+      assigneeCreatedAt: `oscar|${CREATED_AT}`,
+    }));
+  });
+});
+
+describe('resubmission', () => {
+  it('lets the applicant correct details while more information is requested', async () => {
+    await assertSucceeds(dbFor('alice').ref().update({
+      ...statusUpdate('info1', 'pending'),
+      'applications/info1/latitude': 28.62,
+      'applications/info1/resubmissionCount': 1,
+      'applications/info1/resubmittedAt': CREATED_AT,
+      'applications/info1/resubmissionNote': 'Fixed the pin',
+    }));
+  });
+
+  it('keeps submitted details fixed otherwise', async () => {
+    await assertFails(dbFor('alice').ref('applications/pending1/latitude').set(28.62));
+    await assertFails(dbFor('bob').ref('applications/info1/latitude').set(28.62));
+  });
+
+  it('only counts resubmissions up by one', async () => {
+    await assertFails(dbFor('alice').ref('applications/info1/resubmissionCount').set(5));
+  });
+});
+
+describe('duplicate links', () => {
+  const link = (applicationId) => ({
+    applicationId,
+    sampleId: `S-${applicationId}`,
+    userName: 'bob',
+    reasons: ['coordinates'],
+  });
+
+  it('lets reviewers record matches on both applications', async () => {
+    await assertSucceeds(dbFor('olivia').ref().update({
+      'applications/pending1/possibleDuplicates/bob1': link('bob1'),
+      'applications/bob1/possibleDuplicates/pending1': link('pending1'),
+      'applications/pending1/duplicatesCheckedAt': CREATED_AT,
+    }));
+  });
+
+  it('keeps applicants from linking or clearing matches', async () => {
+    await assertFails(dbFor('bob').ref('applications/pending1/possibleDuplicates/bob1').set(link('bob1')));
+    await assertFails(dbFor('alice').ref('applications/pending1/possibleDuplicates').set(null));
+    await assertFails(dbFor('alice').ref('applications/pending1/duplicatesCheckedAt').set(CREATED_AT));
+  });
+});
+
+describe('duplicate index keys', () => {
+  it('accepts keys that match the application', async () => {
+    await assertSucceeds(dbFor('bob').ref('applications/new1').set(
+      application('bob', 'pending', { sampleIdKey: 's-bob', geohash: 'ttnfubq97' })
+    ));
+    await assertSucceeds(dbFor('ada').ref('applications/pending1').update({ sampleIdKey: 's-alice', geohash: 'ttnfubq97' }));
+  });
+
+  it('rejects a sample ID key for a different sample ID', async () => {
+    await assertFails(dbFor('bob').ref('applications/new1').set(
+      application('bob', 'pending', { sampleIdKey: 'other' })
+    ));
+  });
+
+  it('lets applicants move the geohash only while answering an information request', async () => {
+    await assertFails(dbFor('alice').ref('applications/pending1/geohash').set('ttnfubq97'));
+    await assertSucceeds(dbFor('alice').ref('applications/info1/geohash').set('ttnfubq97'));
+    await assertFails(dbFor('alice').ref('applications/info1/geohash').set('not-a-hash'));
+  });
+
+  it('indexes image hash segments of the applicant\'s own hashed applications', async () => {
+    await assertSucceeds(dbFor('bob').ref().update({
+      'applications/new1': application('bob', 'pending', { imageHash: 'c3a5f00f96e1783c' }),
+      'imageHashSegments/0_c3/new1': true,
+      'imageHashSegments/7_3c/new1': true,
+    }));
+    await assertFails(dbFor('bob').ref('imageHashSegments/0_c3/pending1').set(true));
+    await assertFails(dbFor('bob').ref('imageHashSegments/9_c3/new1').set(true));
+    await assertFails(dbFor('bob').ref('imageHashSegments/0_c3/bob1').set(true));
+  });
+
+  it('lets reviewers look segments up and only maintainers remove them', async () => {
+    await seed({
+      'applications/pending1/imageHash': 'c3a5f00f96e1783c',
+      'imageHashSegments/0_c3/pending1': true,
+    });
+    await assertSucceeds(dbFor('olivia').ref('imageHashSegments/0_c3').get());
+    await assertFails(dbFor('alice').ref('imageHashSegments/0_c3').get());
+    await assertFails(dbFor('alice').ref('imageHashSegments/0_c3/pending1').remove());
+    await assertSucceeds(dbFor('sam').ref('imageHashSegments/0_c3/pending1').remove());
+  });
+});
+
+describe('audit log', () => {
+  const DECIDED_AT = '2026-02-01T09:30:00.000Z';
+  const event = (actorId, type = 'rejected', timestamp = DECIDED_AT) => ({
+    applicationId: 'review1',
+    type,
+    actorId,
+    timestamp,
+    diff: {},
+  });
+  const rejection = (extra = {}) => ({
+    ...statusUpdate('review1', 'rejected'),
+    'applications/review1/reviewedBy': 'olivia',
+    'applications/review1/updatedAt': DECIDED_AT,
+    ...extra,
+  });
+
+  it('appends events recorded as the signed-in user together with the change', async () => {
+    await assertFails(dbFor('olivia').ref().update(rejection({ 'auditLog/review1/e1': event('sam') })));
+    await assertFails(dbFor('olivia').ref().update(rejection({ 'auditLog/review1/e1': event('system') })));
+    await assertSucceeds(dbFor('olivia').ref().update(rejection({ 'auditLog/review1/e1': event('olivia') })));
+  });
+
+  it('rejects events written without a matching application change', async () => {
+    await assertFails(dbFor('olivia').ref('auditLog/review1/e1').set(event('olivia')));
+    await assertFails(dbFor('olivia').ref().update(rejection({ 'auditLog/review1/e1': event('olivia', 'approved') })));
+    await assertFails(dbFor('olivia').ref().update(rejection({ 'auditLog/review1/e1': event('olivia', 'rejected', CREATED_AT) })));
+    await assertFails(dbFor('olivia').ref().update({
+      'applications/review1/updatedAt': DECIDED_AT,
+      'auditLog/review1/e1': event('olivia'),
+    }));
+  });
+
+  it('accepts note edits that change the notes', async () => {
+    await assertSucceeds(dbFor('olivia').ref().update({
+      'applications/review1/officerNotes': 'Checked the meter photo',
+      'applications/review1/updatedAt': DECIDED_AT,
+      'auditLog/review1/e1': event('olivia', 'note_edited'),
+    }));
+  });
+
+  it('never rewrites or removes events', async () => {
+    await seed({ 'auditLog/review1/e1': event('olivia') });
+    await assertFails(dbFor('olivia').ref().update(rejection({ 'auditLog/review1/e1': event('olivia') })));
+    await assertFails(dbFor('ada').ref('auditLog/review1/e1').remove());
+  });
+});
+
+describe('review locks', () => {
+  const lock = (officerId) => ({ officerId, officerName: officerId, lockedAt: CREATED_AT });
+
+  it('lets officers take locks in their own name', async () => {
+    await assertSucceeds(dbFor('olivia').ref('reviewLocks/review1').set(lock('olivia')));
+    await assertFails(dbFor('olivia').ref('reviewLocks/review1').set(lock('oscar')));
+  });
+
+  it('keeps applicants out of review locks', async () => {
+    await assertFails(dbFor('alice').ref('reviewLocks/review1').set(lock('alice')));
+  });
+});
+
+describe('review assignment', () => {
+  const ASSIGNED_AT = '2026-02-01T09:30:00.000Z';
+
+  // Mirrors writeAssignment in reviewQueue: the fields, their index key and the audit event in one update
+  const assignment = (appId, assignee, actorId, from = '') => ({
+    [`applications/${appId}/assignedTo`]: assignee,
+    [`applications/${appId}/assignedToName`]: assignee,
+    [`applications/${appId}/assignedAt`]: assignee ? ASSIGNED_AT : '',
+    [`applications/${appId}/assigneeCreatedAt`]: `${assignee}|${CREATED_AT}`,
+    [`applications/${appId}/updatedAt`]: ASSIGNED_AT,
+    [`auditLog/${appId}/e-${actorId}-${assignee || 'none'}`]: {
+      applicationId: appId,
+      type: 'reassigned',
+      actorId,
+      timestamp: ASSIGNED_AT,
+      diff: { assignedTo: { from, to: assignee } },
+    },
+  });
+
+  const assignTo = (appId, officerId) => seed({
+    [`applications/${appId}/assignedTo`]: officerId,
+    [`applications/${appId}/assignedToName`]: officerId,
+    [`applications/${appId}/assigneeCreatedAt`]: `${officerId}|${CREATED_AT}`,
+    [`applications/${appId}/updatedAt`]: CREATED_AT,
+  });
+
+  it('lets an officer claim an unassigned application with its audit event', async () => {
+    await assertSucceeds(dbFor('olivia').ref().update(assignment('review1', 'olivia', 'olivia')));
+  });
+
+  it('refuses a second claim once the application is taken', async () => {
+    await assertSucceeds(dbFor('olivia').ref().update(assignment('review1', 'olivia', 'olivia')));
+    await assertFails(dbFor('oscar').ref().update(assignment('review1', 'oscar', 'oscar', 'olivia')));
+    await assertFails(dbFor('oscar').ref('applications/review1/assignedToName').set('oscar'));
+  });
+
+  it('lets the assignee release or hand over their application', async () => {
+    await assignTo('review1', 'olivia');
+    await assertSucceeds(dbFor('olivia').ref().update(assignment('review1', 'oscar', 'olivia', 'olivia')));
+    await assignTo('review1', 'olivia');
+    await assertSucceeds(dbFor('olivia').ref().update(assignment('review1', '', 'olivia', 'olivia')));
+  });
+
+  it('lets supervisors reassign applications held by other officers', async () => {
+    await assignTo('review1', 'olivia');
+    await assertSucceeds(dbFor('sam').ref().update(assignment('review1', 'oscar', 'sam', 'olivia')));
+  });
+
+  it('rejects a reassigned event that does not change the assignee', async () => {
+    await assignTo('review1', 'olivia');
+    await assertFails(dbFor('olivia').ref().update(assignment('review1', 'olivia', 'olivia', 'olivia')));
+  });
+
+  it('keeps applicants and read-only roles out of assignment', async () => {
+    await assertFails(dbFor('alice').ref().update(assignment('review1', 'olivia', 'alice')));
+    await assertFails(dbFor('audrey').ref().update(assignment('review1', 'audrey', 'audrey')));
+  });
+});
+
+describe('status counters', () => {
+  const counted = (appId, from, to, extra = {}) => ({
+    ...statusUpdate(appId, to),
+    [`applicationStats/${from}`]: 4,
+    [`applicationStats/${to}`]: 3,
+    lastStatusChange: { applicationId: appId },
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    await seed({ applicationStats: { pending: 5, processing: 2 } });
+  });
+
+  it('moves counters by one alongside the status change they count', async () => {
+    await assertSucceeds(dbFor('alice').ref().update(counted('pending1', 'pending', 'processing')));
+  });
+
+  it('rejects counter changes without a matching status change', async () => {
+    await assertFails(dbFor('alice').ref('applicationStats/pending').set(4));
+    await assertFails(dbFor('alice').ref().update({
+      'applicationStats/pending': 4,
+      lastStatusChange: { applicationId: 'pending1' },
+    }));
+    await assertFails(dbFor('alice').ref().update(counted('pending1', 'pending', 'processing', { 'applicationStats/processing': 30 })));
+    await assertFails(dbFor('alice').ref().update(counted('pending1', 'pending', 'processing', { 'applicationStats/approved': 1 })));
+  });
+
+  it('counts new applications', async () => {
+    await assertSucceeds(dbFor('bob').ref().update({
+      'applications/new1': application('bob'),
+      'applicationStats/pending': 6,
+      lastStatusChange: { applicationId: 'new1' },
+    }));
+  });
+
+  it('only lets maintainers replace all counters', async () => {
+    await assertFails(dbFor('alice').ref('applicationStats').set({ approved: 100 }));
+    await assertSucceeds(dbFor('sam').ref('applicationStats').set({ pending: 2, approved: 1 }));
+  });
+});
+
+describe('round-robin counters', () => {
+  it('are advanced by reviewers and admins only', async () => {
+    await assertFails(dbFor('alice').ref('reviewQueue/roundRobin/_all').set(1));
+    await assertFails(dbFor('audrey').ref('reviewQueue/roundRobin/_all').set(1));
+    await assertSucceeds(dbFor('olivia').ref('reviewQueue/roundRobin/_all').set(1));
+    await assertSucceeds(dbFor('ada').ref('reviewQueue/roundRobin/Delhi').set(2));
+  });
+});
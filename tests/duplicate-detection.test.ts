@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  encodeGeohash,
+  findDuplicates,
+  getDistanceMeters,
+  getGeohashNeighborhood,
+  getHashDistance,
+  getImageHashSegmentKeys,
+} from "@/lib/duplicateDetection";
+
+// Moves a point the given distance north and east, in meters
+const offset = (latitude: number, longitude: number, northM: number, eastM: number) => ({
+  latitude: latitude + northM / 111195,
+  longitude: longitude + eastM / (111195 * Math.cos((latitude * Math.PI) / 180)),
+});
+
+describe("encodeGeohash", () => {
+  it("matches the reference encoding", () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe("u4pruydqqvj");
+    expect(encodeGeohash(28.61, 77.21)).toBe("ttnfubq97");
+  });
+});
+
+describe("getGeohashNeighborhood", () => {
+  it("covers every point within the radius, including across cell edges", () => {
+    // Points right next to cell boundaries, where a single prefix would miss neighbours
+    const origins = [
+      { latitude: 28.61, longitude: 77.21 },
+      { latitude: 0.00001, longitude: 0.00001 },
+      { latitude: 45.000687, longitude: -0.000686 },
+    ];
+
+    for (const origin of origins) {
+      const prefixes = getGeohashNeighborhood(origin.latitude, origin.longitude, 25);
+      for (const [north, east] of [[24, 0], [-24, 0], [0, 24], [0, -24], [17, 17], [-17, -17], [17, -17], [-17, 17]]) {
+        const point = offset(origin.latitude, origin.longitude, north, east);
+        expect(getDistanceMeters(origin.latitude, origin.longitude, point.latitude, point.longitude)).toBeLessThanOrEqual(25);
+        const geohash = encodeGeohash(point.latitude, point.longitude);
+        expect(prefixes.some((prefix) => geohash.startsWith(prefix))).toBe(true);
+      }
+    }
+  });
+});
+
+// Flips the given bit positions (0 = most significant) of a 64-bit hex hash
+const flipBits = (hash: string, bits: number[]) => {
+  const bytes = hash.match(/../g)!.map((byte) => parseInt(byte, 16));
+  for (const bit of bits) bytes[Math.floor(bit / 8)] ^= 0x80 >> (bit % 8);
+  return bytes.map((byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+describe("getImageHashSegmentKeys", () => {
+  it("keys each byte of the hash by its position", () => {
+    expect(getImageHashSegmentKeys("0123456789abcdef")).toEqual(["0_01", "1_23", "2_45", "3_67", "4_89", "5_ab", "6_cd", "7_ef"]);
+    expect(getImageHashSegmentKeys("")).toEqual([]);
+  });
+
+  it("gives hashes within the distance threshold a shared key, however the bits are spread", () => {
+    const hash = "c3a5f00f96e1783c";
+    for (const bits of [[0, 8, 16, 24, 32, 40], [7, 15, 23, 31, 39, 63], [1, 2, 3, 4, 5, 6], [9, 18, 27, 36, 45, 54]]) {
+      const similar = flipBits(hash, bits);
+      expect(getHashDistance(hash, similar)).toBe(6);
+      const shared = getImageHashSegmentKeys(similar).filter((key) => getImageHashSegmentKeys(hash).includes(key));
+      expect(shared.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("findDuplicates", () => {
+  it("flags a near-duplicate photo filed under another sample ID far away", () => {
+    const original = {
+      id: "a1",
+      sampleId: "S-100",
+      userName: "Asha",
+      latitude: 28.61,
+      longitude: 77.21,
+      imageUrl: "https://example.com/a1.jpg",
+      imageHash: "c3a5f00f96e1783c",
+    };
+    // Re-encoded and cropped copy submitted in Mumbai under a new sample ID
+    const reused = {
+      ...original,
+      id: "b2",
+      sampleId: "S-900",
+      userName: "Ravi",
+      latitude: 19.07,
+      longitude: 72.88,
+      imageUrl: "https://example.com/b2.jpg",
+      imageHash: flipBits(original.imageHash, [3, 17, 40, 58]),
+    };
+
+    const sharesSegment = getImageHashSegmentKeys(reused.imageHash).some((key) =>
+      getImageHashSegmentKeys(original.imageHash).includes(key)
+    );
+    expect(sharesSegment).toBe(true);
+    expect(findDuplicates(reused, [original])).toEqual([
+      expect.objectContaining({ applicationId: "a1", reasons: ["similar_image"], imageHashDistance: 4 }),
+    ]);
+  });
+});
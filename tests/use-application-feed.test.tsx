@@ -0,0 +1,61 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Application, ApplicationFilter } from "@/lib/applicationService";
+import { subscribeApplications } from "@/lib/applicationService";
+import { useApplicationFeed } from "@/hooks/use-application-feed";
+
+vi.mock("@/lib/applicationService", () => ({
+  APPLICATION_PAGE_SIZE: 25,
+  subscribeApplications: vi.fn(),
+}));
+
+const application = (id: string, assignedTo: string, createdAt: string) =>
+  ({ id, userId: "alice", sampleId: id, status: "ai_completed", region: "North", assignedTo, createdAt }) as Application;
+
+const APPLICATIONS = [
+  application("mine-1", "olivia", "2026-01-03T00:00:00.000Z"),
+  application("theirs-1", "oscar", "2026-01-02T00:00:00.000Z"),
+  application("unassigned-1", "", "2026-01-01T00:00:00.000Z"),
+];
+
+// Stands in for the database query: replays the applications the filter selects, then reports ready
+const subscribe = vi.mocked(subscribeApplications);
+
+beforeEach(() => {
+  subscribe.mockReset();
+  subscribe.mockImplementation((filter: ApplicationFilter, callbacks) => {
+    APPLICATIONS.filter((app) => !filter.assignedTo || app.assignedTo === filter.assignedTo).forEach(
+      callbacks.onAdded
+    );
+    callbacks.onReady?.();
+    return () => undefined;
+  });
+});
+
+const ids = (applications: Application[]) => applications.map((app) => app.id);
+
+describe("useApplicationFeed", () => {
+  it("lists every application when no assignee is set", async () => {
+    const { result } = renderHook(() => useApplicationFeed({ status: "ai_completed" }));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(ids(result.current.applications)).toEqual(["mine-1", "theirs-1", "unassigned-1"]);
+  });
+
+  it("hides applications assigned to other officers in the mine view", async () => {
+    const { result, rerender } = renderHook(
+      ({ filter }: { filter: ApplicationFilter }) => useApplicationFeed(filter),
+      { initialProps: { filter: { status: "ai_completed" } as ApplicationFilter } }
+    );
+    await waitFor(() => expect(result.current.applications).toHaveLength(3));
+
+    rerender({ filter: { status: "ai_completed", assignedTo: "olivia" } });
+
+    await waitFor(() => expect(ids(result.current.applications)).toEqual(["mine-1"]));
+    expect(subscribe).toHaveBeenLastCalledWith(
+      { status: "ai_completed", region: undefined, assignedTo: "olivia" },
+      expect.any(Object),
+      25
+    );
+  });
+});